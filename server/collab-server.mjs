@@ -0,0 +1,114 @@
+// 실시간 공동 편집 서버 (WebSocket)
+// - 실행: npm run collab  (포트: COLLAB_PORT, 기본 3001)
+// - 방 = 서버 명단 id. 방 상태는 메모리에만 두고, 마지막 사람이 나가면 지움
+//   (명단 저장은 각 브라우저가 /api/rosters로 함)
+// - 연산 규칙은 src/lib/planner/collab.ts와 같음: OR-Set 원소 + 키별 레지스터
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.COLLAB_PORT ?? 3001);
+
+/** @type {Map<string, { elements: Map<string, Set<string>>, registers: Map<string, string>, peers: Map<import("ws").WebSocket, { id: string, name: string, date: string | null }> }>} */
+const rooms = new Map();
+
+function applyOp(room, op) {
+  if (op.t === "add") {
+    const tags = room.elements.get(op.key) ?? new Set();
+    room.elements.set(op.key, tags.add(op.tag));
+  } else if (op.t === "remove") {
+    const tags = room.elements.get(op.key);
+    if (!tags) return;
+    for (const tag of op.tags) tags.delete(tag);
+    if (tags.size === 0) room.elements.delete(op.key);
+  } else if (op.t === "set") {
+    if (op.value === null) room.registers.delete(op.key);
+    else room.registers.set(op.key, op.value);
+  }
+}
+
+const isOp = (op) =>
+  op &&
+  typeof op.key === "string" &&
+  ((op.t === "add" && typeof op.tag === "string") ||
+    (op.t === "remove" && Array.isArray(op.tags)) ||
+    (op.t === "set" && (op.value === null || typeof op.value === "string")));
+
+function broadcast(room, msg) {
+  const text = JSON.stringify(msg);
+  for (const ws of room.peers.keys())
+    if (ws.readyState === ws.OPEN) ws.send(text);
+}
+
+const presence = (room) =>
+  broadcast(room, { type: "presence", peers: Array.from(room.peers.values()) });
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on("connection", (ws) => {
+  let room = null;
+  let roomId = null;
+
+  function handle(msg) {
+    if (msg.type === "hello" && !room && typeof msg.room === "string") {
+      roomId = msg.room;
+      room = rooms.get(roomId);
+      const fresh = !room;
+      if (!room) {
+        room = { elements: new Map(), registers: new Map(), peers: new Map() };
+        rooms.set(roomId, room);
+      }
+      room.peers.set(ws, {
+        id: String(msg.peer?.id ?? ""),
+        name: String(msg.peer?.name ?? "").slice(0, 30) || "이름 없음",
+        date: typeof msg.peer?.date === "string" ? msg.peer.date : null,
+      });
+      ws.send(
+        JSON.stringify({
+          type: "snapshot",
+          fresh,
+          elements: Array.from(room.elements, ([k, tags]) => [
+            k,
+            Array.from(tags),
+          ]),
+          registers: Array.from(room.registers),
+        })
+      );
+      presence(room);
+    } else if (msg.type === "ops" && room && Array.isArray(msg.ops)) {
+      const ops = msg.ops.filter(isOp);
+      for (const op of ops) applyOp(room, op);
+      // 보낸 사람에게도 보냄: 모두 같은 순서로 레지스터를 적용
+      broadcast(room, { type: "ops", from: room.peers.get(ws).id, ops });
+    } else if (msg.type === "presence" && room) {
+      room.peers.get(ws).date = typeof msg.date === "string" ? msg.date : null;
+      presence(room);
+    }
+  }
+
+  ws.on("message", (data) => {
+    let msg;
+    try {
+      msg = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    // 객체가 아닌 메시지(null, 숫자 등)는 무시
+    if (typeof msg !== "object" || msg === null || Array.isArray(msg)) return;
+    // 메시지 하나 때문에 서버 전체가 멈추지 않도록
+    try {
+      handle(msg);
+    } catch (e) {
+      console.error("메시지 처리 실패:", e);
+    }
+  });
+
+  ws.on("error", (e) => console.error("연결 오류:", e.message));
+
+  ws.on("close", () => {
+    if (!room) return;
+    room.peers.delete(ws);
+    if (room.peers.size === 0) rooms.delete(roomId);
+    else presence(room);
+  });
+});
+
+console.log(`공동 편집 서버: ws://localhost:${PORT}`);
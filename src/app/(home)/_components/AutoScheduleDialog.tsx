@@ -0,0 +1,341 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { datesBetween } from "@/lib/planner/date";
+import type { HolidayCalendar } from "@/lib/planner/holidays";
+import type { Person } from "@/lib/planner/people";
+import type { RosterRules } from "@/lib/planner/rules";
+import { generateSchedule } from "@/lib/planner/scheduler";
+import type { Entry } from "@/lib/planner/types";
+import type { WorkWeek } from "@/lib/planner/work-week";
+
+type Target = "SELECTED" | "RANGE";
+
+interface Props {
+  people: string[];
+  selectedDates: string[];
+  isWorkday: (iso: string) => boolean;
+  renderDate: (iso: string) => string;
+  rules: RosterRules;
+  holidayCal: HolidayCalendar;
+  workWeek: WorkWeek;
+  directory: Map<string, Person>;
+  available: (name: string, iso: string) => boolean;
+  onApply: (entries: Entry[], mode: "merge" | "replace") => void;
+  onClose: () => void;
+}
+
+/** ============ 자동 배정 ============ */
+export default function AutoScheduleDialog({
+  people,
+  selectedDates,
+  isWorkday,
+  renderDate,
+  rules,
+  holidayCal,
+  workWeek,
+  directory,
+  available,
+  onApply,
+  onClose,
+}: Props) {
+  const [target, setTarget] = useState<Target>(
+    selectedDates.length ? "SELECTED" : "RANGE"
+  );
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [workdaysOnly, setWorkdaysOnly] = useState(true);
+  const [pool, setPool] = useState<string[]>(people);
+  const [perDay, setPerDay] = useState(2);
+  const [seed, setSeed] = useState(1);
+  // 잠근 칸: 날짜 → 고정 인원 (다시 생성해도 유지)
+  const [locked, setLocked] = useState<Record<string, string[]>>({});
+  const [mode, setMode] = useState<"merge" | "replace">("replace");
+
+  const dates = useMemo(() => {
+    if (target === "SELECTED") return selectedDates;
+    if (!from || !to) return [];
+    const range = datesBetween(from, to);
+    return workdaysOnly ? range.filter(isWorkday) : range;
+  }, [target, selectedDates, from, to, workdaysOnly, isWorkday]);
+
+  const result = useMemo(
+    () =>
+      generateSchedule({
+        dates,
+        pool,
+        perDay,
+        rules,
+        cal: holidayCal,
+        workWeek,
+        directory,
+        locked,
+        available,
+        seed,
+      }),
+    [
+      dates,
+      pool,
+      perDay,
+      rules,
+      holidayCal,
+      workWeek,
+      directory,
+      locked,
+      available,
+      seed,
+    ]
+  );
+
+  // 미리보기 요약: 인원별 배정 일수
+  const totals = useMemo(() => {
+    const m = new Map<string, number>(pool.map((n) => [n, 0]));
+    for (const e of result.entries)
+      for (const n of e.names) m.set(n, (m.get(n) ?? 0) + 1);
+    return Array.from(m).sort((a, b) => b[1] - a[1]);
+  }, [result, pool]);
+
+  const isLocked = (date: string, name: string) =>
+    locked[date]?.includes(name) ?? false;
+  function toggleLock(date: string, name: string) {
+    setLocked((cur) => {
+      const list = cur[date] ?? [];
+      const next = list.includes(name)
+        ? list.filter((n) => n !== name)
+        : [...list, name];
+      return { ...cur, [date]: next };
+    });
+  }
+
+  const shortage = new Map(result.shortages.map((s) => [s.date, s.missing]));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-auto rounded-2xl bg-white p-5 shadow-xl space-y-4 text-sm">
+        <div className="text-lg font-semibold">자동 배정</div>
+        <div className="text-xs text-gray-500">
+          참여 일수와 토·일/공휴일 참여가 고르게 되도록 배정합니다. 검증 규칙
+          (최대 인원, 필수 역할, 연속 참여, 휴일 참여, 참여 불가일)과 개인 근무
+          요일을 지킵니다. 미리보기에서 이름을 누르면 그 칸을 고정합니다.
+        </div>
+
+        {/* 대상 날짜 */}
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              name="auto-target"
+              checked={target === "SELECTED"}
+              onChange={() => setTarget("SELECTED")}
+            />
+            <span>달력에서 선택한 날짜 ({selectedDates.length}일)</span>
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              name="auto-target"
+              checked={target === "RANGE"}
+              onChange={() => setTarget("RANGE")}
+            />
+            <span>기간</span>
+          </label>
+          {target === "RANGE" && (
+            <>
+              <input
+                type="date"
+                className="border rounded-md px-2 py-1"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+              <span>~</span>
+              <input
+                type="date"
+                className="border rounded-md px-2 py-1"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={workdaysOnly}
+                  onChange={(e) => setWorkdaysOnly(e.target.checked)}
+                />
+                <span>근무일만</span>
+              </label>
+            </>
+          )}
+        </div>
+
+        {/* 인원 풀 */}
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">배정할 인원</span>
+            <button
+              className="text-xs underline"
+              onClick={() => setPool(pool.length ? [] : people)}
+            >
+              {pool.length ? "모두 해제" : "모두 선택"}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {people.length === 0 && (
+              <span className="text-gray-400">
+                인원 명부에 인원을 등록하거나 명단에 이름을 먼저 입력하세요.
+              </span>
+            )}
+            {people.map((p) => {
+              const on = pool.includes(p);
+              return (
+                <button
+                  key={p}
+                  className={
+                    on
+                      ? "rounded-full px-3 py-1 border border-blue-500 bg-blue-100"
+                      : "rounded-full px-3 py-1 border bg-white hover:bg-gray-50"
+                  }
+                  onClick={() =>
+                    setPool((cur) =>
+                      on ? cur.filter((x) => x !== p) : [...cur, p]
+                    )
+                  }
+                >
+                  {p}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2">
+            <span>하루 인원</span>
+            <input
+              type="number"
+              min={1}
+              className="w-16 border rounded-md px-2 py-1"
+              value={perDay}
+              onChange={(e) =>
+                setPerDay(Math.max(1, Math.floor(Number(e.target.value) || 1)))
+              }
+            />
+          </label>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+            onClick={() => setSeed((s) => s + 1)}
+            title="고정한 칸은 유지하고 나머지를 다시 배정"
+          >
+            다시 생성
+          </button>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+            disabled={Object.values(locked).every((l) => l.length === 0)}
+            onClick={() => setLocked({})}
+          >
+            고정 모두 해제
+          </button>
+        </div>
+
+        {/* 미리보기 */}
+        <div className="max-h-64 overflow-auto border rounded-xl">
+          <table className="w-full">
+            <thead className="sticky top-0 bg-gray-50">
+              <tr>
+                <th className="p-2 text-left">날짜</th>
+                <th className="p-2 text-left">배정 (클릭 = 고정/해제)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.entries.length === 0 && (
+                <tr>
+                  <td colSpan={2} className="p-3 text-gray-400">
+                    배정할 날짜를 고르세요.
+                  </td>
+                </tr>
+              )}
+              {result.entries.map((e) => (
+                <tr key={e.date} className="border-t">
+                  <td className="p-2 whitespace-nowrap">
+                    {renderDate(e.date)}
+                  </td>
+                  <td className="p-2">
+                    <div className="flex flex-wrap items-center gap-1">
+                      {e.names.map((n) => (
+                        <button
+                          key={n}
+                          className={
+                            isLocked(e.date, n)
+                              ? "rounded-full px-2 border border-blue-600 bg-blue-100 font-medium"
+                              : "rounded-full px-2 bg-gray-100 hover:bg-gray-200"
+                          }
+                          onClick={() => toggleLock(e.date, n)}
+                        >
+                          {isLocked(e.date, n) && "🔒 "}
+                          {n}
+                        </button>
+                      ))}
+                      {shortage.has(e.date) && (
+                        <span className="text-xs text-amber-700">
+                          ⚠ {shortage.get(e.date)}명 부족
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {totals.length > 0 && (
+          <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+            {totals.map(([n, c]) => (
+              <span key={n}>
+                {n} {c}일
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              name="auto-apply"
+              checked={mode === "replace"}
+              onChange={() => setMode("replace")}
+            />
+            <span>해당 날짜 명단 대체</span>
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              name="auto-apply"
+              checked={mode === "merge"}
+              onChange={() => setMode("merge")}
+            />
+            <span>기존 명단에 추가</span>
+          </label>
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            취소
+          </button>
+          <button
+            className="px-4 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+            disabled={result.entries.length === 0}
+            onClick={() => onApply(result.entries, mode)}
+          >
+            적용
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { datesBetween } from "@/lib/planner/date";
+import { parseNames } from "@/lib/planner/names";
+
+type Target = "SELECTED" | "RANGE";
+
+interface Props {
+  people: string[];
+  selectedDates: string[];
+  isWorkday: (iso: string) => boolean;
+  renderDate: (iso: string) => string;
+  onApply: (names: string[], dates: string[], action: "add" | "remove") => void;
+}
+
+/** ============ 일괄 배정: 여러 인원 × 여러 날짜 ============ */
+export default function BulkAssignPanel({
+  people,
+  selectedDates,
+  isWorkday,
+  renderDate,
+  onApply,
+}: Props) {
+  const [picked, setPicked] = useState<string[]>([]);
+  const [typed, setTyped] = useState("");
+  const [target, setTarget] = useState<Target>("SELECTED");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [workdaysOnly, setWorkdaysOnly] = useState(true);
+
+  const names = useMemo(
+    () => Array.from(new Set([...picked, ...parseNames(typed)])),
+    [picked, typed]
+  );
+  const dates = useMemo(() => {
+    if (target === "SELECTED") return selectedDates;
+    if (!from || !to) return [];
+    const range = datesBetween(from, to);
+    return workdaysOnly ? range.filter(isWorkday) : range;
+  }, [target, selectedDates, from, to, workdaysOnly, isWorkday]);
+
+  const ready = names.length > 0 && dates.length > 0;
+
+  function apply(action: "add" | "remove") {
+    if (!ready) return;
+    onApply(names, dates, action);
+    setTyped("");
+  }
+
+  return (
+    <div className="border rounded-2xl p-3 shadow-sm space-y-3 text-sm">
+      <div className="font-medium">일괄 배정</div>
+
+      {/* 인원 선택 */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          {people.length === 0 && (
+            <span className="text-gray-400">
+              등록된 인원이 없습니다. 아래에 이름을 입력하세요.
+            </span>
+          )}
+          {people.map((p) => {
+            const on = picked.includes(p);
+            return (
+              <button
+                key={p}
+                className={
+                  on
+                    ? "rounded-full px-3 py-1 border border-blue-500 bg-blue-100"
+                    : "rounded-full px-3 py-1 border bg-white hover:bg-gray-50"
+                }
+                onClick={() =>
+                  setPicked((cur) =>
+                    on ? cur.filter((x) => x !== p) : [...cur, p]
+                  )
+                }
+              >
+                {p}
+              </button>
+            );
+          })}
+        </div>
+        <input
+          className="w-full border rounded-xl px-2 py-1"
+          placeholder="새 이름 입력 (쉼표/공백/줄바꿈 허용)"
+          value={typed}
+          onChange={(e) => setTyped(e.target.value)}
+        />
+      </div>
+
+      {/* 대상 날짜 */}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            name="bulk-target"
+            checked={target === "SELECTED"}
+            onChange={() => setTarget("SELECTED")}
+          />
+          <span>달력에서 선택한 날짜 ({selectedDates.length}일)</span>
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            name="bulk-target"
+            checked={target === "RANGE"}
+            onChange={() => setTarget("RANGE")}
+          />
+          <span>기간</span>
+        </label>
+        {target === "RANGE" && (
+          <>
+            <input
+              type="date"
+              className="border rounded-md px-2 py-1"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+            <span>~</span>
+            <input
+              type="date"
+              className="border rounded-md px-2 py-1"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={workdaysOnly}
+                onChange={(e) => setWorkdaysOnly(e.target.checked)}
+              />
+              <span>근무일만</span>
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-500">
+          {names.length}명 × {dates.length}일
+          {dates.length > 0 &&
+            ` (${renderDate(dates[0])}${
+              dates.length > 1
+                ? ` ~ ${renderDate(dates[dates.length - 1])}`
+                : ""
+            })`}
+        </span>
+        <button
+          className="ml-auto rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+          disabled={!ready}
+          onClick={() => apply("add")}
+        >
+          모두 추가
+        </button>
+        <button
+          className="rounded-xl border px-3 py-1 text-red-600 hover:bg-gray-50 disabled:opacity-40"
+          disabled={!ready}
+          onClick={() => apply("remove")}
+        >
+          모두 제거
+        </button>
+      </div>
+    </div>
+  );
+}
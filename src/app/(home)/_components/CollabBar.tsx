@@ -0,0 +1,96 @@
+"use client";
+import React from "react";
+import type { CollabPeer } from "@/lib/planner/collab";
+import type { CollabStatus } from "@/lib/planner/collab-client";
+import { formatDate } from "@/lib/planner/date-format";
+import type { DateFormat } from "@/lib/planner/types";
+
+interface Props {
+  on: boolean;
+  status: CollabStatus;
+  peers: CollabPeer[];
+  selfId: string;
+  name: string;
+  fmt: DateFormat;
+  onNameChange: (name: string) => void;
+  onToggle: (on: boolean) => void;
+}
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  CONNECTING: "연결 중…",
+  OPEN: "연결됨",
+  CLOSED: "연결 끊김 (다시 연결 중)",
+};
+
+/** ============ 실시간 공동 편집 (서버 명단과 연결된 작업공간) ============ */
+export default function CollabBar({
+  on,
+  status,
+  peers,
+  selfId,
+  name,
+  fmt,
+  onNameChange,
+  onToggle,
+}: Props) {
+  return (
+    <div className="border rounded-2xl p-3 shadow-sm flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium">공동 편집</span>
+      <input
+        className="border rounded-md px-2 py-1 w-32 disabled:bg-gray-50"
+        placeholder="표시 이름"
+        maxLength={30}
+        value={name}
+        disabled={on}
+        onChange={(e) => onNameChange(e.target.value)}
+      />
+      <button
+        className={
+          on
+            ? "rounded-xl border px-3 py-1 hover:bg-gray-50"
+            : "rounded-xl border px-3 py-1 bg-blue-600 text-white hover:bg-blue-700"
+        }
+        onClick={() => onToggle(!on)}
+      >
+        {on ? "나가기" : "참여"}
+      </button>
+      {on && (
+        <>
+          <span
+            className={
+              status === "OPEN"
+                ? "text-xs text-gray-500"
+                : "text-xs text-red-600"
+            }
+          >
+            {STATUS_LABELS[status]}
+          </span>
+          <span className="flex flex-wrap gap-1">
+            {peers.map((p) => (
+              <span
+                key={p.id}
+                className={
+                  p.id === selfId
+                    ? "rounded-full px-2 py-0.5 text-xs bg-blue-100"
+                    : "rounded-full px-2 py-0.5 text-xs bg-amber-100"
+                }
+                title={
+                  p.date ? `${formatDate(p.date, fmt)} 편집 중` : undefined
+                }
+              >
+                {p.name}
+                {p.id === selfId && " (나)"}
+                {p.date && ` · ${formatDate(p.date, fmt)}`}
+              </span>
+            ))}
+          </span>
+        </>
+      )}
+      {!on && (
+        <span className="text-xs text-gray-500">
+          같은 서버 명단을 연 사람들과 이름·날짜 변경을 바로 주고받습니다.
+        </span>
+      )}
+    </div>
+  );
+}
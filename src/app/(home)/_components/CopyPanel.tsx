@@ -0,0 +1,115 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_LINE_TEMPLATE,
+  renderHtmlTable,
+  renderOutput,
+  type OutputFormat,
+  type OutputGroup,
+} from "@/lib/planner/text-output";
+
+const TEMPLATE_KEY = "attendmark:line-template";
+
+const FORMATS: { value: OutputFormat; label: string }[] = [
+  { value: "LINES", label: "한 줄 텍스트" },
+  { value: "TSV", label: "표 (HWP/Word/Excel)" },
+  { value: "MARKDOWN", label: "Markdown" },
+];
+
+/** ============ 복사 패널 ============ */
+export default function CopyPanel({ groups }: { groups: OutputGroup[] }) {
+  const [format, setFormat] = useState<OutputFormat>("LINES");
+  const [template, setTemplate] = useState(DEFAULT_LINE_TEMPLATE);
+  const [copied, setCopied] = useState(false);
+
+  // 한 줄 템플릿은 작업공간과 무관한 사용자 설정으로 저장
+  useEffect(() => {
+    const saved = window.localStorage.getItem(TEMPLATE_KEY);
+    if (saved) setTemplate(saved);
+  }, []);
+
+  const text = useMemo(
+    () => renderOutput(format, groups, template),
+    [format, groups, template]
+  );
+
+  async function copy() {
+    try {
+      if (format === "TSV" && typeof ClipboardItem !== "undefined") {
+        // 표는 HTML(병합 셀)과 탭 구분 텍스트를 함께 넣어 붙여넣을 곳이 고르게 함
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            "text/html": new Blob([renderHtmlTable(groups)], {
+              type: "text/html",
+            }),
+            "text/plain": new Blob([text], { type: "text/plain" }),
+          }),
+        ]);
+      } else {
+        await navigator.clipboard.writeText(text);
+      }
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  return (
+    <div className="border rounded-2xl p-3 shadow-sm space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-bold">복사</div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {FORMATS.map((f) => (
+            <label key={f.value} className="flex items-center gap-1">
+              <input
+                type="radio"
+                name="copy-format"
+                checked={format === f.value}
+                onChange={() => setFormat(f.value)}
+              />
+              <span>{f.label}</span>
+            </label>
+          ))}
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+            disabled={groups.length === 0}
+            onClick={copy}
+          >
+            {copied ? "복사됨 ✓" : "클립보드에 복사"}
+          </button>
+        </div>
+      </div>
+
+      {format === "LINES" && (
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-gray-500 whitespace-nowrap">줄 템플릿</span>
+          <input
+            className="flex-1 border rounded-md px-2 py-1 font-mono"
+            value={template}
+            onChange={(e) => {
+              setTemplate(e.target.value);
+              window.localStorage.setItem(TEMPLATE_KEY, e.target.value);
+            }}
+          />
+          <button
+            className="rounded-md border px-2 py-1"
+            onClick={() => {
+              setTemplate(DEFAULT_LINE_TEMPLATE);
+              window.localStorage.removeItem(TEMPLATE_KEY);
+            }}
+          >
+            기본값
+          </button>
+          <span className="text-gray-400 whitespace-nowrap">
+            {"{name} {periods} {days}"}
+          </span>
+        </div>
+      )}
+
+      <pre className="max-h-60 overflow-auto rounded-xl bg-gray-50 p-2 text-xs whitespace-pre-wrap">
+        {text || "집계된 인원이 없습니다."}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+import React from "react";
+import type {
+  DateFormat,
+  DatePreset,
+  RangeCollapse,
+} from "@/lib/planner/types";
+import { formatRange, PRESET_LABELS } from "@/lib/planner/date-format";
+
+// 미리보기용 예시 기간
+const SAMPLE_START = "2026-10-01";
+const SAMPLE_END = "2026-10-03";
+
+const COLLAPSE_LABELS: Record<RangeCollapse, string> = {
+  NONE: "축약 안 함",
+  YEAR: "같은 연도 생략",
+  MONTH: "같은 연·월 생략",
+};
+
+interface Props {
+  value: DateFormat;
+  onChange: (next: DateFormat) => void;
+}
+
+/** ============ 날짜 표기 형식 설정 ============ */
+export default function DateFormatSettings({ value, onChange }: Props) {
+  const set = (patch: Partial<DateFormat>) => onChange({ ...value, ...patch });
+
+  return (
+    <div>
+      <div className="text-sm font-medium mb-1">날짜 표기 형식</div>
+      <select
+        className="w-full border rounded-md px-2 py-1 text-sm"
+        value={value.preset}
+        onChange={(e) => set({ preset: e.target.value as DatePreset })}
+      >
+        {(Object.keys(PRESET_LABELS) as DatePreset[]).map((p) => (
+          <option key={p} value={p}>
+            {PRESET_LABELS[p]}
+          </option>
+        ))}
+      </select>
+
+      {value.preset === "CUSTOM" && (
+        <div className="mt-2">
+          <input
+            className="w-full border rounded-md px-2 py-1 text-sm font-mono"
+            placeholder="예: YYYY년 M월 D일"
+            value={value.pattern}
+            onChange={(e) => set({ pattern: e.target.value })}
+          />
+          <div className="mt-1 text-[11px] text-gray-500">
+            YYYY·YY 연도, MM·M 월, DD·D 일, ddd 요일(금), dddd 요일(금요일)
+          </div>
+        </div>
+      )}
+
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={value.weekday}
+            onChange={(e) => set({ weekday: e.target.checked })}
+          />
+          <span>요일 표기</span>
+        </label>
+        <label className="flex items-center gap-1">
+          <span>기간 구분자</span>
+          <input
+            className="w-10 border rounded-md px-1 py-0.5 text-center"
+            value={value.rangeSeparator}
+            onChange={(e) => set({ rangeSeparator: e.target.value })}
+          />
+        </label>
+        <select
+          className="border rounded-md px-2 py-1"
+          value={value.rangeCollapse}
+          onChange={(e) =>
+            set({ rangeCollapse: e.target.value as RangeCollapse })
+          }
+        >
+          {(Object.keys(COLLAPSE_LABELS) as RangeCollapse[]).map((c) => (
+            <option key={c} value={c}>
+              {COLLAPSE_LABELS[c]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-2 text-xs text-gray-500">
+        예시: {formatRange(SAMPLE_START, SAMPLE_END, value)}
+      </div>
+    </div>
+  );
+}
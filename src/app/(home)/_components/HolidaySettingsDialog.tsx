@@ -0,0 +1,234 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import {
+  listCountries,
+  listRegions,
+  listYearHolidays,
+  type HolidaySettings,
+} from "@/lib/planner/holidays";
+
+interface Props {
+  value: HolidaySettings;
+  onChange: (next: HolidaySettings) => void;
+  year: number; // 공휴일 목록을 보여줄 연도 (달력에 표시 중인 연도)
+  renderDate: (iso: string) => string;
+  onClose: () => void;
+}
+
+/** ============ 공휴일 설정 ============ */
+export default function HolidaySettingsDialog({
+  value,
+  onChange,
+  year,
+  renderDate,
+  onClose,
+}: Props) {
+  const set = (patch: Partial<HolidaySettings>) =>
+    onChange({ ...value, ...patch });
+
+  const [viewYear, setViewYear] = useState(year);
+  const [newDate, setNewDate] = useState("");
+  const [newName, setNewName] = useState("");
+
+  const countries = useMemo(() => listCountries(), []);
+  const regions = useMemo(() => listRegions(value.country), [value.country]);
+  // 근무일/휴무일 변경과 무관하게 국가·지역·대체공휴일 설정이 바뀔 때만 다시 계산
+  const { country, region, substitute } = value;
+  const national = useMemo(
+    () =>
+      listYearHolidays(
+        { country, region, substitute, closures: [], workingDays: [] },
+        viewYear
+      ),
+    [country, region, substitute, viewYear]
+  );
+  const working = new Set(value.workingDays);
+
+  function addClosure() {
+    if (!newDate) return;
+    const closures = [
+      ...value.closures.filter((c) => c.date !== newDate),
+      { date: newDate, name: newName.trim() },
+    ].sort((a, b) => a.date.localeCompare(b.date));
+    set({ closures });
+    setNewDate("");
+    setNewName("");
+  }
+
+  function toggleWorking(iso: string) {
+    set({
+      workingDays: working.has(iso)
+        ? value.workingDays.filter((d) => d !== iso)
+        : [...value.workingDays, iso].sort(),
+    });
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-2xl rounded-2xl bg-white p-5 shadow-xl space-y-4 text-sm">
+        <div className="text-lg font-semibold">공휴일 설정</div>
+
+        {/* 국가 / 지역 */}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">국가</span>
+          <select
+            className="border rounded-md px-2 py-1"
+            value={value.country}
+            onChange={(e) =>
+              set({ country: e.target.value, region: "", workingDays: [] })
+            }
+          >
+            {countries.map((c) => (
+              <option key={c.code} value={c.code}>
+                {c.name} ({c.code})
+              </option>
+            ))}
+          </select>
+          {regions.length > 0 && (
+            <select
+              className="border rounded-md px-2 py-1"
+              value={value.region}
+              onChange={(e) => set({ region: e.target.value })}
+            >
+              <option value="">전체 (지역 공휴일 제외)</option>
+              {regions.map((r) => (
+                <option key={r.code} value={r.code}>
+                  {r.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {value.country === "KR" && (
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={value.substitute}
+                onChange={(e) => set({ substitute: e.target.checked })}
+              />
+              <span>대체공휴일 자동 적용</span>
+            </label>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          {/* 국가 공휴일 → 근무일 지정 */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium">공휴일 (체크 해제 = 근무일)</span>
+              <span className="flex items-center gap-1">
+                <button
+                  className="px-2 rounded border"
+                  onClick={() => setViewYear((y) => y - 1)}
+                >
+                  ←
+                </button>
+                {viewYear}
+                <button
+                  className="px-2 rounded border"
+                  onClick={() => setViewYear((y) => y + 1)}
+                >
+                  →
+                </button>
+              </span>
+            </div>
+            <div className="max-h-64 overflow-auto border rounded-xl p-2 space-y-1">
+              {national.length === 0 && (
+                <div className="text-gray-400">공휴일 없음</div>
+              )}
+              {national.map((h) => (
+                <label key={h.date} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!working.has(h.date)}
+                    onChange={() => toggleWorking(h.date)}
+                  />
+                  <span className="whitespace-nowrap">
+                    {renderDate(h.date)}
+                  </span>
+                  <span
+                    className={
+                      working.has(h.date)
+                        ? "text-gray-400 line-through"
+                        : "text-red-600"
+                    }
+                  >
+                    {h.name}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* 회사 휴무일 / 임시공휴일 */}
+          <div>
+            <div className="font-medium mb-1">휴무일 추가 (창립기념일 등)</div>
+            <div className="flex gap-2 mb-2">
+              <input
+                type="date"
+                className="border rounded-md px-2 py-1"
+                value={newDate}
+                onChange={(e) => setNewDate(e.target.value)}
+              />
+              <input
+                className="flex-1 border rounded-md px-2 py-1"
+                placeholder="이름 (선택)"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") addClosure();
+                }}
+              />
+              <button className="rounded-xl border px-3" onClick={addClosure}>
+                추가
+              </button>
+            </div>
+            <div className="max-h-52 overflow-auto border rounded-xl p-2 space-y-1">
+              {value.closures.length === 0 && (
+                <div className="text-gray-400">추가된 휴무일 없음</div>
+              )}
+              {value.closures.map((c) => (
+                <div key={c.date} className="flex items-center gap-2">
+                  <span className="whitespace-nowrap">
+                    {renderDate(c.date)}
+                  </span>
+                  <span className="flex-1 text-red-600">
+                    {c.name || "휴무일"}
+                  </span>
+                  <button
+                    className="text-red-600"
+                    onClick={() =>
+                      set({
+                        closures: value.closures.filter(
+                          (x) => x.date !== c.date
+                        ),
+                      })
+                    }
+                    title="휴무일 삭제"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end">
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  buildIcs,
+  DEFAULT_ICS_DESCRIPTION,
+  DEFAULT_ICS_TITLE,
+  fillEventTemplate,
+  type IcsPerson,
+} from "@/lib/planner/ics";
+import { formatRange } from "@/lib/planner/date-format";
+import type { DateFormat } from "@/lib/planner/types";
+import { downloadBlob, safeFilename } from "@/lib/download";
+
+const TITLE_KEY = "attendmark:ics-title";
+const DESCRIPTION_KEY = "attendmark:ics-description";
+
+interface Props {
+  people: IcsPerson[];
+  calendarName: string; // 작업공간 이름
+  uidScope: string; // 작업공간 id (UID 고정용)
+  fmt: DateFormat;
+  onClose: () => void;
+}
+
+/** ============ 캘린더(ICS) 내보내기 ============ */
+export default function IcsExportDialog({
+  people,
+  calendarName,
+  uidScope,
+  fmt,
+  onClose,
+}: Props) {
+  const [title, setTitle] = useState(DEFAULT_ICS_TITLE);
+  const [description, setDescription] = useState(DEFAULT_ICS_DESCRIPTION);
+
+  // 템플릿은 작업공간과 무관한 사용자 설정으로 저장
+  useEffect(() => {
+    const savedTitle = window.localStorage.getItem(TITLE_KEY);
+    const savedDescription = window.localStorage.getItem(DESCRIPTION_KEY);
+    if (savedTitle) setTitle(savedTitle);
+    if (savedDescription) setDescription(savedDescription);
+  }, []);
+
+  function updateTemplate(key: string, value: string) {
+    if (key === TITLE_KEY) setTitle(value);
+    else setDescription(value);
+    window.localStorage.setItem(key, value);
+  }
+
+  const eventCount = people.reduce((n, p) => n + p.segments.length, 0);
+
+  // 첫 일정으로 미리보기
+  const sample = useMemo(() => {
+    const p = people[0];
+    if (!p) return null;
+    const [start, end] = p.segments[0];
+    const values = {
+      name: p.name,
+      department: p.department ?? "",
+      period: formatRange(start, end, fmt),
+      days: p.dates.filter((d) => d >= start && d <= end).length,
+      periods: p.segments.map(([s, e]) => formatRange(s, e, fmt)).join(", "),
+      totalDays: p.dates.length,
+    };
+    return {
+      title: fillEventTemplate(title, values),
+      description: fillEventTemplate(description, values),
+    };
+  }, [people, title, description, fmt]);
+
+  function download(list: IcsPerson[], filename: string) {
+    const ics = buildIcs(list, {
+      calendarName,
+      uidScope,
+      titleTemplate: title,
+      descriptionTemplate: description,
+      fmt,
+    });
+    downloadBlob(
+      new Blob([ics], { type: "text/calendar;charset=utf-8" }),
+      `${safeFilename(filename)}.ics`
+    );
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-lg max-h-[90vh] overflow-auto rounded-2xl bg-white p-5 shadow-xl space-y-4 text-sm">
+        <div className="text-lg font-semibold">캘린더(ICS) 내보내기</div>
+        <div className="text-xs text-gray-500">
+          인원별로 이어진 기간마다 종일 일정 하나를 만듭니다 (공백일 설정 반영).
+          같은 작업공간에서 다시 내보낸 파일을 가져오면 기존 일정이 갱신됩니다.
+        </div>
+
+        {/* 템플릿 */}
+        <div className="space-y-2">
+          <label className="flex items-center gap-2">
+            <span className="w-12 shrink-0 text-gray-500">제목</span>
+            <input
+              className="flex-1 border rounded-md px-2 py-1 font-mono text-xs"
+              value={title}
+              onChange={(e) => updateTemplate(TITLE_KEY, e.target.value)}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-12 shrink-0 text-gray-500">설명</span>
+            <input
+              className="flex-1 border rounded-md px-2 py-1 font-mono text-xs"
+              value={description}
+              onChange={(e) => updateTemplate(DESCRIPTION_KEY, e.target.value)}
+            />
+          </label>
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-gray-400">
+              {"{name} {department} {period} {days} {periods} {totalDays}"}
+            </span>
+            <button
+              className="rounded-md border px-2 py-1"
+              onClick={() => {
+                setTitle(DEFAULT_ICS_TITLE);
+                setDescription(DEFAULT_ICS_DESCRIPTION);
+                window.localStorage.removeItem(TITLE_KEY);
+                window.localStorage.removeItem(DESCRIPTION_KEY);
+              }}
+            >
+              기본값
+            </button>
+          </div>
+          {sample && (
+            <div className="rounded-xl bg-gray-50 p-2 text-xs">
+              <div className="font-medium">{sample.title}</div>
+              <div className="text-gray-600">{sample.description}</div>
+            </div>
+          )}
+        </div>
+
+        {/* 전체 명단 */}
+        <div className="flex items-center justify-between gap-2">
+          <span>
+            전체 명단 · {people.length}명, 일정 {eventCount}개
+          </span>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+            disabled={people.length === 0}
+            onClick={() => download(people, calendarName)}
+          >
+            전체 파일 내려받기
+          </button>
+        </div>
+
+        {/* 개인별 */}
+        <div className="max-h-60 overflow-auto border rounded-xl divide-y">
+          {people.map((p) => (
+            <div
+              key={p.name}
+              className="flex items-center justify-between gap-2 px-3 py-1.5"
+            >
+              <span>
+                {p.name}
+                <span className="ml-1 text-xs text-gray-500">
+                  일정 {p.segments.length}개 · {p.dates.length}일
+                </span>
+              </span>
+              <button
+                className="rounded-md border px-2 py-0.5 text-xs hover:bg-gray-50"
+                onClick={() => download([p], `${calendarName}_${p.name}`)}
+              >
+                개인 파일
+              </button>
+            </div>
+          ))}
+          {people.length === 0 && (
+            <div className="p-3 text-gray-400">내보낼 명단이 없습니다.</div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end">
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import type { Entry } from "@/lib/planner/types";
+import type { Person } from "@/lib/planner/people";
+import {
+  findExisting,
+  parseDelimitedText,
+  rowsToEntries,
+} from "@/lib/planner/roster-import";
+import {
+  guessNames,
+  icsNameKeys,
+  icsToEntries,
+  parseIcs,
+  type IcsNameSource,
+  type IcsParseResult,
+} from "@/lib/planner/ics-import";
+import { readXlsxRows } from "@/lib/planner/xlsx";
+
+interface Props {
+  currentEntries: Entry[];
+  defaultYear: number;
+  knownNames: string[]; // 캘린더 일정 제목/참석자에서 찾을 이름 (명부 + 명단)
+  people: Person[]; // 가져온 이름을 직접 입력과 같이 명부 표시 이름으로 맞춤
+  renderDate: (iso: string) => string;
+  onApply: (entries: Entry[], mode: "merge" | "replace") => void;
+  onClose: () => void;
+}
+
+/** ============ 명단 가져오기 (CSV / XLSX / 붙여넣기 / ICS) ============ */
+export default function ImportDialog({
+  currentEntries,
+  defaultYear,
+  knownNames,
+  people,
+  renderDate,
+  onApply,
+  onClose,
+}: Props) {
+  const [table, setTable] = useState<string[][]>([]);
+  const [pasted, setPasted] = useState("");
+  const [year, setYear] = useState(defaultYear);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // 캘린더(.ics) 파일: 일정 제목 또는 참석자 → 이름 매핑
+  const [ics, setIcs] = useState<IcsParseResult | null>(null);
+  const [icsSource, setIcsSource] = useState<IcsNameSource>("SUMMARY");
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [icsFrom, setIcsFrom] = useState("");
+  const [icsTo, setIcsTo] = useState("");
+
+  const icsKeys = useMemo(
+    () => (ics ? icsNameKeys(ics.events, icsSource) : []),
+    [ics, icsSource]
+  );
+
+  const result = useMemo(() => {
+    if (!ics) return rowsToEntries(table, year, people);
+    const r = icsToEntries(ics.events, {
+      source: icsSource,
+      mapping,
+      from: icsFrom || undefined,
+      to: icsTo || undefined,
+      people,
+    });
+    return { ...r, issues: [...ics.issues, ...r.issues] };
+  }, [ics, icsSource, mapping, icsFrom, icsTo, table, year, people]);
+  const existing = useMemo(
+    () => findExisting(result.entries, currentEntries),
+    [result.entries, currentEntries]
+  );
+  const existingKeys = useMemo(
+    () => new Set(existing.map((x) => `${x.date}|${x.name}`)),
+    [existing]
+  );
+  const duplicateKeys = useMemo(
+    () => new Set(result.duplicates.map((x) => `${x.date}|${x.name}`)),
+    [result.duplicates]
+  );
+  const nameCount = result.entries.reduce((s, e) => s + e.names.length, 0);
+
+  /** 매핑 기본값: 아직 정하지 않은 값만 이름을 추측해 채움 */
+  function selectIcsSource(parsed: IcsParseResult, source: IcsNameSource) {
+    setIcsSource(source);
+    setMapping((cur) => {
+      const next = { ...cur };
+      for (const k of icsNameKeys(parsed.events, source))
+        next[k] ??= guessNames(k, knownNames);
+      return next;
+    });
+  }
+
+  async function onFile(file: File) {
+    setError(null);
+    setFileName(file.name);
+    setIcs(null);
+    try {
+      if (/\.ics$/i.test(file.name)) {
+        const parsed = parseIcs(await file.text());
+        setIcs(parsed);
+        setMapping({});
+        // 제목 없이 참석자만 있는 일정이 많으면 참석자 기준
+        const withAttendees = parsed.events.filter((e) => e.attendees.length);
+        selectIcsSource(
+          parsed,
+          withAttendees.length > parsed.events.length / 2
+            ? "ATTENDEE"
+            : "SUMMARY"
+        );
+      } else if (/\.xlsx$/i.test(file.name)) {
+        setTable(await readXlsxRows(await file.arrayBuffer()));
+      } else {
+        setTable(parseDelimitedText(await file.text()));
+      }
+    } catch {
+      setTable([]);
+      setError(
+        "파일을 읽을 수 없습니다. CSV, XLSX 또는 ICS 파일인지 확인하세요."
+      );
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-auto rounded-2xl bg-white p-5 shadow-xl space-y-3">
+        <div className="text-lg font-semibold">명단 가져오기</div>
+        <div className="text-xs text-gray-500">
+          &quot;날짜, 이름&quot; 세로형 또는 날짜×이름 표를 지원합니다. 날짜는
+          2026.10.01 / 10/01 형식 모두 인식합니다. 캘린더(.ics) 파일은 일정
+          제목이나 참석자를 이름에 연결해 가져옵니다.
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="rounded-xl border px-3 py-1 cursor-pointer hover:bg-gray-50">
+            파일 선택 (CSV/XLSX/ICS)
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx,.ics"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) onFile(f);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {fileName && <span className="text-gray-500">{fileName}</span>}
+          {!ics && (
+            <label className="ml-auto flex items-center gap-2">
+              <span className="text-gray-500">연도 없는 날짜 기준 연도</span>
+              <input
+                type="number"
+                className="w-20 border rounded-md px-2 py-1"
+                value={year}
+                onChange={(e) => setYear(Number(e.target.value) || defaultYear)}
+              />
+            </label>
+          )}
+        </div>
+
+        {ics ? (
+          <div className="space-y-2 text-sm">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-gray-500">
+                {ics.calendarName && `${ics.calendarName} · `}일정{" "}
+                {ics.events.length}개
+              </span>
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="ics-source"
+                  checked={icsSource === "SUMMARY"}
+                  onChange={() => selectIcsSource(ics, "SUMMARY")}
+                />
+                <span>일정 제목</span>
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="ics-source"
+                  checked={icsSource === "ATTENDEE"}
+                  onChange={() => selectIcsSource(ics, "ATTENDEE")}
+                />
+                <span>참석자</span>
+              </label>
+              <span className="ml-auto flex items-center gap-1">
+                <span className="text-gray-500">기간</span>
+                <input
+                  type="date"
+                  className="border rounded-md px-2 py-1"
+                  value={icsFrom}
+                  onChange={(e) => setIcsFrom(e.target.value)}
+                />
+                <span>~</span>
+                <input
+                  type="date"
+                  className="border rounded-md px-2 py-1"
+                  value={icsTo}
+                  onChange={(e) => setIcsTo(e.target.value)}
+                />
+              </span>
+            </div>
+            <div className="max-h-40 overflow-auto border rounded-xl">
+              <table className="w-full">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr>
+                    <th className="p-2 text-left">
+                      {icsSource === "SUMMARY" ? "일정 제목" : "참석자"}
+                    </th>
+                    <th className="p-2 text-left">
+                      이름 (쉼표로 여러 명, 비우면 제외)
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {icsKeys.length === 0 && (
+                    <tr>
+                      <td colSpan={2} className="p-3 text-gray-400">
+                        {icsSource === "SUMMARY" ? "제목" : "참석자"}이 있는
+                        일정이 없습니다.
+                      </td>
+                    </tr>
+                  )}
+                  {icsKeys.map((k) => (
+                    <tr key={k} className="border-t">
+                      <td className="p-2 break-all">{k}</td>
+                      <td className="p-2">
+                        <input
+                          className="w-full border rounded-md px-2 py-1"
+                          value={mapping[k] ?? ""}
+                          onChange={(e) =>
+                            setMapping((cur) => ({
+                              ...cur,
+                              [k]: e.target.value,
+                            }))
+                          }
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+          <textarea
+            className="w-full h-28 border rounded-xl p-2 text-sm font-mono"
+            placeholder="엑셀/한글 표를 복사해 붙여넣기 (탭 구분)"
+            value={pasted}
+            onChange={(e) => {
+              setPasted(e.target.value);
+              setFileName(null);
+              setTable(parseDelimitedText(e.target.value));
+            }}
+          />
+        )}
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {/* 미리보기 */}
+        <div className="text-sm">
+          미리보기: {result.entries.length}일 / {nameCount}명
+          {result.duplicates.length > 0 && (
+            <span className="ml-2 text-orange-600">
+              중복 {result.duplicates.length}건
+            </span>
+          )}
+          {existing.length > 0 && (
+            <span className="ml-2 text-blue-600">
+              기존 입력과 겹침 {existing.length}건
+            </span>
+          )}
+        </div>
+        <div className="max-h-60 overflow-auto border rounded-xl">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-2 text-left">날짜</th>
+                <th className="p-2 text-left">이름</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.entries.length === 0 && (
+                <tr>
+                  <td colSpan={2} className="p-3 text-gray-400">
+                    가져올 데이터 없음
+                  </td>
+                </tr>
+              )}
+              {result.entries.map((e) => (
+                <tr key={e.date} className="border-t">
+                  <td className="p-2 whitespace-nowrap">
+                    {renderDate(e.date)}
+                  </td>
+                  <td className="p-2">
+                    <div className="flex flex-wrap gap-1">
+                      {e.names.map((n) => {
+                        const key = `${e.date}|${n}`;
+                        return (
+                          <span
+                            key={n}
+                            className={
+                              duplicateKeys.has(key)
+                                ? "px-2 rounded-full bg-orange-100"
+                                : existingKeys.has(key)
+                                ? "px-2 rounded-full bg-blue-100"
+                                : "px-2 rounded-full bg-gray-100"
+                            }
+                            title={
+                              duplicateKeys.has(key)
+                                ? "가져온 데이터 안에서 중복"
+                                : existingKeys.has(key)
+                                ? "이미 입력된 이름"
+                                : undefined
+                            }
+                          >
+                            {n}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {result.issues.length > 0 && (
+          <ul className="text-xs text-red-600 max-h-20 overflow-auto">
+            {result.issues.map((x, i) => (
+              <li key={i}>
+                {x.row}행: {x.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            취소
+          </button>
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50 disabled:opacity-40"
+            disabled={result.entries.length === 0}
+            onClick={() => onApply(result.entries, "merge")}
+          >
+            기존 데이터에 병합
+          </button>
+          <button
+            className="px-4 py-2 rounded-xl bg-red-600 text-white hover:bg-red-700 disabled:opacity-40"
+            disabled={result.entries.length === 0}
+            onClick={() => onApply(result.entries, "replace")}
+          >
+            기존 데이터 대체
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
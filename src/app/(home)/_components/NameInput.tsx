@@ -0,0 +1,100 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { ROLE_LABELS, suggestLabels, type Person } from "@/lib/planner/people";
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  people: Person[];
+  placeholder?: string;
+}
+
+// 마지막 구분자 뒤: 지금 입력 중인 이름
+const LAST_TOKEN = /[^\n,、，;；\s]*$/;
+
+/** ============ 이름 입력 (명부 자동완성) ============ */
+export default function NameInput({
+  value,
+  onChange,
+  onSubmit,
+  people,
+  placeholder,
+}: Props) {
+  const [focused, setFocused] = useState(false);
+  const [cursor, setCursor] = useState(-1);
+
+  const token = value.match(LAST_TOKEN)?.[0] ?? "";
+  const suggestions = useMemo(
+    () => suggestLabels(token, people),
+    [token, people]
+  );
+  const open = focused && suggestions.length > 0;
+
+  function pick(label: string) {
+    onChange(`${value.slice(0, value.length - token.length)}${label}, `);
+    setCursor(-1);
+  }
+
+  return (
+    <div className="relative flex-1">
+      <input
+        className="w-full border rounded-xl px-2 py-1"
+        placeholder={placeholder}
+        value={value}
+        onChange={(ev) => {
+          onChange(ev.target.value);
+          setCursor(-1);
+        }}
+        onFocus={() => setFocused(true)}
+        // 제안 클릭(mousedown)이 먼저 처리되도록 약간 늦게 닫음
+        onBlur={() => setTimeout(() => setFocused(false), 100)}
+        onKeyDown={(ev) => {
+          if (open && ev.key === "ArrowDown") {
+            ev.preventDefault();
+            setCursor((c) => (c + 1) % suggestions.length);
+          } else if (open && ev.key === "ArrowUp") {
+            ev.preventDefault();
+            setCursor((c) => (c <= 0 ? suggestions.length - 1 : c - 1));
+          } else if (open && ev.key === "Escape") {
+            setFocused(false);
+          } else if (ev.key === "Enter" && !ev.shiftKey) {
+            ev.preventDefault();
+            if (open && cursor >= 0) pick(suggestions[cursor].label);
+            else onSubmit();
+          }
+        }}
+      />
+      {open && (
+        <ul className="absolute left-0 right-0 top-full z-30 mt-1 max-h-48 overflow-auto rounded-xl border bg-white text-sm shadow-lg">
+          {suggestions.map(({ label, person }, i) => (
+            <li key={person.id}>
+              <button
+                className={
+                  i === cursor
+                    ? "flex w-full items-center gap-2 px-2 py-1 text-left bg-blue-100"
+                    : "flex w-full items-center gap-2 px-2 py-1 text-left hover:bg-gray-50"
+                }
+                onMouseDown={(ev) => {
+                  ev.preventDefault();
+                  pick(label);
+                }}
+              >
+                <span>{label}</span>
+                <span className="ml-auto text-xs text-gray-500">
+                  {[
+                    person.department,
+                    person.employeeId,
+                    person.role && ROLE_LABELS[person.role],
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+import React, { useMemo } from "react";
+import { buildCalendarMatrix, fromISO, pad } from "@/lib/planner/date";
+import { isRedDay, type HolidayCalendar } from "@/lib/planner/holidays";
+import { orderedWeekdays, WEEKDAY_LABELS } from "@/lib/planner/work-week";
+
+export type OverviewSpan = 3 | 6 | 12;
+
+interface Props {
+  startYear: number;
+  startMonth: number; // 0-11, 첫 번째로 보여줄 달
+  span: OverviewSpan;
+  weekStart: 0 | 1;
+  counts: Map<string, number>; // 날짜별 인원 수
+  selected: Set<string>;
+  highlighted: Set<string>; // 이름 클릭 강조 날짜
+  holidayCal: HolidayCalendar;
+  onPickDay: (iso: string) => void; // 날짜 클릭 → 해당 월 상세 달력
+}
+
+/** ============ 여러 달 한눈에 보기 (인원 수 히트맵) ============ */
+export default function OverviewCalendar({
+  startYear,
+  startMonth,
+  span,
+  weekStart,
+  counts,
+  selected,
+  highlighted,
+  holidayCal,
+  onPickDay,
+}: Props) {
+  const months = useMemo(
+    () =>
+      Array.from({ length: span }, (_, i) => {
+        const d = new Date(startYear, startMonth + i, 1);
+        return { year: d.getFullYear(), month: d.getMonth() };
+      }),
+    [startYear, startMonth, span]
+  );
+  const maxCount = Math.max(1, ...counts.values());
+
+  return (
+    <div
+      className={
+        span === 3
+          ? "grid gap-4 sm:grid-cols-3"
+          : "grid gap-4 sm:grid-cols-3 lg:grid-cols-4"
+      }
+    >
+      {months.map(({ year, month }) => (
+        <div key={`${year}-${month}`}>
+          <div className="mb-1 text-center text-sm font-semibold">
+            {year}.{pad(month + 1)}
+          </div>
+          <div className="grid grid-cols-7 gap-px text-center text-[10px]">
+            {orderedWeekdays(weekStart).map((w) => (
+              <div key={w} className="text-gray-500">
+                {WEEKDAY_LABELS[w]}
+              </div>
+            ))}
+            {buildCalendarMatrix(year, month, weekStart)
+              .flat()
+              .map((iso) => {
+                const d = fromISO(iso);
+                if (d.getMonth() !== month) return <div key={iso} />;
+                const n = counts.get(iso) ?? 0;
+                const holiday = holidayCal.holidayName(iso);
+                return (
+                  <button
+                    key={iso}
+                    onClick={() => onPickDay(iso)}
+                    className={[
+                      "h-6 rounded-sm leading-6",
+                      isRedDay(iso, holidayCal)
+                        ? "text-red-600"
+                        : d.getDay() === 6
+                        ? "text-blue-600"
+                        : "",
+                      highlighted.has(iso)
+                        ? "ring-2 ring-yellow-400"
+                        : selected.has(iso)
+                        ? "ring-1 ring-blue-600"
+                        : "",
+                    ].join(" ")}
+                    style={{
+                      backgroundColor: n
+                        ? `rgba(37, 99, 235, ${0.15 + (n / maxCount) * 0.6})`
+                        : undefined,
+                    }}
+                    title={`${iso}${holiday ? ` ${holiday}` : ""} · ${n}명`}
+                  >
+                    {d.getDate()}
+                  </button>
+                );
+              })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
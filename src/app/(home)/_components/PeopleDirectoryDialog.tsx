@@ -0,0 +1,186 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import {
+  directoryWarnings,
+  newPerson,
+  personLabels,
+  ROLE_LABELS,
+  type Person,
+  type PersonRole,
+} from "@/lib/planner/people";
+
+interface Props {
+  value: Person[];
+  onChange: (next: Person[]) => void;
+  unregistered: string[]; // 명단에는 있지만 명부에 없는 이름
+  onClose: () => void;
+}
+
+/** ============ 인원 명부 관리 ============ */
+export default function PeopleDirectoryDialog({
+  value,
+  onChange,
+  unregistered,
+  onClose,
+}: Props) {
+  const [filter, setFilter] = useState("");
+  const labels = useMemo(() => personLabels(value), [value]);
+  const warnings = useMemo(() => directoryWarnings(value), [value]);
+
+  const update = (id: string, patch: Partial<Person>) =>
+    onChange(value.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  const shown = value.filter((p) =>
+    [p.name, p.employeeId, p.department].some((s) => s.includes(filter.trim()))
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-3xl rounded-2xl bg-white p-5 shadow-xl space-y-4 text-sm">
+        <div className="text-lg font-semibold">인원 명부</div>
+        <div className="text-xs text-gray-500">
+          명부에 등록한 이름은 날짜별 입력에서 자동완성되고, 띄어쓰기가 달라도
+          같은 사람으로 인식합니다. 동명이인은 부서(또는 사번)를 붙여
+          구분합니다.
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            className="flex-1 border rounded-md px-2 py-1"
+            placeholder="이름·사번·부서 검색"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+            onClick={() => onChange([...value, newPerson()])}
+          >
+            인원 추가
+          </button>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+            disabled={unregistered.length === 0}
+            onClick={() =>
+              onChange([
+                ...value,
+                ...unregistered.map((name) => newPerson({ name })),
+              ])
+            }
+            title={unregistered.join(", ")}
+          >
+            명단의 미등록 이름 {unregistered.length}명 등록
+          </button>
+        </div>
+
+        <div className="max-h-80 overflow-auto border rounded-xl">
+          <table className="w-full">
+            <thead className="sticky top-0 bg-gray-50">
+              <tr>
+                <th className="p-2 text-left">이름</th>
+                <th className="p-2 text-left">사번</th>
+                <th className="p-2 text-left">부서</th>
+                <th className="p-2 text-left">역할</th>
+                <th className="p-2 text-left">표시 이름</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {shown.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="p-3 text-gray-400">
+                    등록된 인원이 없습니다.
+                  </td>
+                </tr>
+              )}
+              {shown.map((p) => (
+                <tr key={p.id} className="border-t">
+                  <td className="p-1">
+                    <input
+                      className="w-full border rounded-md px-2 py-1"
+                      value={p.name}
+                      onChange={(e) => update(p.id, { name: e.target.value })}
+                    />
+                  </td>
+                  <td className="p-1">
+                    <input
+                      className="w-24 border rounded-md px-2 py-1"
+                      value={p.employeeId}
+                      onChange={(e) =>
+                        update(p.id, { employeeId: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td className="p-1">
+                    <input
+                      className="w-full border rounded-md px-2 py-1"
+                      value={p.department}
+                      onChange={(e) =>
+                        update(p.id, { department: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td className="p-1">
+                    <select
+                      className="border rounded-md px-2 py-1"
+                      value={p.role}
+                      onChange={(e) =>
+                        update(p.id, {
+                          role: e.target.value as PersonRole | "",
+                        })
+                      }
+                    >
+                      <option value="">-</option>
+                      {(Object.keys(ROLE_LABELS) as PersonRole[]).map((r) => (
+                        <option key={r} value={r}>
+                          {ROLE_LABELS[r]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-2 whitespace-nowrap text-gray-500">
+                    {labels.get(p.id) ?? "-"}
+                  </td>
+                  <td className="p-1 text-right">
+                    <button
+                      className="text-red-600"
+                      onClick={() =>
+                        onChange(value.filter((x) => x.id !== p.id))
+                      }
+                      title="명부에서 삭제 (입력된 명단은 유지)"
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {warnings.length > 0 && (
+          <ul className="rounded-xl bg-amber-50 p-2 text-amber-800 space-y-1">
+            {warnings.map((w) => (
+              <li key={w}>⚠ {w}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-end">
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
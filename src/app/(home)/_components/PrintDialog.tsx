@@ -0,0 +1,108 @@
+"use client";
+import React, { useState } from "react";
+import type { ReportOptions } from "./PrintReport";
+
+interface Props {
+  initial: ReportOptions;
+  fallbackTitle: string;
+  onPrint: (options: ReportOptions) => void;
+  onClose: () => void;
+}
+
+/** ============ 인쇄 / PDF 보고서 설정 ============ */
+export default function PrintDialog({
+  initial,
+  fallbackTitle,
+  onPrint,
+  onClose,
+}: Props) {
+  const [options, setOptions] = useState(initial);
+  const [approvals, setApprovals] = useState(initial.approvals.join(", "));
+  const update = (patch: Partial<ReportOptions>) =>
+    setOptions((cur) => ({ ...cur, ...patch }));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-md rounded-2xl bg-white p-5 shadow-xl space-y-3 text-sm">
+        <div className="text-lg font-semibold">인쇄 / PDF 보고서</div>
+        <div className="text-xs text-gray-500">
+          제목·기간, 자동 생성 표(합계 포함), 결재란과 월별 달력을 A4 용지에
+          맞춰 인쇄합니다. PDF는 인쇄 창에서 &quot;PDF로 저장&quot;을 고르세요.
+        </div>
+
+        <label className="flex items-center gap-2">
+          <span className="w-16 shrink-0 text-gray-500">제목</span>
+          <input
+            className="flex-1 border rounded-md px-2 py-1"
+            placeholder={fallbackTitle}
+            value={options.title}
+            onChange={(e) => update({ title: e.target.value })}
+          />
+        </label>
+        <label className="flex items-start gap-2">
+          <span className="w-16 shrink-0 pt-1 text-gray-500">안내 문구</span>
+          <textarea
+            className="flex-1 h-16 border rounded-md px-2 py-1"
+            value={options.note}
+            onChange={(e) => update({ note: e.target.value })}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-16 shrink-0 text-gray-500">결재란</span>
+          <input
+            className="flex-1 border rounded-md px-2 py-1"
+            placeholder="예: 담당, 팀장, 부서장 (비우면 생략)"
+            value={approvals}
+            onChange={(e) => setApprovals(e.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.showDepartment}
+            onChange={(e) => update({ showDepartment: e.target.checked })}
+          />
+          <span>부서 열 표시</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.includeCalendar}
+            onChange={(e) => update({ includeCalendar: e.target.checked })}
+          />
+          <span>월별 달력 포함 (달마다 새 페이지)</span>
+        </label>
+
+        <div className="flex items-center justify-end gap-2">
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            취소
+          </button>
+          <button
+            className="px-4 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700"
+            onClick={() =>
+              onPrint({
+                ...options,
+                approvals: approvals
+                  .split(/[,，]/)
+                  .map((s) => s.trim())
+                  .filter(Boolean),
+              })
+            }
+          >
+            인쇄
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
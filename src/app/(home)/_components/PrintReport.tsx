@@ -0,0 +1,287 @@
+"use client";
+import React, { useMemo } from "react";
+import { createPortal } from "react-dom";
+import { buildCalendarMatrix, fromISO, pad, toISO } from "@/lib/planner/date";
+import { formatDate, formatRange } from "@/lib/planner/date-format";
+import { isRedDay, type HolidayCalendar } from "@/lib/planner/holidays";
+import { roundDays, slotLabel } from "@/lib/planner/slots";
+import type { OutputGroup } from "@/lib/planner/text-output";
+import type { DateFormat, Entry } from "@/lib/planner/types";
+import { orderedWeekdays, WEEKDAY_LABELS } from "@/lib/planner/work-week";
+
+export interface ReportOptions {
+  title: string; // 비우면 작업공간 이름
+  note: string; // 제목 아래 안내 문구 (선택)
+  showDepartment: boolean;
+  includeCalendar: boolean; // 월별 달력(이름 포함) 페이지 추가
+  approvals: string[]; // 결재란 칸 제목 (비우면 결재란 없음)
+}
+
+export const defaultReportOptions = (): ReportOptions => ({
+  title: "",
+  note: "",
+  showDepartment: false,
+  includeCalendar: true,
+  approvals: ["담당", "팀장", "부서장"],
+});
+
+// 보고서 설정은 작업공간과 무관한 사용자 설정으로 저장
+const OPTIONS_KEY = "attendmark:report-options";
+
+export function loadReportOptions(): ReportOptions {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(OPTIONS_KEY) ?? "");
+    return { ...defaultReportOptions(), ...saved };
+  } catch {
+    return defaultReportOptions();
+  }
+}
+
+export function saveReportOptions(options: ReportOptions) {
+  window.localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+}
+
+interface Props {
+  options: ReportOptions;
+  fallbackTitle: string;
+  groups: OutputGroup[];
+  departmentOf: (name: string) => string;
+  entries: Entry[];
+  fmt: DateFormat;
+  holidayCal: HolidayCalendar;
+  weekStart: 0 | 1;
+}
+
+/** ============ 인쇄용 보고서 (A4) ============ */
+/**
+ * 화면에는 보이지 않고 인쇄(또는 PDF 저장)할 때만 나타남
+ * - 편집 화면 전체를 인쇄에서 숨기므로 그 밖(body)에 렌더링
+ */
+export default function PrintReport({
+  options,
+  fallbackTitle,
+  groups,
+  departmentOf,
+  entries,
+  fmt,
+  holidayCal,
+  weekStart,
+}: Props) {
+  const dates = useMemo(
+    () =>
+      entries
+        .filter((e) => e.names.length > 0)
+        .map((e) => e.date)
+        .sort(),
+    [entries]
+  );
+  // 달력 칸 이름: 반일·시간 지정이면 "홍길동(오전)"
+  const namesByDate = useMemo(
+    () =>
+      new Map(
+        entries.map((e) => [
+          e.date,
+          e.names.map((n) =>
+            e.slots?.[n] ? `${n}(${slotLabel(e.slots[n])})` : n
+          ),
+        ])
+      ),
+    [entries]
+  );
+
+  // 명단이 있는 달만 달력으로
+  const months = useMemo(() => {
+    if (!dates.length) return [];
+    const out: { year: number; month: number }[] = [];
+    const last = fromISO(dates[dates.length - 1]);
+    for (
+      let d = fromISO(dates[0]);
+      d <= last;
+      d = new Date(d.getFullYear(), d.getMonth() + 1, 1)
+    ) {
+      const prefix = `${d.getFullYear()}-${pad(d.getMonth() + 1)}`;
+      if (dates.some((x) => x.startsWith(prefix)))
+        out.push({ year: d.getFullYear(), month: d.getMonth() });
+    }
+    return out;
+  }, [dates]);
+
+  const headcount = groups.reduce((n, g) => n + g.names.length, 0);
+  const personDays = roundDays(
+    groups.reduce((n, g) => n + g.names.length * g.days, 0)
+  );
+  const cols = options.showDepartment ? 4 : 3;
+  const cell = "border border-black px-2 py-1";
+
+  return createPortal(
+    <div className="hidden print:block text-black text-[11pt]">
+      {/* 제목 + 결재란 */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="pt-4">
+          <h1 className="text-[18pt] font-bold">
+            {options.title || fallbackTitle}
+          </h1>
+          <div className="mt-1">
+            점검 기간:{" "}
+            {dates.length
+              ? formatRange(dates[0], dates[dates.length - 1], fmt)
+              : "-"}
+          </div>
+          {options.note && (
+            <div className="mt-1 whitespace-pre-line">{options.note}</div>
+          )}
+        </div>
+        {options.approvals.length > 0 && (
+          <table className="border-collapse text-center text-[9pt]">
+            <tbody>
+              <tr>
+                <td rowSpan={2} className={`${cell} w-6 leading-tight`}>
+                  결<br />재
+                </td>
+                {options.approvals.map((a, i) => (
+                  <td key={i} className={`${cell} w-20`}>
+                    {a}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                {options.approvals.map((_, i) => (
+                  <td key={i} className={`${cell} h-16`} />
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* 자동 생성 표 */}
+      <table className="mt-6 w-full border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className={cell}>성명</th>
+            {options.showDepartment && <th className={cell}>부서</th>}
+            <th className={cell}>점검참여일(기간)</th>
+            <th className={`${cell} w-16`}>일수</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((g, gi) =>
+            g.names.map((name, i) => (
+              <tr key={`${gi}-${name}`} className="break-inside-avoid">
+                <td className={`${cell} whitespace-nowrap`}>{name}</td>
+                {options.showDepartment && (
+                  <td className={`${cell} whitespace-nowrap`}>
+                    {departmentOf(name)}
+                  </td>
+                )}
+                {i === 0 && (
+                  <>
+                    <td className={cell} rowSpan={g.names.length}>
+                      {g.periods}
+                    </td>
+                    <td
+                      className={`${cell} text-right`}
+                      rowSpan={g.names.length}
+                    >
+                      {g.days}일
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))
+          )}
+          {groups.length === 0 && (
+            <tr>
+              <td colSpan={cols} className={`${cell} text-center`}>
+                명단 없음
+              </td>
+            </tr>
+          )}
+        </tbody>
+        <tfoot>
+          <tr className="bg-gray-100 font-semibold">
+            <td className={cell} colSpan={cols - 1}>
+              합계 {headcount}명 · 점검일 {dates.length}일
+            </td>
+            <td className={`${cell} text-right whitespace-nowrap`}>
+              연 {personDays}일
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {/* 작성 정보 */}
+      <div className="mt-10 flex justify-end gap-10 break-inside-avoid">
+        <span>작성일: {formatDate(toISO(new Date()), fmt)}</span>
+        <span>작성자: ____________ (서명)</span>
+      </div>
+
+      {/* 월별 달력 (달마다 새 페이지) */}
+      {options.includeCalendar &&
+        months.map(({ year, month }) => (
+          <div key={`${year}-${month}`} className="break-before-page">
+            <div className="pt-2 mb-2 text-[14pt] font-bold">
+              {year}년 {month + 1}월
+            </div>
+            <table className="w-full table-fixed border-collapse text-[9pt]">
+              <thead>
+                <tr className="bg-gray-100">
+                  {orderedWeekdays(weekStart).map((w) => (
+                    <th key={w} className={cell}>
+                      {WEEKDAY_LABELS[w]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {buildCalendarMatrix(year, month, weekStart)
+                  // 다음 달 날짜만 있는 마지막 주는 생략
+                  .filter(
+                    (week) =>
+                      fromISO(week[0]).getMonth() === month ||
+                      fromISO(week[6]).getMonth() === month
+                  )
+                  .map((week) => (
+                    <tr key={week[0]}>
+                      {week.map((iso) => {
+                        const d = fromISO(iso);
+                        const inMonth = d.getMonth() === month;
+                        const red = isRedDay(iso, holidayCal);
+                        return (
+                          <td
+                            key={iso}
+                            className={`${cell} h-20 align-top ${
+                              inMonth ? "" : "text-gray-300"
+                            }`}
+                          >
+                            <div
+                              className={
+                                red && inMonth ? "text-red-600" : undefined
+                              }
+                            >
+                              {d.getDate()}
+                              {inMonth && holidayCal.holidayName(iso) && (
+                                <span className="ml-1 text-[7pt]">
+                                  {holidayCal.holidayName(iso)}
+                                </span>
+                              )}
+                            </div>
+                            {inMonth &&
+                              (namesByDate.get(iso) ?? []).map((n) => (
+                                <div key={n} className="leading-tight">
+                                  {n}
+                                </div>
+                              ))}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+import React, { useState } from "react";
+import { ROLE_LABELS, type PersonRole } from "@/lib/planner/people";
+import type { RosterRules } from "@/lib/planner/rules";
+
+interface Props {
+  value: RosterRules;
+  onChange: (next: RosterRules) => void;
+  people: string[];
+  renderDate: (iso: string) => string;
+  onClose: () => void;
+}
+
+/** 숫자 입력 (빈칸 = 검사 안 함) */
+function LimitInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | null;
+  onChange: (v: number | null) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2">
+      <span className="w-32">{label}</span>
+      <input
+        type="number"
+        min={0}
+        className="w-20 border rounded-md px-2 py-1"
+        placeholder="제한 없음"
+        value={value ?? ""}
+        onChange={(e) =>
+          onChange(
+            e.target.value === ""
+              ? null
+              : Math.max(0, Math.floor(Number(e.target.value)))
+          )
+        }
+      />
+    </label>
+  );
+}
+
+/** ============ 검증 규칙 설정 ============ */
+export default function RulesDialog({
+  value,
+  onChange,
+  people,
+  renderDate,
+  onClose,
+}: Props) {
+  const set = (patch: Partial<RosterRules>) => onChange({ ...value, ...patch });
+  const [person, setPerson] = useState("");
+  const [date, setDate] = useState("");
+
+  const setUnavailable = (name: string, dates: string[]) => {
+    const rest = Object.fromEntries(
+      Object.entries(value.unavailable).filter(([n]) => n !== name)
+    );
+    set({ unavailable: dates.length ? { ...rest, [name]: dates } : rest });
+  };
+
+  function addUnavailable() {
+    if (!person || !date) return;
+    const cur = value.unavailable[person] ?? [];
+    setUnavailable(person, Array.from(new Set([...cur, date])).sort());
+    setDate("");
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-lg rounded-2xl bg-white p-5 shadow-xl space-y-4 text-sm">
+        <div className="text-lg font-semibold">검증 규칙</div>
+        <div className="text-xs text-gray-500">
+          규칙을 어긴 날짜는 달력에 ⚠로 표시되고, 내보내기 전에 검증 목록에서
+          확인할 수 있습니다.
+        </div>
+
+        <div className="space-y-2">
+          <LimitInput
+            label="하루 최소 인원"
+            value={value.minPerDay}
+            onChange={(minPerDay) => set({ minPerDay })}
+          />
+          <LimitInput
+            label="하루 최대 인원"
+            value={value.maxPerDay}
+            onChange={(maxPerDay) => set({ maxPerDay })}
+          />
+          <LimitInput
+            label="1인 최대 연속 일수"
+            value={value.maxConsecutive}
+            onChange={(maxConsecutive) => set({ maxConsecutive })}
+          />
+          <label className="flex items-center gap-2">
+            <span className="w-32">매일 필요한 역할</span>
+            <select
+              className="border rounded-md px-2 py-1"
+              value={value.requiredRole}
+              onChange={(e) =>
+                set({ requiredRole: e.target.value as PersonRole | "" })
+              }
+            >
+              <option value="">검사 안 함</option>
+              {(Object.keys(ROLE_LABELS) as PersonRole[]).map((r) => (
+                <option key={r} value={r}>
+                  {ROLE_LABELS[r]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={value.noRedDays}
+              onChange={(e) => set({ noRedDays: e.target.checked })}
+            />
+            <span>일요일·공휴일 참여 금지</span>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="font-medium">개인별 참여 불가일 (휴가 등)</div>
+          <div className="flex gap-2">
+            <select
+              className="flex-1 border rounded-md px-2 py-1"
+              value={person}
+              onChange={(e) => setPerson(e.target.value)}
+            >
+              <option value="">인원 선택</option>
+              {people.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              className="border rounded-md px-2 py-1"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+            <button
+              className="rounded-xl border px-3 disabled:opacity-40"
+              disabled={!person || !date}
+              onClick={addUnavailable}
+            >
+              추가
+            </button>
+          </div>
+          {Object.keys(value.unavailable).length === 0 && (
+            <div className="text-gray-400">등록된 참여 불가일 없음</div>
+          )}
+          <div className="max-h-40 overflow-auto space-y-1">
+            {Object.entries(value.unavailable).map(([name, dates]) => (
+              <div key={name} className="flex flex-wrap items-center gap-1">
+                <span className="w-20 truncate font-medium">{name}</span>
+                {dates.map((d) => (
+                  <span
+                    key={d}
+                    className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2"
+                  >
+                    {renderDate(d)}
+                    <button
+                      className="text-red-600"
+                      onClick={() =>
+                        setUnavailable(
+                          name,
+                          dates.filter((x) => x !== d)
+                        )
+                      }
+                      title="참여 불가일 삭제"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end">
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
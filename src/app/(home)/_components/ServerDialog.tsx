@@ -0,0 +1,160 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import {
+  fetchRemoteRoster,
+  listRemoteRosters,
+  ROSTERS_API,
+  type RemoteRoster,
+  type RosterInfo,
+} from "@/lib/planner/roster-api";
+import type { WorkspaceRemote } from "@/lib/planner/workspace";
+
+interface Props {
+  workspaceName: string;
+  remote: WorkspaceRemote | undefined; // 현재 작업공간의 서버 연결
+  linkedNames: Map<string, string>; // 서버 명단 id → 연결된 작업공간 이름
+  onOpen: (roster: RemoteRoster) => void;
+  onUpload: () => Promise<string | null>; // 실패 시 오류 문구
+  onUnlink: () => void;
+  onClose: () => void;
+}
+
+/** ============ 서버 명단 (불러오기 / 올리기) ============ */
+export default function ServerDialog({
+  workspaceName,
+  remote,
+  linkedNames,
+  onOpen,
+  onUpload,
+  onUnlink,
+  onClose,
+}: Props) {
+  const [rosters, setRosters] = useState<RosterInfo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    listRemoteRosters().then((r) => {
+      if (r.ok) setRosters(r.data);
+      else setError(r.error);
+    });
+  }, []);
+
+  async function open(id: string) {
+    setBusy(true);
+    setError(null);
+    const r = await fetchRemoteRoster(id);
+    setBusy(false);
+    if (r.ok) onOpen(r.data);
+    else setError(r.error);
+  }
+
+  async function upload() {
+    setBusy(true);
+    setError(null);
+    const err = await onUpload();
+    setBusy(false);
+    if (err) setError(err);
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-lg max-h-[90vh] overflow-auto rounded-2xl bg-white p-5 shadow-xl space-y-4 text-sm">
+        <div className="text-lg font-semibold">서버 명단</div>
+        <div className="text-xs text-gray-500">
+          서버와 연결한 작업공간은 바뀔 때마다 서버에도 저장되고, 열 때 서버의
+          최신 명단을 불러옵니다. 다른 사람이나 다른 도구도 같은 명단을 읽고 쓸
+          수 있습니다.
+        </div>
+
+        {/* 현재 작업공간 */}
+        <div className="space-y-2 rounded-xl border p-3">
+          <div className="font-medium">현재 작업공간: {workspaceName}</div>
+          {remote ? (
+            <>
+              <div className="text-xs text-gray-600">
+                서버 명단과 연결됨 (revision {remote.revision})
+              </div>
+              <div className="font-mono text-xs text-gray-500 break-all">
+                {ROSTERS_API}/{remote.id}/entries
+                <br />
+                {ROSTERS_API}/{remote.id}/summary
+              </div>
+              <button
+                className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+                onClick={onUnlink}
+              >
+                연결 해제 (이 브라우저에만 저장)
+              </button>
+            </>
+          ) : (
+            <button
+              className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+              disabled={busy}
+              onClick={upload}
+            >
+              서버에 올리고 연결
+            </button>
+          )}
+        </div>
+
+        {/* 서버 명단 목록 */}
+        <div className="space-y-2">
+          <div className="font-medium">서버에 저장된 명단</div>
+          {rosters === null && !error && (
+            <div className="text-gray-400">불러오는 중…</div>
+          )}
+          {rosters?.length === 0 && (
+            <div className="text-gray-400">저장된 명단이 없습니다.</div>
+          )}
+          {rosters && rosters.length > 0 && (
+            <ul className="divide-y rounded-xl border">
+              {rosters.map((r) => (
+                <li key={r.id} className="flex items-center gap-2 p-2">
+                  <div className="flex-1">
+                    <div>{r.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(r.updatedAt).toLocaleString("ko-KR")} · revision{" "}
+                      {r.revision}
+                      {linkedNames.has(r.id) &&
+                        ` · 작업공간 '${linkedNames.get(r.id)}'과 연결됨`}
+                    </div>
+                  </div>
+                  <button
+                    className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+                    disabled={busy || remote?.id === r.id}
+                    onClick={() => open(r.id)}
+                  >
+                    {remote?.id === r.id ? "열려 있음" : "열기"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {error && (
+          <div className="whitespace-pre-line rounded-xl bg-red-50 p-2 text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center justify-end">
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+import React, { useState } from "react";
+import type { PlannerState } from "@/lib/planner/types";
+import {
+  buildShareLink,
+  parseSnapshot,
+  serializeSnapshot,
+  type SharedSnapshot,
+  type ShareMode,
+} from "@/lib/planner/share";
+import { downloadBlob, safeFilename } from "@/lib/download";
+
+interface Props {
+  name: string; // 현재 작업공간 이름
+  state: PlannerState;
+  onImport: (snapshot: SharedSnapshot) => void; // 새 작업공간으로 불러오기
+  onClose: () => void;
+}
+
+/** ============ 공유 / JSON 파일 ============ */
+export default function ShareDialog({ name, state, onImport, onClose }: Props) {
+  const [mode, setMode] = useState<ShareMode>("view");
+  const [link, setLink] = useState("");
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function exportJson() {
+    const blob = new Blob([serializeSnapshot(name, state)], {
+      type: "application/json",
+    });
+    downloadBlob(blob, `${safeFilename(name)}.json`);
+  }
+
+  async function importJson(file: File) {
+    setError(null);
+    const parsed = parseSnapshot(await file.text());
+    if (!parsed.ok) {
+      setError(parsed.error);
+      return;
+    }
+    onImport({ name: parsed.name, state: parsed.state });
+  }
+
+  async function makeLink() {
+    setError(null);
+    setCopied(false);
+    try {
+      setLink(
+        await buildShareLink(
+          window.location.href,
+          serializeSnapshot(name, state),
+          mode
+        )
+      );
+    } catch {
+      setError("이 브라우저에서는 공유 링크를 만들 수 없습니다.");
+    }
+  }
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-lg rounded-2xl bg-white p-5 shadow-xl space-y-4 text-sm">
+        <div className="text-lg font-semibold">공유</div>
+
+        {/* JSON 파일 */}
+        <div className="space-y-2">
+          <div className="font-medium">JSON 파일</div>
+          <div className="text-xs text-gray-500">
+            명단, 선택한 날짜, 개인 설정, 표기 형식 등 현재 작업공간 전체를
+            파일로 주고받습니다. 불러온 파일은 새 작업공간으로 열립니다.
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+              onClick={exportJson}
+            >
+              JSON 내보내기
+            </button>
+            <label className="rounded-xl border px-3 py-1 hover:bg-gray-50 cursor-pointer">
+              JSON 불러오기
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) importJson(f);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* 공유 링크 */}
+        <div className="space-y-2">
+          <div className="font-medium">공유 링크</div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                name="share-mode"
+                checked={mode === "view"}
+                onChange={() => {
+                  setMode("view");
+                  setLink("");
+                }}
+              />
+              <span>읽기 전용</span>
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                name="share-mode"
+                checked={mode === "edit"}
+                onChange={() => {
+                  setMode("edit");
+                  setLink("");
+                }}
+              />
+              <span>편집 가능 (받는 사람의 새 작업공간)</span>
+            </label>
+            <button
+              className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+              onClick={makeLink}
+            >
+              링크 만들기
+            </button>
+          </div>
+          {link && (
+            <div className="flex gap-2">
+              <input
+                readOnly
+                className="flex-1 border rounded-md px-2 py-1 font-mono text-xs"
+                value={link}
+                onFocus={(e) => e.target.select()}
+              />
+              <button
+                className="rounded-xl border px-3 hover:bg-gray-50"
+                onClick={copyLink}
+              >
+                {copied ? "복사됨 ✓" : "복사"}
+              </button>
+            </div>
+          )}
+          {link && (
+            <div className="text-xs text-gray-500">
+              링크 길이 {link.length.toLocaleString()}자 · 데이터는 링크 안에만
+              담기며 서버에 저장되지 않습니다.
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="whitespace-pre-line rounded-xl bg-red-50 p-2 text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center justify-end">
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
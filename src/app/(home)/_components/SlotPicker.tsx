@@ -0,0 +1,71 @@
+"use client";
+import React from "react";
+import {
+  roundDays,
+  SLOT_LABELS,
+  slotWeight,
+  type Slot,
+  type SlotKind,
+} from "@/lib/planner/slots";
+
+interface Props {
+  value: Slot | undefined; // undefined = 종일
+  onChange: (slot: Slot | undefined) => void;
+}
+
+// 시간 지정으로 바꿀 때의 기본 구간
+const DEFAULT_TIME: Slot = { kind: "TIME", start: "09:00", end: "13:00" };
+
+/** ============ 참여 구분 (종일 / 오전 / 오후 / 시간 지정) ============ */
+export default function SlotPicker({ value, onChange }: Props) {
+  function changeKind(kind: SlotKind | "") {
+    if (!kind) onChange(undefined);
+    else if (kind === "TIME") onChange(DEFAULT_TIME);
+    else onChange({ kind });
+  }
+
+  // 시작과 끝이 같으면 0시간이라 반영하지 않음
+  function changeTime(part: "start" | "end", time: string) {
+    if (value?.kind !== "TIME" || !time) return;
+    const next = { ...value, [part]: time };
+    if (next.start !== next.end) onChange(next);
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <select
+        className="border rounded px-1 text-xs bg-white"
+        value={value?.kind ?? ""}
+        onChange={(e) => changeKind(e.target.value as SlotKind | "")}
+        title="참여 구분 (오전·오후 0.5일, 시간 지정은 8시간 = 1일)"
+      >
+        <option value="">종일</option>
+        {(Object.keys(SLOT_LABELS) as SlotKind[]).map((k) => (
+          <option key={k} value={k}>
+            {SLOT_LABELS[k]}
+          </option>
+        ))}
+      </select>
+      {value?.kind === "TIME" && (
+        <>
+          <input
+            type="time"
+            className="border rounded px-1 text-xs"
+            value={value.start}
+            onChange={(e) => changeTime("start", e.target.value)}
+          />
+          <span className="text-xs">~</span>
+          <input
+            type="time"
+            className="border rounded px-1 text-xs"
+            value={value.end}
+            onChange={(e) => changeTime("end", e.target.value)}
+          />
+          <span className="text-xs text-gray-500">
+            {roundDays(slotWeight(value))}일
+          </span>
+        </>
+      )}
+    </span>
+  );
+}
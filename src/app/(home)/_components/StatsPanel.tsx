@@ -0,0 +1,207 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import type { HolidayCalendar } from "@/lib/planner/holidays";
+import {
+  computeStats,
+  FAIRNESS_TOLERANCE,
+  periodLabel,
+  statsToCsv,
+  type PersonStats,
+  type StatsPeriod,
+} from "@/lib/planner/stats";
+import type { Entry } from "@/lib/planner/types";
+import type { WorkWeek } from "@/lib/planner/work-week";
+import { downloadBlob, safeFilename } from "@/lib/download";
+
+interface Props {
+  entries: Entry[];
+  holidayCal: HolidayCalendar;
+  workWeek: WorkWeek; // 휴무일 참여 판정 (개인 근무 요일 우선)
+  fileBase: string; // 내보내기 파일 이름 (작업공간 이름)
+  onPickPerson: (name: string) => void; // 이름 클릭 → 달력 강조
+}
+
+const LOAD_STYLES: Record<PersonStats["load"], string> = {
+  OVER: "bg-red-400",
+  UNDER: "bg-amber-300",
+  FAIR: "bg-blue-400",
+};
+
+/** ============ 인원별 참여 통계 ============ */
+export default function StatsPanel({
+  entries,
+  holidayCal,
+  workWeek,
+  fileBase,
+  onPickPerson,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [period, setPeriod] = useState<StatsPeriod>("MONTH");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const stats = useMemo(
+    () =>
+      computeStats(entries, holidayCal, workWeek, period, {
+        from: from || undefined,
+        to: to || undefined,
+      }),
+    [entries, holidayCal, workWeek, period, from, to]
+  );
+  const maxDays = Math.max(1, ...stats.people.map((p) => p.days));
+  // 기간별 표의 칸 색 진하기 기준
+  const maxCell = Math.max(
+    1,
+    ...stats.people.flatMap((p) => Object.values(p.byPeriod))
+  );
+
+  function exportCsv() {
+    const blob = new Blob([statsToCsv(stats)], {
+      type: "text/csv;charset=utf-8",
+    });
+    downloadBlob(blob, `${safeFilename(fileBase)}_통계.csv`);
+  }
+
+  return (
+    <div className="border rounded-2xl p-3 shadow-sm space-y-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <button className="font-bold" onClick={() => setOpen((o) => !o)}>
+          {open ? "▾" : "▸"} 참여 통계
+        </button>
+        {open && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <input
+              type="date"
+              className="border rounded-md px-2 py-1"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+            <span>~</span>
+            <input
+              type="date"
+              className="border rounded-md px-2 py-1"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+            <select
+              className="border rounded-md px-2 py-1"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as StatsPeriod)}
+            >
+              <option value="MONTH">월별</option>
+              <option value="QUARTER">분기별</option>
+            </select>
+            <button
+              className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+              disabled={stats.people.length === 0}
+              onClick={exportCsv}
+            >
+              CSV 내보내기
+            </button>
+          </div>
+        )}
+      </div>
+
+      {open && stats.people.length === 0 && (
+        <div className="text-gray-400">집계할 참여 기록이 없습니다.</div>
+      )}
+
+      {open && stats.people.length > 0 && (
+        <>
+          <div className="text-xs text-gray-500">
+            {stats.people.length}명 · 총 {stats.total}일 · 1인 평균{" "}
+            {stats.average.toFixed(1)}일 (평균 대비 ±
+            {Math.round(FAIRNESS_TOLERANCE * 100)}%를 넘으면{" "}
+            <span className="text-red-600">과다</span>/
+            <span className="text-amber-600">과소</span>로 표시)
+          </div>
+
+          {/* 분포 막대: 세로선 = 팀 평균 */}
+          <div className="space-y-1">
+            {stats.people.map((p) => (
+              <div key={p.name} className="flex items-center gap-2">
+                <button
+                  className="w-24 truncate text-left hover:underline"
+                  onClick={() => onPickPerson(p.name)}
+                  title="달력에서 강조"
+                >
+                  {p.name}
+                </button>
+                <div className="relative h-4 flex-1 rounded bg-gray-100">
+                  <div
+                    className={`h-4 rounded ${LOAD_STYLES[p.load]}`}
+                    style={{ width: `${(p.days / maxDays) * 100}%` }}
+                  />
+                  <div
+                    className="absolute top-0 h-4 border-l-2 border-dashed border-gray-700"
+                    style={{ left: `${(stats.average / maxDays) * 100}%` }}
+                  />
+                </div>
+                <span className="w-10 text-right">{p.days}일</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="p-2 text-left">성명</th>
+                  <th className="p-2 text-right">참여일수</th>
+                  <th className="p-2 text-right">휴무일</th>
+                  <th className="p-2 text-right">최장 연속</th>
+                  <th className="p-2 text-right">평균 대비</th>
+                  {stats.periods.map((k) => (
+                    <th key={k} className="p-2 text-right whitespace-nowrap">
+                      {periodLabel(k)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {stats.people.map((p) => (
+                  <tr key={p.name} className="border-t">
+                    <td className="p-2 whitespace-nowrap">{p.name}</td>
+                    <td className="p-2 text-right">{p.days}</td>
+                    <td className="p-2 text-right">{p.offDays}</td>
+                    <td className="p-2 text-right">{p.longestStreak}일</td>
+                    <td
+                      className={
+                        p.load === "OVER"
+                          ? "p-2 text-right text-red-600 font-semibold"
+                          : p.load === "UNDER"
+                          ? "p-2 text-right text-amber-600 font-semibold"
+                          : "p-2 text-right"
+                      }
+                    >
+                      {p.deviation > 0 ? "+" : ""}
+                      {p.deviation.toFixed(1)}
+                    </td>
+                    {stats.periods.map((k) => {
+                      const n = p.byPeriod[k] ?? 0;
+                      return (
+                        <td
+                          key={k}
+                          className="p-2 text-right"
+                          style={{
+                            backgroundColor: n
+                              ? `rgba(59, 130, 246, ${
+                                  0.15 + (n / maxCell) * 0.5
+                                })`
+                              : undefined,
+                          }}
+                        >
+                          {n || ""}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
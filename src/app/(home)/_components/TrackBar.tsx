@@ -0,0 +1,183 @@
+"use client";
+import React, { useState } from "react";
+import {
+  newTrack,
+  TRACK_COLOR_CLASSES,
+  TRACK_COLORS,
+  trackLabel,
+  type Track,
+} from "@/lib/planner/tracks";
+
+interface Props {
+  tracks: Track[];
+  activeId: string;
+  readOnly: boolean;
+  onSwitch: (id: string) => void;
+  onChange: (tracks: Track[]) => void; // 추가/수정/삭제
+}
+
+/** ============ 트랙 (현장·점검 종류) 전환/관리 ============ */
+export default function TrackBar({
+  tracks,
+  activeId,
+  readOnly,
+  onSwitch,
+  onChange,
+}: Props) {
+  const [editing, setEditing] = useState(false);
+
+  function addTrack() {
+    // 아직 쓰지 않은 색부터
+    const used = new Set(tracks.map((t) => t.color));
+    const color =
+      TRACK_COLORS.find((c) => !used.has(c)) ??
+      TRACK_COLORS[tracks.length % TRACK_COLORS.length];
+    const track = newTrack({ name: `트랙 ${tracks.length + 1}`, color });
+    onChange([...tracks, track]);
+    onSwitch(track.id);
+  }
+
+  const update = (id: string, patch: Partial<Track>) =>
+    onChange(tracks.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+
+  return (
+    <div className="border rounded-2xl p-3 shadow-sm flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium">트랙</span>
+      {tracks.map((t) => (
+        <button
+          key={t.id}
+          className={
+            t.id === activeId
+              ? `flex items-center gap-1 rounded-full border px-3 py-1 font-medium ${
+                  TRACK_COLOR_CLASSES[t.color].chip
+                }`
+              : "flex items-center gap-1 rounded-full border px-3 py-1 bg-white hover:bg-gray-50"
+          }
+          onClick={() => onSwitch(t.id)}
+          title={`${trackLabel(t)} · ${t.entries.length}일`}
+        >
+          <span
+            className={`inline-block h-2.5 w-2.5 rounded-full ${
+              TRACK_COLOR_CLASSES[t.color].dot
+            }`}
+          />
+          {trackLabel(t)}
+        </button>
+      ))}
+      {!readOnly && (
+        <>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+            onClick={addTrack}
+          >
+            + 트랙 추가
+          </button>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+            onClick={() => setEditing(true)}
+          >
+            트랙 관리
+          </button>
+        </>
+      )}
+      <span className="ml-auto text-xs text-gray-500">
+        이름 입력·자동 배정은 선택한 트랙에 적용됩니다
+      </span>
+
+      {editing && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) setEditing(false);
+          }}
+          role="dialog"
+          aria-modal="true"
+        >
+          <div className="w-full max-w-xl rounded-2xl bg-white p-5 shadow-xl space-y-3">
+            <div className="text-lg font-semibold">트랙 관리</div>
+            <div className="text-xs text-gray-500">
+              소방·전기·승강기 점검처럼 따로 관리할 명단을 트랙으로 나눕니다.
+              선택 날짜, 인원 명부, 검증 규칙은 모든 트랙이 함께 씁니다.
+            </div>
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="p-2 text-left">색</th>
+                  <th className="p-2 text-left">현장</th>
+                  <th className="p-2 text-left">점검 종류</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {tracks.map((t) => (
+                  <tr key={t.id} className="border-t">
+                    <td className="p-2">
+                      <div className="flex gap-1">
+                        {TRACK_COLORS.map((c) => (
+                          <button
+                            key={c}
+                            className={`h-5 w-5 rounded-full ${
+                              TRACK_COLOR_CLASSES[c].dot
+                            } ${
+                              t.color === c
+                                ? "ring-2 ring-offset-1 ring-gray-700"
+                                : ""
+                            }`}
+                            onClick={() => update(t.id, { color: c })}
+                            aria-label={c}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="p-2">
+                      <input
+                        className="w-full border rounded-md px-2 py-1"
+                        placeholder="예: 본사"
+                        value={t.site}
+                        onChange={(e) => update(t.id, { site: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        className="w-full border rounded-md px-2 py-1"
+                        placeholder="예: 소방 점검"
+                        value={t.name}
+                        onChange={(e) => update(t.id, { name: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-2 text-right">
+                      <button
+                        className="text-xs text-red-600 underline disabled:opacity-40 disabled:no-underline"
+                        disabled={tracks.length === 1}
+                        onClick={() => {
+                          const rest = tracks.filter((x) => x.id !== t.id);
+                          onChange(rest);
+                          if (t.id === activeId) onSwitch(rest[0].id);
+                        }}
+                        title={
+                          t.entries.length
+                            ? `명단 ${t.entries.length}일이 함께 삭제됩니다 (되돌리기 가능)`
+                            : undefined
+                        }
+                      >
+                        삭제
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex items-center justify-end">
+              <button
+                className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+                onClick={() => setEditing(false)}
+              >
+                닫기
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
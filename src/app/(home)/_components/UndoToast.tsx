@@ -0,0 +1,42 @@
+"use client";
+import React, { useEffect } from "react";
+
+interface Props {
+  message: string;
+  onUndo: () => void;
+  onClose: () => void;
+}
+
+// 자동으로 닫히기까지의 시간 (ms)
+const TOAST_DURATION = 6000;
+
+/** ============ 되돌리기 알림 (삭제 등 되돌리기 어려운 작업 직후) ============ */
+export default function UndoToast({ message, onUndo, onClose }: Props) {
+  useEffect(() => {
+    const t = setTimeout(onClose, TOAST_DURATION);
+    return () => clearTimeout(t);
+  }, [message, onClose]);
+
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 z-50 -translate-x-1/2 flex items-center gap-3 rounded-xl bg-gray-900 px-4 py-2 text-sm text-white shadow-lg"
+      role="status"
+    >
+      <span>{message}</span>
+      <span className="text-gray-500">—</span>
+      <button
+        className="font-semibold text-yellow-300 hover:underline"
+        onClick={onUndo}
+      >
+        되돌리기
+      </button>
+      <button
+        className="text-gray-400 hover:text-white"
+        onClick={onClose}
+        title="닫기"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+import React from "react";
+import { VIOLATION_LABELS, type Violation } from "@/lib/planner/rules";
+
+interface Props {
+  violations: Violation[];
+  renderDate: (iso: string) => string;
+  onPickDate: (iso: string) => void; // 날짜 클릭 → 해당 월로 이동
+  onEditRules: () => void;
+}
+
+/** ============ 검증 결과 (내보내기 전 확인) ============ */
+export default function ValidationPanel({
+  violations,
+  renderDate,
+  onPickDate,
+  onEditRules,
+}: Props) {
+  return (
+    <div
+      className={
+        violations.length
+          ? "border border-amber-300 bg-amber-50 rounded-2xl p-3 shadow-sm text-sm space-y-2"
+          : "border rounded-2xl p-3 shadow-sm text-sm space-y-2"
+      }
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-bold">
+          검증{" "}
+          {violations.length ? (
+            <span className="text-amber-700">⚠ {violations.length}건</span>
+          ) : (
+            <span className="text-green-700">✓ 문제 없음</span>
+          )}
+        </div>
+        <button
+          className="rounded-xl border bg-white px-3 py-1 text-xs hover:bg-gray-50"
+          onClick={onEditRules}
+        >
+          규칙 설정
+        </button>
+      </div>
+      {violations.length > 0 && (
+        <ul className="max-h-48 overflow-auto space-y-0.5">
+          {violations.map((v, i) => (
+            <li key={`${v.kind}-${v.date}-${v.name ?? ""}-${i}`}>
+              <button
+                className="mr-2 whitespace-nowrap underline"
+                onClick={() => onPickDate(v.date)}
+              >
+                {renderDate(v.date)}
+              </button>
+              <span className="mr-1 rounded bg-amber-200 px-1 text-[11px]">
+                {VIOLATION_LABELS[v.kind]}
+              </span>
+              {v.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
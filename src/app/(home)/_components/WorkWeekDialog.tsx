@@ -0,0 +1,176 @@
+"use client";
+import React, { useState } from "react";
+import {
+  orderedWeekdays,
+  WEEKDAY_LABELS,
+  type WorkWeek,
+} from "@/lib/planner/work-week";
+
+interface Props {
+  value: WorkWeek;
+  onChange: (next: WorkWeek) => void;
+  people: string[];
+  onClose: () => void;
+}
+
+/** 요일 토글 버튼 묶음 */
+function WeekdayPicker({
+  days,
+  weekStart,
+  onChange,
+}: {
+  days: number[];
+  weekStart: 0 | 1;
+  onChange: (days: number[]) => void;
+}) {
+  return (
+    <div className="flex gap-1">
+      {orderedWeekdays(weekStart).map((d) => {
+        const on = days.includes(d);
+        return (
+          <button
+            key={d}
+            className={
+              on
+                ? "w-8 h-8 rounded-full border border-blue-600 bg-blue-100 font-semibold"
+                : "w-8 h-8 rounded-full border text-gray-400"
+            }
+            onClick={() =>
+              onChange(on ? days.filter((x) => x !== d) : [...days, d].sort())
+            }
+            title={on ? "근무일 (클릭 시 휴무)" : "휴무 (클릭 시 근무일)"}
+          >
+            {WEEKDAY_LABELS[d]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/** ============ 근무 요일 설정 ============ */
+export default function WorkWeekDialog({
+  value,
+  onChange,
+  people,
+  onClose,
+}: Props) {
+  const [person, setPerson] = useState("");
+  const set = (patch: Partial<WorkWeek>) => onChange({ ...value, ...patch });
+  const setPersonDays = (name: string, days: number[] | null) => {
+    const rest = Object.fromEntries(
+      Object.entries(value.perPerson).filter(([n]) => n !== name)
+    );
+    set({ perPerson: days ? { ...rest, [name]: days } : rest });
+  };
+  const candidates = people.filter((p) => !(p in value.perPerson));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="w-full max-w-lg rounded-2xl bg-white p-5 shadow-xl space-y-4 text-sm">
+        <div className="text-lg font-semibold">근무 요일 설정</div>
+        <div className="text-xs text-gray-500">
+          &quot;토·일/공휴일 제거&quot; 공백일 모드는 근무 요일이 아닌 날과
+          공휴일을 건너뛰어 기간을 잇습니다.
+        </div>
+
+        <div className="space-y-1">
+          <div className="font-medium">전체 근무 요일</div>
+          <WeekdayPicker
+            days={value.weekdays}
+            weekStart={value.weekStart}
+            onChange={(weekdays) => set({ weekdays })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="font-medium">달력 시작 요일</div>
+          <div className="flex gap-3">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="week-start"
+                checked={value.weekStart === 0}
+                onChange={() => set({ weekStart: 0 })}
+              />
+              <span>일요일</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="week-start"
+                checked={value.weekStart === 1}
+                onChange={() => set({ weekStart: 1 })}
+              />
+              <span>월요일</span>
+            </label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="font-medium">개인별 근무 요일</div>
+          <div className="flex gap-2">
+            <select
+              className="flex-1 border rounded-md px-2 py-1"
+              value={person}
+              onChange={(e) => setPerson(e.target.value)}
+            >
+              <option value="">인원 선택</option>
+              {candidates.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+            <button
+              className="rounded-xl border px-3 disabled:opacity-40"
+              disabled={!person}
+              onClick={() => {
+                setPersonDays(person, [...value.weekdays]);
+                setPerson("");
+              }}
+            >
+              추가
+            </button>
+          </div>
+          {Object.keys(value.perPerson).length === 0 && (
+            <div className="text-gray-400">개인 설정 없음 (전체 설정 사용)</div>
+          )}
+          {Object.entries(value.perPerson).map(([name, days]) => (
+            <div key={name} className="flex items-center gap-2">
+              <span className="w-20 truncate">{name}</span>
+              <WeekdayPicker
+                days={days}
+                weekStart={value.weekStart}
+                onChange={(d) => setPersonDays(name, d)}
+              />
+              <button
+                className="ml-auto text-red-600"
+                onClick={() => setPersonDays(name, null)}
+                title="개인 설정 삭제 (전체 설정 사용)"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end">
+          <button
+            className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+            onClick={onClose}
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
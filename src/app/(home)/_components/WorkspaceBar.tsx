@@ -0,0 +1,203 @@
+"use client";
+import React, { useState } from "react";
+import type { SyncStatus } from "@/lib/planner/roster-api";
+import type { WorkspaceMeta } from "@/lib/planner/workspace";
+
+interface Props {
+  items: WorkspaceMeta[];
+  activeId: string | null;
+  savedAt: number | null;
+  remoteSync: SyncStatus | null; // null = 서버와 연결 안 됨
+  onOpenServer: () => void;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function syncText(s: SyncStatus): string {
+  switch (s.kind) {
+    case "IDLE":
+      return "서버 연결됨";
+    case "LOADING":
+      return "서버에서 불러오는 중…";
+    case "SAVING":
+      return "서버에 저장 중…";
+    case "SAVED":
+      return `서버 저장됨 ${new Date(s.at).toLocaleTimeString("ko-KR")}`;
+    case "CONFLICT":
+      return "서버 저장 충돌";
+    case "ERROR":
+      return "서버 저장 실패";
+  }
+}
+
+/** ============ 작업공간 전환/생성/복제/삭제 ============ */
+export default function WorkspaceBar({
+  items,
+  activeId,
+  savedAt,
+  remoteSync,
+  onOpenServer,
+  onSwitch,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+}: Props) {
+  // 이름 입력 (새 작업공간 / 이름 변경 공용)
+  const [nameInput, setNameInput] = useState<{
+    mode: "create" | "rename";
+    value: string;
+  } | null>(null);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  const active = items.find((x) => x.id === activeId);
+
+  function submitName() {
+    if (!nameInput) return;
+    const name = nameInput.value.trim();
+    if (!name) return;
+    if (nameInput.mode === "create") onCreate(name);
+    else if (activeId) onRename(activeId, name);
+    setNameInput(null);
+  }
+
+  return (
+    <div className="border rounded-2xl p-3 shadow-sm flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium">작업공간</span>
+      <select
+        className="border rounded-md px-2 py-1 min-w-48"
+        value={activeId ?? ""}
+        onChange={(e) => onSwitch(e.target.value)}
+      >
+        {items.map((w) => (
+          <option key={w.id} value={w.id}>
+            {w.name}
+          </option>
+        ))}
+      </select>
+
+      {nameInput ? (
+        <>
+          <input
+            autoFocus
+            className="border rounded-xl px-2 py-1"
+            placeholder="작업공간 이름 (예: 2026 Q4 소방점검)"
+            value={nameInput.value}
+            onChange={(e) =>
+              setNameInput((p) => p && { ...p, value: e.target.value })
+            }
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitName();
+              if (e.key === "Escape") setNameInput(null);
+            }}
+          />
+          <button className="rounded-xl border px-3 py-1" onClick={submitName}>
+            {nameInput.mode === "create" ? "만들기" : "변경"}
+          </button>
+          <button
+            className="rounded-xl border px-3 py-1"
+            onClick={() => setNameInput(null)}
+          >
+            취소
+          </button>
+        </>
+      ) : (
+        <>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+            onClick={() => setNameInput({ mode: "create", value: "" })}
+          >
+            새로 만들기
+          </button>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+            onClick={() => activeId && onDuplicate(activeId)}
+          >
+            복제
+          </button>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+            onClick={() =>
+              setNameInput({ mode: "rename", value: active?.name ?? "" })
+            }
+          >
+            이름 변경
+          </button>
+          <button
+            className="rounded-xl border px-3 py-1 text-red-600 hover:bg-gray-50"
+            onClick={() => setShowDeleteConfirm(true)}
+          >
+            삭제
+          </button>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50"
+            onClick={onOpenServer}
+          >
+            서버
+          </button>
+        </>
+      )}
+
+      <span className="ml-auto text-xs text-gray-500">
+        {savedAt
+          ? `자동 저장됨 ${new Date(savedAt).toLocaleTimeString("ko-KR")}`
+          : "자동 저장 대기"}
+        {remoteSync && (
+          <span
+            className={
+              remoteSync.kind === "ERROR" || remoteSync.kind === "CONFLICT"
+                ? "text-red-600"
+                : undefined
+            }
+            title={remoteSync.kind === "ERROR" ? remoteSync.error : undefined}
+          >
+            {" · "}
+            {syncText(remoteSync)}
+          </span>
+        )}
+      </span>
+
+      {showDeleteConfirm && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) setShowDeleteConfirm(false);
+          }}
+          role="dialog"
+          aria-modal="true"
+        >
+          <div className="w-full max-w-md rounded-2xl bg-white p-5 shadow-xl">
+            <div className="text-lg font-semibold mb-2">작업공간 삭제</div>
+            <div className="text-sm text-gray-600 mb-4">
+              <b>{active?.name}</b> 작업공간의{" "}
+              <span className="font-semibold text-red-600">
+                모든 데이터가 삭제
+              </span>
+              됩니다. 정말로 삭제할까요?
+            </div>
+            <div className="flex items-center justify-end gap-2">
+              <button
+                className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+                onClick={() => setShowDeleteConfirm(false)}
+              >
+                취소
+              </button>
+              <button
+                className="px-4 py-2 rounded-xl bg-red-600 text-white hover:bg-red-700"
+                onClick={() => {
+                  if (activeId) onDelete(activeId);
+                  setShowDeleteConfirm(false);
+                }}
+              >
+                삭제
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
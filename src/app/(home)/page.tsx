@@ -1,170 +1,165 @@
 "use client";
-import React, { useMemo, useState } from "react";
-import Holidays from "date-holidays";
-
-/** ============ Types ============ */
-interface Entry {
-  date: string; // ISO 'YYYY-MM-DD'
-  names: string[];
-}
-
-type DateFormat = "MM/DD" | "YYYY.MM.DD";
-type MergeMode = "KEEP" | "RED" | "ALL"; // 공백일 적용 / 토·일·공휴일 제거 / 모든 공백일 제거
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type {
+  DateFormat,
+  Entry,
+  MergeMode,
+  PlannerState,
+  PersonOverride,
+} from "@/lib/planner/types";
+import {
+  createWorkspace,
+  deleteWorkspace,
+  duplicateWorkspace,
+  ensureWorkspaceIndex,
+  linkWorkspace,
+  loadHistory,
+  loadWorkspace,
+  renameWorkspace,
+  saveHistory,
+  saveWorkspace,
+  setActiveWorkspace,
+  type WorkspaceIndex,
+} from "@/lib/planner/workspace";
+import {
+  defaultWorkWeek,
+  orderedWeekdays,
+  WEEKDAY_LABELS,
+  type WorkWeek,
+} from "@/lib/planner/work-week";
+import { aggregateByPerson, groupRows } from "@/lib/planner/aggregate";
+import {
+  applyOp,
+  diffOps,
+  docFromSnapshot,
+  stateFromDoc,
+  type CollabDoc,
+  type CollabPeer,
+} from "@/lib/planner/collab";
+import {
+  COLLAB_NAME_KEY,
+  connectCollab,
+  newPeerId,
+  type CollabSession,
+  type CollabStatus,
+} from "@/lib/planner/collab-client";
+import {
+  createRemoteRoster,
+  fetchRemoteRoster,
+  saveRemoteRoster,
+  stateKey,
+  type RemoteRoster,
+  type SyncStatus,
+} from "@/lib/planner/roster-api";
+import { slotLabel } from "@/lib/planner/slots";
+import {
+  combinedEntries,
+  defaultTrack,
+  DEFAULT_TRACK_ID,
+  doubleBookingViolations,
+  TRACK_COLOR_CLASSES,
+  trackLabel,
+  type Track,
+} from "@/lib/planner/tracks";
+import { buildXlsx } from "@/lib/planner/xlsx";
+import { downloadBlob, safeFilename } from "@/lib/download";
+import {
+  buildCalendarMatrix,
+  datesBetween,
+  fromISO,
+  pad,
+} from "@/lib/planner/date";
+import { defaultDateFormat, formatDate } from "@/lib/planner/date-format";
+import {
+  addNamesToDates,
+  mergeEntries,
+  removeNamesFromDates,
+  renameKeys,
+  renameNames,
+  setSlot,
+} from "@/lib/planner/entries";
+import {
+  createHolidayCalendar,
+  defaultHolidaySettings,
+  isRedDay,
+  type HolidaySettings,
+} from "@/lib/planner/holidays";
+import {
+  emptyHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type History,
+  type RosterSnapshot,
+} from "@/lib/planner/history";
+import {
+  labelChanges,
+  peopleByLabel,
+  personLabels,
+  resolveNames,
+  ROLE_LABELS,
+  type NameIssue,
+  type Person,
+} from "@/lib/planner/people";
+import {
+  defaultRosterRules,
+  validateRoster,
+  violationsByDate,
+  type RosterRules,
+} from "@/lib/planner/rules";
+import {
+  readShareHash,
+  SHARE_HASH_PREFIX,
+  type SharedSnapshot,
+} from "@/lib/planner/share";
+import AutoScheduleDialog from "./_components/AutoScheduleDialog";
+import BulkAssignPanel from "./_components/BulkAssignPanel";
+import CollabBar from "./_components/CollabBar";
+import CopyPanel from "./_components/CopyPanel";
+import DateFormatSettings from "./_components/DateFormatSettings";
+import HolidaySettingsDialog from "./_components/HolidaySettingsDialog";
+import IcsExportDialog from "./_components/IcsExportDialog";
+import ImportDialog from "./_components/ImportDialog";
+import RulesDialog from "./_components/RulesDialog";
+import ServerDialog from "./_components/ServerDialog";
+import ShareDialog from "./_components/ShareDialog";
+import SlotPicker from "./_components/SlotPicker";
+import ValidationPanel from "./_components/ValidationPanel";
+import OverviewCalendar, {
+  type OverviewSpan,
+} from "./_components/OverviewCalendar";
+import StatsPanel from "./_components/StatsPanel";
+import NameInput from "./_components/NameInput";
+import PeopleDirectoryDialog from "./_components/PeopleDirectoryDialog";
+import PrintDialog from "./_components/PrintDialog";
+import PrintReport, {
+  defaultReportOptions,
+  loadReportOptions,
+  saveReportOptions,
+  type ReportOptions,
+} from "./_components/PrintReport";
+import TrackBar from "./_components/TrackBar";
+import UndoToast from "./_components/UndoToast";
+import WorkWeekDialog from "./_components/WorkWeekDialog";
+import WorkspaceBar from "./_components/WorkspaceBar";
 
 /** ============ Helpers ============ */
-const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
-const toISO = (d: Date) =>
-  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
-const fromISO = (iso: string) => {
-  const [y, m, d] = iso.split("-").map(Number);
-  return new Date(y, m - 1, d);
-};
-const addDays = (iso: string, n: number) => {
-  const d = fromISO(iso);
-  d.setDate(d.getDate() + n);
-  return toISO(d);
-};
-const isNextDay = (a: string, b: string) => addDays(a, 1) === b;
-
-const formatDate = (iso: string, fmt: DateFormat) => {
-  const d = fromISO(iso);
-  if (fmt === "MM/DD") return `${pad(d.getMonth() + 1)}/${pad(d.getDate())}`;
-  return `${d.getFullYear()}.${pad(d.getMonth() + 1)}.${pad(d.getDate())}`;
-};
-
 const classNames = (...xs: (string | false | undefined)[]) =>
   xs.filter(Boolean).join(" ");
 
 const uniqueSorted = <T,>(arr: T[]) => Array.from(new Set(arr));
 
-/** ============ Holidays (KR) ============ */
-const hdKR = new Holidays("KR");
-
-function isKoreanHolidayISO(iso: string): boolean {
-  const d = fromISO(iso);
-  return !!hdKR.isHoliday(d);
-}
-function isRedDay(iso: string): boolean {
-  const d = fromISO(iso);
-  return d.getDay() === 0 || isKoreanHolidayISO(iso); // 일요일 또는 공휴일
-}
-
-/** a 다음날~b 전날이 모두 '토/일/공휴일'이면 true */
-function areAllWeekendOrHolidayBetween(aISO: string, bISO: string): boolean {
-  let cur = addDays(aISO, 1);
-  while (cur < bISO) {
-    const d = fromISO(cur);
-    const isSat = d.getDay() === 6;
-    const isSun = d.getDay() === 0;
-    const isHoliday = isKoreanHolidayISO(cur);
-    if (!(isSat || isSun || isHoliday)) return false;
-    cur = addDays(cur, 1);
-  }
-  return true;
-}
-
-/** ============ Calendar Matrix ============ */
-function buildCalendarMatrix(year: number, monthIndex: number) {
-  const first = new Date(year, monthIndex, 1);
-  const start = new Date(first);
-  start.setDate(first.getDate() - first.getDay()); // Sun-first
-  const matrix: string[][] = [];
-  const cursor = new Date(start);
-  for (let w = 0; w < 6; w++) {
-    const row: string[] = [];
-    for (let d = 0; d < 7; d++) {
-      row.push(toISO(cursor));
-      cursor.setDate(cursor.getDate() + 1);
-    }
-    matrix.push(row);
-  }
-  return matrix;
-}
-
-/** ============ Segment Builder ============ */
-/** 주어진 정렬된 날짜 배열 + 모드 + 포맷 → 세그먼트 문자열 반환 */
-function buildFormattedPeriodsFromDates(
-  dates: string[],
-  mode: MergeMode,
-  fmt: DateFormat
-): string {
-  if (!dates.length) return "";
-  // 모드별 세그먼트 생성
-  const segments: [string, string][] = [];
-  if (mode === "ALL") {
-    segments.push([dates[0], dates[dates.length - 1]]);
-  } else {
-    let start = dates[0];
-    let prev = dates[0];
-    for (let i = 1; i < dates.length; i++) {
-      const cur = dates[i];
-      const connect =
-        isNextDay(prev, cur) ||
-        (mode === "RED" && areAllWeekendOrHolidayBetween(prev, cur));
-      if (connect) prev = cur;
-      else {
-        segments.push([start, prev]);
-        start = prev = cur;
-      }
-    }
-    segments.push([start, prev]);
-  }
-  // 포맷팅
-  return segments
-    .map(([s, e]) =>
-      s === e
-        ? formatDate(s, fmt)
-        : `${formatDate(s, fmt)}~${formatDate(e, fmt)}`
-    )
-    .join(", ");
-}
-
-/** ============ Aggregation ============ */
-/**
- * - mergeMode: 전역 공백일 모드(KEEP/RED/ALL)
- * - days: 실제 선택한 날짜 개수
- * - datesKey: 정렬된 ISO join (rowSpan 병합 기준)
- */
-function aggregateByPerson(
-  entries: Entry[],
-  fmt: DateFormat,
-  mergeMode: MergeMode
-) {
-  // name -> sorted unique ISO dates
-  const m = new Map<string, string[]>();
-  for (const e of entries) {
-    for (const nm of e.names) {
-      if (!nm) continue;
-      const arr = m.get(nm) ?? [];
-      arr.push(e.date);
-      m.set(nm, arr);
-    }
-  }
-  for (const [k, arr] of m) {
-    arr.sort();
-    m.set(k, uniqueSorted(arr));
-  }
-
-  type Row = {
-    name: string;
-    periods: string;
-    days: number; // 선택된 날짜 수
-    datesKey: string; // sorted ISO joined by ','
-  };
-
-  const out: Row[] = [];
-  for (const [name, dates] of m) {
-    if (dates.length === 0) continue;
-    out.push({
-      name,
-      periods: buildFormattedPeriodsFromDates(dates, mergeMode, fmt),
-      days: dates.length,
-      datesKey: dates.join(","),
-    });
-  }
-  out.sort((a, b) => a.name.localeCompare(b.name, "ko"));
-  return out;
-}
+const MERGE_MODE_LABELS: Record<MergeMode, string> = {
+  KEEP: "공백일 적용",
+  RED: "토·일/공휴일 제거",
+  ALL: "모든 공백일 제거",
+};
 
 /** ============ Component ============ */
 export default function AttendancePlanner() {
@@ -175,37 +170,598 @@ export default function AttendancePlanner() {
   // 날짜 선택(개별 토글)
   const [selectedDates, setSelectedDates] = useState<string[]>([]);
 
-  // 입력 데이터
-  const [entries, setEntries] = useState<Entry[]>([]);
+  // 입력 데이터: 트랙(현장·점검 종류)별 명단, 편집은 현재 트랙에만
+  const [tracks, setTracks] = useState<Track[]>(() => [defaultTrack()]);
+  const [activeTrackId, setActiveTrackId] = useState(DEFAULT_TRACK_ID);
+  const activeTrack = tracks.find((t) => t.id === activeTrackId) ?? tracks[0];
+  const entries = activeTrack.entries;
+  /** 현재 트랙의 명단 바꾸기 (useState setter와 같은 사용법) */
+  const setEntries = useCallback(
+    (next: Entry[] | ((prev: Entry[]) => Entry[])) =>
+      setTracks((ts) =>
+        ts.map((t) =>
+          t.id === activeTrack.id
+            ? {
+                ...t,
+                entries: typeof next === "function" ? next(t.entries) : next,
+              }
+            : t
+        )
+      ),
+    [activeTrack.id]
+  );
+  // 모든 트랙을 합친 명단 (합산 집계, 날짜 해제 확인용)
+  const allEntries = useMemo(() => combinedEntries(tracks), [tracks]);
   const [tempInputs, setTempInputs] = useState<Record<string, string>>({});
 
   // 옵션 (전역)
-  const [fmt, setFmt] = useState<DateFormat>("YYYY.MM.DD");
+  const [fmt, setFmt] = useState<DateFormat>(defaultDateFormat);
   const [mergeMode, setMergeMode] = useState<MergeMode>("KEEP");
 
-  // 개별 표(행) 오버라이드: key=datesKey → MergeMode
-  const [rowOverride, setRowOverride] = useState<
-    Record<string, MergeMode | "GLOBAL">
-  >({});
+  // 공휴일 달력 (국가/지역 + 대체공휴일 + 회사 휴무일 − 근무일 지정)
+  const [holidays, setHolidays] = useState<HolidaySettings>(
+    defaultHolidaySettings
+  );
+  const holidayCal = useMemo(() => createHolidayCalendar(holidays), [holidays]);
+  const [showHolidaySettings, setShowHolidaySettings] = useState(false);
+
+  // 근무 요일 (전체 / 개인별) + 달력 시작 요일
+  const [workWeek, setWorkWeek] = useState<WorkWeek>(defaultWorkWeek);
+  const [showWorkWeekSettings, setShowWorkWeekSettings] = useState(false);
+
+  // 개인별 공백일 오버라이드: key=이름 → MergeMode (날짜가 바뀌어도 유지)
+  const [personOverride, setPersonOverride] = useState<PersonOverride>({});
+
+  // 인원 명부 (이름·사번·부서·역할)
+  const [people, setPeople] = useState<Person[]>([]);
+  const [showPeople, setShowPeople] = useState(false);
+
+  // 검증 규칙 (인원 수, 필수 역할, 연속 참여, 휴일 참여, 참여 불가일)
+  const [rules, setRules] = useState<RosterRules>(defaultRosterRules);
+  const [showRules, setShowRules] = useState(false);
+
+  // 자동 배정 대화상자
+  const [showAutoSchedule, setShowAutoSchedule] = useState(false);
+  // 날짜별 이름 입력 경고 (동명이인 선택 필요 / 명부에 없는 이름)
+  const [nameIssues, setNameIssues] = useState<Record<string, NameIssue[]>>({});
 
   // 이름 클릭 하이라이트
   const [highlightPerson, setHighlightPerson] = useState<string | null>(null);
 
-  // 삭제 확인 모달 (날짜 해제)
+  // 삭제 확인 모달 (날짜 해제, 여러 날짜 한 번에)
   const [confirm, setConfirm] = useState<{
     open: boolean;
-    date: string | null;
+    dates: string[];
   }>({
     open: false,
-    date: null,
+    dates: [],
   });
 
-  const matrix = useMemo(() => buildCalendarMatrix(year, month), [year, month]);
+  // 드래그 선택: anchor~current 범위를 선택(select=true) 또는 해제
+  const [drag, setDrag] = useState<{
+    anchor: string;
+    current: string;
+    select: boolean;
+  } | null>(null);
+  // Shift+클릭 범위 선택의 기준 날짜
+  const [lastAnchor, setLastAnchor] = useState<string | null>(null);
+  // 빠른 선택: 매주 특정 요일
+  const [quickWeekday, setQuickWeekday] = useState(1);
+
+  const matrix = useMemo(
+    () => buildCalendarMatrix(year, month, workWeek.weekStart),
+    [year, month, workWeek.weekStart]
+  );
   const monthLabel = useMemo(() => `${year}.${pad(month + 1)}`, [year, month]);
 
+  // 여러 달 보기 (null = 한 달 상세 달력만)
+  const [overviewSpan, setOverviewSpan] = useState<OverviewSpan | null>(null);
+  // 1년 보기는 1월부터, 3·6개월 보기는 현재 달부터
+  const overviewStart = overviewSpan === 12 ? 0 : month;
+
+  /** 달 이동 (여러 달 보기에서는 보이는 달 수만큼) */
+  function shiftMonth(delta: number) {
+    const d = new Date(year, month + delta, 1);
+    setYear(d.getFullYear());
+    setMonth(d.getMonth());
+  }
+
   // 초기화 확인 모달
   const [showResetConfirm, setShowResetConfirm] = useState(false);
 
+  // 명단 가져오기 대화상자
+  const [showImport, setShowImport] = useState(false);
+
+  /** ============ 작업공간 (자동 저장) ============ */
+  const [workspaces, setWorkspaces] = useState<WorkspaceIndex>({
+    activeId: null,
+    items: [],
+  });
+  // 저장된 상태를 불러오기 전에는 자동 저장하지 않음 (빈 상태로 덮어쓰기 방지)
+  const [hydrated, setHydrated] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const activeMeta = workspaces.items.find((x) => x.id === workspaces.activeId);
+  // 내보내기 파일 이름
+  const workspaceName = activeMeta?.name ?? "점검참여자";
+
+  // 공유 링크/파일: 읽기 전용 보기 중이면 공유받은 이름 (작업공간에 저장하지 않음)
+  const [sharedView, setSharedView] = useState<string | null>(null);
+  const readOnly = sharedView !== null;
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [showShare, setShowShare] = useState(false);
+  // 되돌리기 기록 (작업공간별로 저장)
+  const [history, setHistory] = useState<History>(emptyHistory);
+  const prevSnapshotRef = useRef<RosterSnapshot | null>(null);
+  // 불러오기/되돌리기로 적용한 상태: 이 상태로 바뀐 것은 새 기록으로 남기지 않음
+  const restoredRef = useRef<RosterSnapshot | null>(null);
+
+  /**
+   * 불러온 상태 반영 (되돌리기 기록에 남기지 않음)
+   * - remote: 공동 편집으로 받은 상태 → 입력 중인 칸과 강조는 그대로 둠
+   */
+  function applyState(s: PlannerState, remote = false) {
+    restoredRef.current = {
+      tracks: s.tracks,
+      selectedDates: s.selectedDates,
+      personOverride: s.personOverride,
+    };
+    setTracks(s.tracks);
+    setActiveTrackId(s.activeTrackId);
+    setSelectedDates(s.selectedDates);
+    setPersonOverride(s.personOverride);
+    setFmt(s.fmt);
+    setMergeMode(s.mergeMode);
+    setHolidays(s.holidays);
+    setWorkWeek(s.workWeek);
+    setPeople(s.people);
+    setRules(s.rules);
+    if (remote) return;
+    setTempInputs({});
+    setNameIssues({});
+    setHighlightPerson(null);
+  }
+
+  useEffect(() => {
+    const index = ensureWorkspaceIndex();
+    setWorkspaces(index);
+    if (index.activeId) {
+      applyState(loadWorkspace(index.activeId));
+      setHistory(loadHistory(index.activeId));
+    }
+    setHydrated(true);
+
+    // 공유 링크로 열린 경우 (#share=view.… / #share=edit.…)
+    const hash = window.location.hash;
+    if (!hash.startsWith(SHARE_HASH_PREFIX)) return;
+    readShareHash(hash).then((r) => {
+      // 새로고침 시 다시 가져오지 않도록 해시 제거
+      window.history.replaceState(null, "", window.location.pathname);
+      if ("error" in r) setShareError(r.error);
+      else if (r.mode === "edit") {
+        // 편집 가능 링크: 받은 명단을 새 작업공간으로 저장
+        setWorkspaces(createWorkspace(r.name, r.state));
+        applyState(r.state);
+        setHistory(emptyHistory());
+      } else {
+        applyState(r.state);
+        setHistory(emptyHistory());
+        setSharedView(r.name);
+      }
+    });
+  }, []);
+
+  // 저장 대상 상태 스냅샷
+  const plannerState = useMemo<PlannerState>(
+    () => ({
+      tracks,
+      activeTrackId,
+      selectedDates,
+      personOverride,
+      fmt,
+      mergeMode,
+      holidays,
+      workWeek,
+      people,
+      rules,
+    }),
+    [
+      tracks,
+      activeTrackId,
+      selectedDates,
+      personOverride,
+      fmt,
+      mergeMode,
+      holidays,
+      workWeek,
+      people,
+      rules,
+    ]
+  );
+
+  useEffect(() => {
+    if (!hydrated || !workspaces.activeId || readOnly) return;
+    const id = workspaces.activeId;
+    const t = setTimeout(() => {
+      saveWorkspace(id, plannerState);
+      saveHistory(id, history);
+      setSavedAt(Date.now());
+    }, 300);
+    return () => clearTimeout(t);
+  }, [hydrated, workspaces.activeId, plannerState, history, readOnly]);
+
+  function openWorkspace(index: WorkspaceIndex) {
+    setWorkspaces(index);
+    if (index.activeId) {
+      applyState(loadWorkspace(index.activeId));
+      setHistory(loadHistory(index.activeId));
+    } else setHistory(emptyHistory());
+    setToast(null);
+    setSharedView(null);
+    setSavedAt(null);
+    setSync({ kind: "IDLE" });
+    syncedRef.current = null;
+  }
+
+  /** 공유받은 명단을 새 작업공간으로 열기 */
+  function importSnapshot({ name, state }: SharedSnapshot) {
+    flushWorkspace();
+    openWorkspace(createWorkspace(name, state));
+    setShowShare(false);
+  }
+
+  /** 현재 작업공간을 즉시 저장 (자동 저장 대기 중인 변경 보존) */
+  function flushWorkspace(id: string | null = workspaces.activeId) {
+    if (!id || readOnly) return;
+    saveWorkspace(id, plannerState);
+    saveHistory(id, history);
+  }
+
+  function switchWorkspace(id: string) {
+    flushWorkspace();
+    openWorkspace(setActiveWorkspace(id));
+  }
+
+  /** ============ 서버 명단 (/api/rosters) ============ */
+  /**
+   * 서버와 연결한 작업공간
+   * - 열 때 서버 revision이 마지막으로 주고받은 것과 다르면 서버 명단으로 교체
+   * - 바뀐 내용은 자동 저장과 함께 서버에도 저장 (baseRevision으로 동시 저장 감지)
+   */
+  const [showServer, setShowServer] = useState(false);
+  const [sync, setSync] = useState<SyncStatus>({ kind: "IDLE" });
+  const remoteId = activeMeta?.remote?.id;
+  const remoteRevision = activeMeta?.remote?.revision;
+  const remoteRevisionRef = useRef(remoteRevision);
+  remoteRevisionRef.current = remoteRevision;
+  // 서버와 마지막으로 주고받은 상태 (같으면 다시 올리지 않음)
+  const syncedRef = useRef<string | null>(null);
+
+  // 실시간 공동 편집 (아래 "실시간 공동 편집" 참고)
+  const [collabName, setCollabName] = useState("");
+  const [collabOn, setCollabOn] = useState(false);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus>("CLOSED");
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const [peerId] = useState(newPeerId);
+  const collabRef = useRef<CollabSession | null>(null);
+  // 서버에서 snapshot을 받기 전에는 null (그 전 변경은 보내지 않음)
+  const docRef = useRef<CollabDoc | null>(null);
+  const plannerStateRef = useRef(plannerState);
+  plannerStateRef.current = plannerState;
+  const collabLive = collabOn && collabStatus === "OPEN";
+
+  function markSynced(localId: string, r: RemoteRoster, key: string) {
+    syncedRef.current = key;
+    setWorkspaces(linkWorkspace(localId, { id: r.id, revision: r.revision }));
+    setSync({ kind: "SAVED", at: Date.now() });
+  }
+
+  useEffect(() => {
+    const localId = workspaces.activeId;
+    if (!hydrated || !localId || !remoteId || readOnly) return;
+    let cancelled = false;
+    setSync({ kind: "LOADING" });
+    fetchRemoteRoster(remoteId).then((r) => {
+      if (cancelled) return;
+      if (!r.ok) {
+        setSync({ kind: "ERROR", error: r.error });
+        return;
+      }
+      if (r.data.revision !== remoteRevisionRef.current) {
+        applyState(r.data.state);
+        setHistory(emptyHistory());
+      }
+      // revision이 같으면 아직 올리지 못한 변경만 다음 저장에서 올라감
+      markSynced(localId, r.data, stateKey(r.data.state));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hydrated, workspaces.activeId, remoteId, readOnly]);
+
+  useEffect(() => {
+    const localId = workspaces.activeId;
+    if (!hydrated || !localId || !remoteId || readOnly) return;
+    if (remoteRevision === undefined || syncedRef.current === null) return;
+    if (sync.kind === "LOADING" || sync.kind === "CONFLICT") return;
+    const key = stateKey(plannerState);
+    if (key === syncedRef.current) return;
+    const t = setTimeout(() => {
+      setSync({ kind: "SAVING" });
+      saveRemoteRoster(remoteId, {
+        name: workspaceName,
+        state: plannerState,
+        // 공동 편집 중에는 모두 같은 상태로 맞춰지므로 마지막 저장이 이김
+        baseRevision: collabLive ? undefined : remoteRevision,
+      }).then((r) => {
+        if (r.ok) markSynced(localId, r.data, key);
+        else if (r.status === 409) setSync({ kind: "CONFLICT" });
+        else setSync({ kind: "ERROR", error: r.error });
+      });
+    }, 1000);
+    return () => clearTimeout(t);
+  }, [
+    hydrated,
+    workspaces.activeId,
+    remoteId,
+    remoteRevision,
+    readOnly,
+    sync.kind,
+    plannerState,
+    workspaceName,
+    collabLive,
+  ]);
+
+  /** ============ 실시간 공동 편집 (server/collab-server.mjs) ============ */
+  /**
+   * - 방 = 연결된 서버 명단 id
+   * - 로컬 변경은 문서와의 차이를 연산으로 보내고, 받은 연산은 문서에 적용한 뒤 상태로 반영
+   * - 받은 변경은 되돌리기 기록에 남기지 않음
+   */
+  useEffect(() => {
+    setCollabName(window.localStorage.getItem(COLLAB_NAME_KEY) ?? "");
+  }, []);
+
+  /** 아직 보내지 않은 로컬 변경을 문서에 반영하고 전송 */
+  function pushLocal(state: PlannerState) {
+    const session = collabRef.current;
+    const doc = docRef.current;
+    if (!session || !doc) return;
+    const ops = diffOps(doc, state, session.newTag);
+    for (const op of ops) applyOp(doc, op);
+    session.send(ops);
+  }
+
+  useEffect(() => {
+    if (!collabOn || !remoteId || readOnly) return;
+    const session = connectCollab(
+      remoteId,
+      { id: peerId, name: collabName.trim() || "이름 없음" },
+      {
+        onStatus: setCollabStatus,
+        onMessage: (msg) => {
+          if (msg.type === "presence") {
+            setPeers(msg.peers);
+            return;
+          }
+          if (msg.type === "snapshot") {
+            // 끊긴 동안의 편집(서버가 아직 받지 못한 연산)은 방 상태 위에 얹음
+            docRef.current = docFromSnapshot(msg, session.unconfirmed());
+            // 빈 방이면 내 명단으로 채우고, 아니면 방의 명단으로 맞춤
+            if (msg.fresh) pushLocal(plannerStateRef.current);
+            else
+              applyState(
+                stateFromDoc(docRef.current, plannerStateRef.current),
+                true
+              );
+            return;
+          }
+          const doc = docRef.current;
+          if (!doc) return;
+          pushLocal(plannerStateRef.current);
+          for (const op of msg.ops) applyOp(doc, op);
+          if (msg.from !== peerId || msg.ops.some((op) => op.t === "set"))
+            applyState(stateFromDoc(doc, plannerStateRef.current), true);
+        },
+      }
+    );
+    collabRef.current = session;
+    return () => {
+      session.close();
+      collabRef.current = null;
+      docRef.current = null;
+      setPeers([]);
+      setCollabStatus("CLOSED");
+    };
+  }, [collabOn, remoteId, readOnly, peerId, collabName]);
+
+  useEffect(() => {
+    pushLocal(plannerState);
+  }, [plannerState]);
+
+  // 편집 중인 날짜 알리기 (날짜별 입력 칸에 포커스)
+  const peersByDate = useMemo(() => {
+    const m = new Map<string, CollabPeer[]>();
+    for (const p of peers)
+      if (p.id !== peerId && p.date)
+        m.set(p.date, [...(m.get(p.date) ?? []), p]);
+    return m;
+  }, [peers, peerId]);
+
+  /** 동시 저장 충돌: 서버 명단 불러오기 / 내 명단으로 덮어쓰기 */
+  async function resolveConflict(keep: "SERVER" | "MINE") {
+    const localId = workspaces.activeId;
+    if (!localId || !remoteId) return;
+    setSync({ kind: "LOADING" });
+    const r =
+      keep === "SERVER"
+        ? await fetchRemoteRoster(remoteId)
+        : await saveRemoteRoster(remoteId, {
+            name: workspaceName,
+            state: plannerState,
+          });
+    if (!r.ok) {
+      setSync({ kind: "ERROR", error: r.error });
+      return;
+    }
+    if (keep === "SERVER") {
+      applyState(r.data.state);
+      setHistory(emptyHistory());
+    }
+    markSynced(
+      localId,
+      r.data,
+      stateKey(keep === "SERVER" ? r.data.state : plannerState)
+    );
+  }
+
+  /** 서버 명단 열기: 이미 연결된 작업공간이 있으면 그 작업공간으로 전환 */
+  function openRemote(r: RemoteRoster) {
+    const linked = workspaces.items.find((x) => x.remote?.id === r.id);
+    flushWorkspace();
+    if (linked) openWorkspace(setActiveWorkspace(linked.id));
+    else {
+      const index = createWorkspace(r.name, r.state);
+      openWorkspace(
+        linkWorkspace(index.activeId!, { id: r.id, revision: r.revision })
+      );
+    }
+    setShowServer(false);
+  }
+
+  /** 현재 작업공간을 서버에 새 명단으로 올리고 연결 */
+  async function uploadToServer(): Promise<string | null> {
+    const localId = workspaces.activeId;
+    if (!localId) return null;
+    const r = await createRemoteRoster(workspaceName, plannerState);
+    if (!r.ok) return r.error;
+    markSynced(localId, r.data, stateKey(plannerState));
+    return null;
+  }
+
+  /** ============ 되돌리기 / 다시 실행 ============ */
+  /** 되돌리기 대상 스냅샷: 트랙별 명단, 선택 날짜, 개인 공백일 설정 */
+  const rosterSnapshot = useMemo<RosterSnapshot>(
+    () => ({ tracks, selectedDates, personOverride }),
+    [tracks, selectedDates, personOverride]
+  );
+
+  // 스냅샷이 바뀔 때마다 바뀌기 직전 상태를 기록 (한 번의 조작 = 한 단계)
+  useEffect(() => {
+    const prev = prevSnapshotRef.current;
+    prevSnapshotRef.current = rosterSnapshot;
+    if (!prev || prev === rosterSnapshot) return;
+    const restored = restoredRef.current;
+    if (
+      restored &&
+      restored.tracks === rosterSnapshot.tracks &&
+      restored.selectedDates === rosterSnapshot.selectedDates &&
+      restored.personOverride === rosterSnapshot.personOverride
+    ) {
+      restoredRef.current = null;
+      return;
+    }
+    setHistory((h) => pushHistory(h, prev));
+    // 알림은 알린 작업의 단계에만 묶음: 그 뒤 다른 편집이 기록되면 닫음
+    setToast((t) => (t?.pending ? { ...t, pending: false } : null));
+  }, [rosterSnapshot]);
+
+  function restoreSnapshot(s: RosterSnapshot) {
+    restoredRef.current = s;
+    setTracks(s.tracks);
+    setSelectedDates(s.selectedDates);
+    setPersonOverride(s.personOverride);
+    setConfirm({ open: false, dates: [] });
+    setToast(null);
+  }
+
+  function undo() {
+    if (readOnly) return;
+    const r = undoHistory(history, rosterSnapshot);
+    if (!r) return;
+    restoreSnapshot(r.snapshot);
+    setHistory(r.history);
+  }
+
+  function redo() {
+    if (readOnly) return;
+    const r = redoHistory(history, rosterSnapshot);
+    if (!r) return;
+    restoreSnapshot(r.snapshot);
+    setHistory(r.history);
+  }
+
+  // Ctrl+Z 되돌리기 / Ctrl+Shift+Z·Ctrl+Y 다시 실행 (입력칸에서는 기본 동작 유지)
+  useEffect(() => {
+    const onKey = (ev: KeyboardEvent) => {
+      if (!(ev.ctrlKey || ev.metaKey) || ev.altKey) return;
+      const t = ev.target as HTMLElement | null;
+      if (
+        t &&
+        (t.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(t.tagName))
+      )
+        return;
+      const key = ev.key.toLowerCase();
+      if (key === "z" && !ev.shiftKey) undo();
+      else if ((key === "z" && ev.shiftKey) || key === "y") redo();
+      else return;
+      ev.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  // 삭제 등 되돌리기 어려운 작업 직후 알림 (id가 바뀌면 타이머 재시작)
+  // pending: 알린 작업이 아직 기록 전 (기록되면 false, 다음 기록에서 닫힘)
+  const [toast, setToast] = useState<{
+    id: number;
+    message: string;
+    pending: boolean;
+  } | null>(null);
+  const notifyUndo = (message: string) =>
+    setToast({ id: Date.now(), message, pending: true });
+
+  /** ============ 트랙 ============ */
+  function switchTrack(id: string) {
+    setActiveTrackId(id);
+    // 입력 중인 이름이 다른 트랙에 들어가지 않도록 비움
+    setTempInputs({});
+    setNameIssues({});
+  }
+
+  function updateTracks(next: Track[]) {
+    const removed = tracks.filter((t) => !next.some((x) => x.id === t.id));
+    setTracks(next);
+    if (removed.some((t) => t.entries.length > 0))
+      notifyUndo(`트랙 ${removed.map(trackLabel).join(", ")} 삭제됨`);
+  }
+
+  /** 날짜별 명단이 있는 트랙 (달력 색 표시) */
+  const tracksByDate = useMemo(() => {
+    const m = new Map<string, { track: Track; names: string[] }[]>();
+    for (const t of tracks) {
+      for (const e of t.entries) {
+        if (e.names.length === 0) continue;
+        m.set(e.date, [...(m.get(e.date) ?? []), { track: t, names: e.names }]);
+      }
+    }
+    return m;
+  }, [tracks]);
+
+  /** 다른 트랙에 이미 배정된 "날짜|이름" (자동 배정에서 제외) */
+  const otherTrackKeys = useMemo(
+    () =>
+      new Set(
+        tracks
+          .filter((t) => t.id !== activeTrack.id)
+          .flatMap((t) =>
+            t.entries.flatMap((e) => e.names.map((n) => `${e.date}|${n}`))
+          )
+      ),
+    [tracks, activeTrack.id]
+  );
+  const closeToast = useCallback(() => setToast(null), []);
+
   /** 사람 → 날짜세트 맵 (하이라이트 & 인원 목록용) */
   const personDatesMap = useMemo(() => {
     const map = new Map<string, Set<string>>();
@@ -226,42 +782,165 @@ export default function AttendancePlanner() {
     [personDatesMap]
   );
 
+  /** 명부: 표시 이름 → 인원 (부서/역할 표시용) */
+  const directory = useMemo(() => peopleByLabel(people), [people]);
+  const departmentOf = (name: string) => directory.get(name)?.department ?? "";
+  const roleOf = (name: string) => {
+    const role = directory.get(name)?.role;
+    return role ? ROLE_LABELS[role] : "";
+  };
+
+  /** 명단에는 있지만 명부에 없는 이름 */
+  const unregistered = useMemo(
+    () => allPeople.filter((n) => !directory.has(n)),
+    [allPeople, directory]
+  );
+
+  /** 일괄 배정 후보: 명단의 인원 + 명부의 인원 */
+  const assignablePeople = useMemo(
+    () =>
+      uniqueSorted([...allPeople, ...personLabels(people).values()]).sort(
+        (a, b) => a.localeCompare(b, "ko")
+      ),
+    [allPeople, people]
+  );
+
+  /** 명부 수정: 표시 이름이 바뀐 인원은 명단·개인 설정의 이름도 함께 바꿈 */
+  function updatePeople(next: Person[]) {
+    const renames = labelChanges(people, next);
+    setPeople(next);
+    if (renames.size === 0) return;
+    setTracks((ts) =>
+      ts.map((t) => ({ ...t, entries: renameNames(t.entries, renames) }))
+    );
+    setPersonOverride((prev) => renameKeys(prev, renames));
+    setWorkWeek((prev) => ({
+      ...prev,
+      perPerson: renameKeys(prev.perPerson, renames),
+    }));
+    setRules((prev) => ({
+      ...prev,
+      unavailable: renameKeys(prev.unavailable, renames),
+    }));
+    setHighlightPerson((cur) => (cur && renames.get(cur)) ?? cur);
+  }
+
   function toggleDate(iso: string) {
+    if (readOnly) return;
     const isSelected = selectedDates.includes(iso);
     if (isSelected) {
-      const e = entries.find((x) => x.date === iso);
-      const hasData = !!e && e.names.length > 0;
-      if (hasData) {
-        setConfirm({ open: true, date: iso });
-        return;
-      }
-      // 데이터 없으면 바로 해제
-      setSelectedDates((prev) => prev.filter((d) => d !== iso));
-      setTempInputs((p) => {
-        const { [iso]: _, ...rest } = p;
-        return rest;
-      });
+      requestUnselect([iso]);
       return;
     }
     // 새로 선택
     setSelectedDates((prev) => [...prev, iso].sort());
   }
 
+  /** 여러 날짜 선택 (이미 선택된 날짜는 유지) */
+  function selectDates(dates: string[]) {
+    setSelectedDates((prev) => uniqueSorted([...prev, ...dates]).sort());
+  }
+
+  /** 날짜 해제 요청: 입력된 이름이 있는 날짜가 하나라도 있으면 한 번만 확인 */
+  function requestUnselect(dates: string[]) {
+    const targets = dates.filter((d) => selectedDates.includes(d));
+    if (targets.length === 0) return;
+    const hasData = allEntries.some(
+      (e) => targets.includes(e.date) && e.names.length > 0
+    );
+    if (hasData) {
+      setConfirm({ open: true, dates: targets });
+      return;
+    }
+    // 데이터 없으면 바로 해제
+    unselectDates(targets);
+  }
+
+  function unselectDates(dates: string[]) {
+    const drop = new Set(dates);
+    setSelectedDates((prev) => prev.filter((d) => !drop.has(d)));
+    // 선택 날짜는 모든 트랙 공용이므로 모든 트랙에서 지움
+    setTracks((ts) =>
+      ts.map((t) => ({
+        ...t,
+        entries: t.entries.filter((e) => !drop.has(e.date)),
+      }))
+    );
+    setTempInputs((p) =>
+      Object.fromEntries(Object.entries(p).filter(([d]) => !drop.has(d)))
+    );
+  }
+
   function confirmDeleteDate() {
-    if (!confirm.date) return;
-    const date = confirm.date;
-    setSelectedDates((prev) => prev.filter((d) => d !== date));
-    setEntries((prev) => prev.filter((e) => e.date !== date));
-    setTempInputs((p) => {
-      const { [date]: _, ...rest } = p;
-      return rest;
-    });
-    setConfirm({ open: false, date: null });
+    if (confirm.dates.length === 0) return;
+    unselectDates(confirm.dates);
+    notifyUndo(
+      confirmSummary.people > 0
+        ? `${confirmSummary.people}명 삭제됨`
+        : `${confirmSummary.dates}일 선택 해제됨`
+    );
+    setConfirm({ open: false, dates: [] });
   }
   function cancelDeleteDate() {
-    setConfirm({ open: false, date: null });
+    setConfirm({ open: false, dates: [] });
+  }
+
+  /** 해제 확인 모달 요약: 날짜 수 / 삭제될 이름 수 / 인원 수 */
+  const confirmSummary = useMemo(() => {
+    const targets = new Set(confirm.dates);
+    const hit = allEntries.filter((e) => targets.has(e.date));
+    return {
+      dates: confirm.dates.length,
+      names: hit.reduce((s, e) => s + e.names.length, 0),
+      people: new Set(hit.flatMap((e) => e.names)).size,
+    };
+  }, [confirm.dates, allEntries]);
+
+  /** 드래그 중 미리보기 범위 */
+  const dragRange = useMemo(
+    () => new Set(drag ? datesBetween(drag.anchor, drag.current) : []),
+    [drag]
+  );
+
+  function onCellMouseDown(iso: string, ev: React.MouseEvent) {
+    if (ev.button !== 0 || readOnly) return;
+    ev.preventDefault(); // 드래그 중 텍스트 선택 방지
+    if (ev.shiftKey && lastAnchor) {
+      selectDates(datesBetween(lastAnchor, iso));
+      setLastAnchor(iso);
+      return;
+    }
+    setDrag({
+      anchor: iso,
+      current: iso,
+      select: !selectedDates.includes(iso),
+    });
   }
 
+  // 드래그 종료: 한 칸이면 기존 토글, 여러 칸이면 범위 선택/해제
+  useEffect(() => {
+    if (!drag) return;
+    const onUp = () => {
+      if (drag.anchor === drag.current) toggleDate(drag.anchor);
+      else {
+        const range = datesBetween(drag.anchor, drag.current);
+        if (drag.select) selectDates(range);
+        else requestUnselect(range);
+      }
+      setLastAnchor(drag.current);
+      setDrag(null);
+    };
+    window.addEventListener("mouseup", onUp);
+    return () => window.removeEventListener("mouseup", onUp);
+  });
+
+  /** 이번 달 날짜 중 조건에 맞는 날짜 */
+  const monthDates = (pred: (iso: string) => boolean) =>
+    matrix
+      .flat()
+      .filter((iso) => fromISO(iso).getMonth() === month)
+      .filter(pred);
+
   function ensureEntry(dateISO: string) {
     setEntries((prev) => {
       const idx = prev.findIndex((e) => e.date === dateISO);
@@ -273,12 +952,14 @@ export default function AttendancePlanner() {
   }
 
   function addNamesToDate(dateISO: string, raw: string) {
-    const names = uniqueSorted(
-      raw
-        .split(/[\n,、，;；\s]+/)
-        .map((s) => s.trim())
-        .filter(Boolean)
-    );
+    const { names, issues } = resolveNames(raw, people);
+    setNameIssues((p) => ({ ...p, [dateISO]: issues }));
+    // 동명이인으로 확정하지 못한 이름은 입력칸에 남겨 다시 고르게 함
+    const pending = issues
+      .filter((i) => i.kind === "AMBIGUOUS")
+      .map((i) => i.input)
+      .join(", ");
+    setTempInputs((p) => ({ ...p, [dateISO]: pending }));
     if (names.length === 0) return;
     setEntries((prev) => {
       const idx = prev.findIndex((e) => e.date === dateISO);
@@ -290,83 +971,436 @@ export default function AttendancePlanner() {
       next.sort((a, b) => a.date.localeCompare(b.date));
       return next;
     });
-    setTempInputs((p) => ({ ...p, [dateISO]: "" }));
   }
 
   function removeName(dateISO: string, name: string) {
-    setEntries((prev) => {
-      const idx = prev.findIndex((e) => e.date === dateISO);
-      if (idx === -1) return prev;
-      const left = prev[idx].names.filter((n) => n !== name);
-      const next = [...prev];
-      next[idx] = { ...prev[idx], names: left };
-      return next;
-    });
+    setEntries((prev) => removeNamesFromDates(prev, [dateISO], [name]));
+    notifyUndo(`${name} 삭제됨 (${formatDate(dateISO, fmt)})`);
   }
 
+  /** 일괄 배정: 여러 인원을 여러 날짜에 한 번에 추가/제거 */
+  function bulkAssign(
+    names: string[],
+    dates: string[],
+    action: "add" | "remove"
+  ) {
+    // 직접 입력한 이름도 명부 표시 이름으로 맞춤 (동명이인은 제외)
+    const resolved = resolveNames(names.join(","), people).names;
+    if (resolved.length === 0) return;
+    if (action === "add") {
+      setEntries((prev) => addNamesToDates(prev, dates, resolved));
+      // 기간으로 지정한 날짜도 달력에서 선택 상태로
+      selectDates(dates);
+    } else {
+      setEntries((prev) => removeNamesFromDates(prev, dates, resolved));
+      notifyUndo(`${resolved.length}명 × ${dates.length}일 삭제됨`);
+    }
+  }
+
+  /** 근무일 여부 (근무 요일이고 공휴일이 아닌 날) */
+  const isWorkday = useCallback(
+    (iso: string) =>
+      workWeek.weekdays.includes(fromISO(iso).getDay()) &&
+      !holidayCal.isHoliday(iso),
+    [workWeek.weekdays, holidayCal]
+  );
+
+  /** 자동 배정: 개인 근무 요일이 지정된 인원은 그 요일에만, 다른 트랙과 겹치지 않게 배정 */
+  const isAvailable = useCallback(
+    (name: string, iso: string) =>
+      (workWeek.perPerson[name]?.includes(fromISO(iso).getDay()) ?? true) &&
+      !otherTrackKeys.has(`${iso}|${name}`),
+    [workWeek.perPerson, otherTrackKeys]
+  );
+
+  /** 자동 배정 결과 적용: 해당 날짜 명단 대체 또는 기존 명단에 추가 */
+  function applySchedule(proposed: Entry[], mode: "merge" | "replace") {
+    const dates = new Set(proposed.map((e) => e.date));
+    setEntries((prev) =>
+      mergeEntries(
+        mode === "replace" ? prev.filter((e) => !dates.has(e.date)) : prev,
+        proposed
+      )
+    );
+    selectDates(Array.from(dates));
+    setShowAutoSchedule(false);
+    notifyUndo(`자동 배정 적용됨 (${dates.size}일)`);
+  }
+
+  /** 가져온 명단 적용: 병합(날짜별 이름 합침) 또는 대체 (이름은 가져오기 창에서 명부 기준으로 맞춤) */
+  function applyImport(imported: Entry[], mode: "merge" | "replace") {
+    const dates = imported.map((e) => e.date);
+    if (mode === "merge") {
+      setEntries((prev) => mergeEntries(prev, imported));
+      setSelectedDates((prev) => uniqueSorted([...prev, ...dates]).sort());
+    } else {
+      setEntries(mergeEntries([], imported));
+      setSelectedDates(uniqueSorted(dates).sort());
+      setTempInputs({});
+      notifyUndo("기존 명단을 가져온 명단으로 대체함");
+    }
+    setShowImport(false);
+  }
+
+  // 집계 범위: 현재 트랙만 / 모든 트랙 합산
+  const [aggScope, setAggScope] = useState<"TRACK" | "ALL">("TRACK");
+  const reportEntries = aggScope === "ALL" ? allEntries : entries;
+
   // 집계 (전역 옵션 적용)
   const byPerson = useMemo(
-    () => aggregateByPerson(entries, fmt, mergeMode),
-    [entries, fmt, mergeMode]
+    () =>
+      aggregateByPerson(reportEntries, {
+        fmt,
+        mergeMode,
+        calendar: holidayCal,
+        workWeek,
+        personOverride,
+      }),
+    [reportEntries, fmt, mergeMode, holidayCal, workWeek, personOverride]
   );
 
-  /** 동일 날짜세트 + days 기준 rowSpan 병합 */
-  const groupedForRowSpan = useMemo(() => {
-    const groups: Record<
-      string,
-      { name: string; periods: string; days: number; datesKey: string }[]
-    > = {};
-    for (const r of byPerson) {
-      const key = `${r.datesKey}|${r.days}`;
-      (groups[key] ??= []).push(r);
-    }
-    for (const k of Object.keys(groups)) {
-      groups[k].sort((a, b) => a.name.localeCompare(b.name, "ko"));
+  // 자동 생성 표의 부서 표시: 숨김 / 이름 옆에 표시 / 부서별로 묶기
+  const [deptView, setDeptView] = useState<"HIDE" | "SHOW" | "GROUP">("HIDE");
+
+  /** 자동 생성 표 그룹 (rowSpan 병합, 부서별 묶기 반영) — 화면 표/엑셀/인쇄 공용 */
+  const tableGroups = useMemo(
+    () =>
+      groupRows(
+        byPerson,
+        deptView === "GROUP"
+          ? (name) => directory.get(name)?.department ?? ""
+          : undefined
+      ),
+    [byPerson, deptView, directory]
+  );
+
+  /** 개인 공백일 설정 (GLOBAL = 개인 설정 삭제) */
+  function setOverrideFor(names: string[], mode: MergeMode | "GLOBAL") {
+    setPersonOverride((prev) => {
+      const next = { ...prev };
+      for (const n of names) {
+        if (mode === "GLOBAL") delete next[n];
+        else next[n] = mode;
+      }
+      return next;
+    });
+  }
+
+  /** 복사 패널용 그룹 (이름 묶음 + 기간 + 일수) */
+  const outputGroups = useMemo(
+    () =>
+      tableGroups.map((g) => ({
+        names: g.rows.map((r) => r.name),
+        periods: g.periods,
+        days: g.days,
+      })),
+    [tableGroups]
+  );
+
+  // 엑셀 내보내기 옵션: 날짜별 인원 시트 포함 여부
+  const [xlsxIncludeRaw, setXlsxIncludeRaw] = useState(true);
+
+  async function exportXlsx() {
+    const blob = await buildXlsx({
+      groups: tableGroups.map((g) => ({
+        names: g.rows.map((r) => r.name),
+        periodInline: g.periodInline,
+      })),
+      rawRows: xlsxIncludeRaw
+        ? reportEntries.map((e) => ({
+            date: formatDate(e.date, fmt),
+            names: e.names.map((n) =>
+              e.slots?.[n] ? `${n}(${slotLabel(e.slots[n])})` : n
+            ),
+          }))
+        : undefined,
+    });
+    downloadBlob(blob, `${safeFilename(workspaceName)}.xlsx`);
+  }
+
+  /** 인쇄 / PDF 보고서: 설정을 반영한 뒤 인쇄 창 열기 */
+  const [showPrint, setShowPrint] = useState(false);
+  const [reportOptions, setReportOptions] =
+    useState<ReportOptions>(defaultReportOptions);
+  const [printRequest, setPrintRequest] = useState(0);
+  useEffect(() => {
+    setReportOptions(loadReportOptions());
+  }, []);
+  useEffect(() => {
+    if (printRequest > 0) window.print();
+  }, [printRequest]);
+
+  /** 캘린더(ICS) 내보내기: 집계 행의 연속 구간을 그대로 일정으로 */
+  const [showIcs, setShowIcs] = useState(false);
+  const icsPeople = useMemo(
+    () =>
+      byPerson.map((r) => ({
+        name: r.name,
+        dates: r.dates,
+        slots: r.slots,
+        segments: r.segments,
+        department: directory.get(r.name)?.department,
+      })),
+    [byPerson, directory]
+  );
+
+  /** 검증 결과 (규칙 위반) */
+  const violations = useMemo(
+    () =>
+      [
+        ...validateRoster(entries, selectedDates, rules, {
+          cal: holidayCal,
+          directory,
+        }),
+        ...doubleBookingViolations(tracks, activeTrack.id),
+      ].sort((a, b) => a.date.localeCompare(b.date)),
+    [entries, selectedDates, rules, holidayCal, directory, tracks, activeTrack]
+  );
+  const violationMap = useMemo(
+    () => violationsByDate(violations),
+    [violations]
+  );
+
+  /** 위반 목록에서 날짜 클릭: 해당 월 상세 달력으로 이동 */
+  function jumpToDate(iso: string) {
+    const d = fromISO(iso);
+    setYear(d.getFullYear());
+    setMonth(d.getMonth());
+    setOverviewSpan(null);
+  }
+
+  /** 날짜별 인원 수 (여러 달 보기 히트맵) */
+  const countsByDate = useMemo(
+    () => new Map(entries.map((e) => [e.date, e.names.length])),
+    [entries]
+  );
+
+  /** 점검 참여인원 목록의 트랙 필터: 현재 트랙 / 전체 / 특정 트랙 */
+  const [listTrack, setListTrack] = useState("ACTIVE");
+  const listPersonDates = useMemo(() => {
+    const list =
+      listTrack === "ALL"
+        ? allEntries
+        : tracks.find((t) => t.id === listTrack)?.entries ?? entries;
+    const map = new Map<string, Set<string>>();
+    for (const e of list) {
+      for (const n of e.names)
+        map.set(n, (map.get(n) ?? new Set()).add(e.date));
     }
-    return groups;
-  }, [byPerson]);
+    return map;
+  }, [listTrack, allEntries, tracks, entries]);
+  const listPeople = useMemo(
+    () =>
+      Array.from(listPersonDates.keys()).sort((a, b) =>
+        a.localeCompare(b, "ko")
+      ),
+    [listPersonDates]
+  );
 
   /** 하이라이트 날짜 집합 */
   const highlightedDates = useMemo(() => {
     if (!highlightPerson) return new Set<string>();
-    const set = personDatesMap.get(highlightPerson);
+    const set = listPersonDates.get(highlightPerson);
     return set ? new Set(set) : new Set<string>();
-  }, [highlightPerson, personDatesMap]);
+  }, [highlightPerson, listPersonDates]);
 
   return (
-    <div className="mx-auto max-w-6xl p-4 space-y-6">
-      <h1 className="text-2xl font-bold">점검 참여자 집계 도구</h1>
+    <div className="mx-auto max-w-6xl p-4 space-y-6 print:hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h1 className="text-2xl font-bold">점검 참여자 집계 도구</h1>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+            disabled={readOnly || history.past.length === 0}
+            onClick={undo}
+            title="되돌리기 (Ctrl+Z)"
+          >
+            ↶ 되돌리기
+          </button>
+          <button
+            className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+            disabled={readOnly || history.future.length === 0}
+            onClick={redo}
+            title="다시 실행 (Ctrl+Shift+Z)"
+          >
+            ↷ 다시 실행
+          </button>
+        </div>
+      </div>
+      <WorkspaceBar
+        items={workspaces.items}
+        activeId={workspaces.activeId}
+        savedAt={savedAt}
+        remoteSync={remoteId ? sync : null}
+        onOpenServer={() => setShowServer(true)}
+        onSwitch={switchWorkspace}
+        onCreate={(name) => {
+          flushWorkspace();
+          openWorkspace(createWorkspace(name));
+        }}
+        onDuplicate={(id) => {
+          flushWorkspace(id);
+          openWorkspace(duplicateWorkspace(id));
+        }}
+        onRename={(id, name) => setWorkspaces(renameWorkspace(id, name))}
+        onDelete={(id) => openWorkspace(deleteWorkspace(id))}
+      />
+      {remoteId && !readOnly && (
+        <CollabBar
+          on={collabOn}
+          status={collabStatus}
+          peers={peers}
+          selfId={peerId}
+          name={collabName}
+          fmt={fmt}
+          onNameChange={setCollabName}
+          onToggle={(on) => {
+            if (on)
+              window.localStorage.setItem(COLLAB_NAME_KEY, collabName.trim());
+            setCollabOn(on);
+          }}
+        />
+      )}
+      {remoteId && sync.kind === "CONFLICT" && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          <div>
+            다른 곳에서 서버 명단을 먼저 저장해 이 작업공간의 변경을 서버에
+            저장하지 못했습니다. 어느 쪽을 남길지 고르세요.
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="rounded-xl border bg-white px-3 py-1 hover:bg-gray-50"
+              onClick={() => resolveConflict("SERVER")}
+            >
+              서버 명단 불러오기
+            </button>
+            <button
+              className="rounded-xl border bg-white px-3 py-1 hover:bg-gray-50"
+              onClick={() => resolveConflict("MINE")}
+            >
+              내 명단으로 덮어쓰기
+            </button>
+          </div>
+        </div>
+      )}
+      {shareError && (
+        <div className="flex items-start justify-between gap-2 rounded-2xl border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          <div className="whitespace-pre-line">
+            공유 링크를 열 수 없습니다: {shareError}
+          </div>
+          <button onClick={() => setShareError(null)} title="닫기">
+            ×
+          </button>
+        </div>
+      )}
+      {sharedView !== null && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-blue-300 bg-blue-50 p-3 text-sm">
+          <div>
+            공유받은 명단 <b>{sharedView}</b>을(를) 읽기 전용으로 보고 있습니다.
+            변경 내용은 저장되지 않습니다.
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="rounded-xl border bg-white px-3 py-1 hover:bg-gray-50"
+              onClick={() =>
+                importSnapshot({ name: sharedView, state: plannerState })
+              }
+            >
+              내 작업공간으로 복사
+            </button>
+            <button
+              className="rounded-xl border bg-white px-3 py-1 hover:bg-gray-50"
+              onClick={() => openWorkspace(ensureWorkspaceIndex())}
+            >
+              닫기
+            </button>
+          </div>
+        </div>
+      )}
+      {/* 여러 달 보기 */}
+      {overviewSpan && (
+        <div className="border rounded-2xl p-3 shadow-sm">
+          <div className="flex items-center justify-between mb-2">
+            <button
+              className="px-3 py-1 rounded-xl border"
+              onClick={() => shiftMonth(-overviewSpan)}
+            >
+              ←
+            </button>
+            <div className="font-semibold">
+              {overviewSpan === 12
+                ? `${year}년`
+                : `${monthLabel} 부터 ${overviewSpan}개월`}
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                색이 진할수록 인원이 많음 · 날짜를 누르면 해당 월로 이동
+              </span>
+            </div>
+            <button
+              className="px-3 py-1 rounded-xl border"
+              onClick={() => shiftMonth(overviewSpan)}
+            >
+              →
+            </button>
+          </div>
+          <OverviewCalendar
+            startYear={year}
+            startMonth={overviewStart}
+            span={overviewSpan}
+            weekStart={workWeek.weekStart}
+            counts={countsByDate}
+            selected={new Set(selectedDates)}
+            highlighted={highlightedDates}
+            holidayCal={holidayCal}
+            onPickDay={jumpToDate}
+          />
+        </div>
+      )}
+      <TrackBar
+        tracks={tracks}
+        activeId={activeTrack.id}
+        readOnly={readOnly}
+        onSwitch={switchTrack}
+        onChange={updateTracks}
+      />
       <div className="grid md:grid-cols-3 gap-4">
         {/* Calendar */}
         <div className="border rounded-2xl p-3 shadow-sm">
           <div className="flex items-center justify-between mb-2">
             <button
               className="px-3 py-1 rounded-xl border"
-              onClick={() => {
-                const d = new Date(year, month - 1, 1);
-                setYear(d.getFullYear());
-                setMonth(d.getMonth());
-              }}
+              onClick={() => shiftMonth(-1)}
             >
               ←
             </button>
-            <div className="font-semibold">{monthLabel}</div>
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">{monthLabel}</span>
+              <select
+                className="border rounded-md px-1 py-0.5 text-xs"
+                value={overviewSpan ?? 1}
+                onChange={(e) => {
+                  const v = Number(e.target.value);
+                  setOverviewSpan(v === 1 ? null : (v as OverviewSpan));
+                }}
+                title="여러 달 한눈에 보기"
+              >
+                <option value={1}>1개월</option>
+                <option value={3}>3개월</option>
+                <option value={6}>6개월</option>
+                <option value={12}>1년</option>
+              </select>
+            </div>
             <button
               className="px-3 py-1 rounded-xl border"
-              onClick={() => {
-                const d = new Date(year, month + 1, 1);
-                setYear(d.getFullYear());
-                setMonth(d.getMonth());
-              }}
+              onClick={() => shiftMonth(1)}
             >
               →
             </button>
           </div>
 
           <div className="grid grid-cols-7 text-center text-sm">
-            {["일", "월", "화", "수", "목", "금", "토"].map((w) => (
+            {orderedWeekdays(workWeek.weekStart).map((w) => (
               <div key={w} className="py-1 font-medium">
-                {w}
+                {WEEKDAY_LABELS[w]}
               </div>
             ))}
 
@@ -375,14 +1409,24 @@ export default function AttendancePlanner() {
               const isCurrentMonth = d.getMonth() === month;
               const selected = selectedDates.includes(iso);
               const hasNames = entries.find((e) => e.date === iso);
-              const isSundayOrHoliday = isRedDay(iso);
+              const isSundayOrHoliday = isRedDay(iso, holidayCal);
               const isSaturday = d.getDay() === 6;
               const isHL = highlightedDates.has(iso);
+              const problems = violationMap.get(iso);
+              const dayTracks = tracksByDate.get(iso) ?? [];
+              const editors = peersByDate.get(iso) ?? [];
 
               return (
                 <button
                   key={iso}
-                  onClick={() => toggleDate(iso)}
+                  onMouseDown={(ev) => onCellMouseDown(iso, ev)}
+                  onMouseEnter={() =>
+                    setDrag((cur) => cur && { ...cur, current: iso })
+                  }
+                  onClick={(ev) => {
+                    // 키보드(Enter/Space)로 누른 경우만 처리 (마우스는 mousedown/mouseup에서 처리)
+                    if (ev.detail === 0) toggleDate(iso);
+                  }}
                   className={classNames(
                     "border-gray-600 relative h-16 border flex flex-col items-center justify-start p-1 hover:bg-blue-200",
                     isHL
@@ -392,10 +1436,37 @@ export default function AttendancePlanner() {
                     selected &&
                       " ring-1 ring-blue-700 border-1 border-blue-600 bg-blue-100 z-10",
                     hasNames && !selected && "bg-blue-100",
-                    isHL && !selected && "bg-blue-300"
+                    isHL && !selected && "bg-blue-300",
+                    dragRange.has(iso) &&
+                      (drag?.select
+                        ? "ring-2 ring-blue-500 z-20"
+                        : "ring-2 ring-red-400 z-20")
                   )}
-                  title={iso}
+                  title={[
+                    holidayCal.holidayName(iso)
+                      ? `${iso} ${holidayCal.holidayName(iso)}`
+                      : iso,
+                    ...(tracks.length > 1
+                      ? dayTracks.map(
+                          (x) => `${trackLabel(x.track)}: ${x.names.join(", ")}`
+                        )
+                      : []),
+                    ...(problems ?? []).map((v) => `⚠ ${v.message}`),
+                    ...editors.map((p) => `✎ ${p.name} 편집 중`),
+                  ].join("\n")}
                 >
+                  {/* 공동 편집: 다른 사람이 편집 중인 날짜 */}
+                  {editors.length > 0 && (
+                    <span className="absolute left-0.5 top-0 rounded bg-amber-200 px-0.5 text-[9px] leading-tight">
+                      ✎{editors[0].name.slice(0, 2)}
+                      {editors.length > 1 && `+${editors.length - 1}`}
+                    </span>
+                  )}
+                  {problems && (
+                    <span className="absolute right-0.5 top-0 text-[10px] text-amber-600">
+                      ⚠
+                    </span>
+                  )}
                   <div
                     className={classNames(
                       "text-xs",
@@ -410,11 +1481,73 @@ export default function AttendancePlanner() {
                   <div className="text-[10px] line-clamp-2 leading-tight">
                     {hasNames?.names.join(", ")}
                   </div>
+                  {/* 트랙이 여럿이면 명단이 있는 트랙 색 표시 */}
+                  {tracks.length > 1 && dayTracks.length > 0 && (
+                    <span className="absolute bottom-0.5 left-0.5 flex gap-0.5">
+                      {dayTracks.map((x) => (
+                        <span
+                          key={x.track.id}
+                          className={classNames(
+                            "h-1.5 w-1.5 rounded-full",
+                            TRACK_COLOR_CLASSES[x.track.color].dot
+                          )}
+                        />
+                      ))}
+                    </span>
+                  )}
                 </button>
               );
             })}
           </div>
 
+          {/* 빠른 선택 */}
+          <fieldset
+            disabled={readOnly}
+            className="mt-3 flex flex-wrap items-center gap-2 text-xs"
+          >
+            <button
+              className="rounded-xl border px-2 py-1 hover:bg-gray-50"
+              onClick={() => selectDates(monthDates(isWorkday))}
+              title="근무 요일 중 공휴일이 아닌 날을 모두 선택"
+            >
+              이 달 평일 모두 선택
+            </button>
+            <span className="flex items-center gap-1">
+              <span>매주</span>
+              <select
+                className="border rounded-md px-1 py-1"
+                value={quickWeekday}
+                onChange={(e) => setQuickWeekday(Number(e.target.value))}
+              >
+                {orderedWeekdays(workWeek.weekStart).map((w) => (
+                  <option key={w} value={w}>
+                    {WEEKDAY_LABELS[w]}요일
+                  </option>
+                ))}
+              </select>
+              <button
+                className="rounded-xl border px-2 py-1 hover:bg-gray-50"
+                onClick={() =>
+                  selectDates(
+                    monthDates((iso) => fromISO(iso).getDay() === quickWeekday)
+                  )
+                }
+              >
+                선택
+              </button>
+            </span>
+            <button
+              className="rounded-xl border px-2 py-1 text-red-600 hover:bg-gray-50"
+              onClick={() => requestUnselect(monthDates(() => true))}
+            >
+              이 달 선택 해제
+            </button>
+          </fieldset>
+          <div className="mt-1 text-[11px] text-gray-400">
+            드래그하거나 Shift+클릭으로 여러 날짜를 한 번에 선택/해제할 수
+            있습니다.
+          </div>
+
           {/* 선택된 날짜 프리뷰 */}
           <div className="mt-3 text-sm">
             선택된 날짜:{" "}
@@ -425,31 +1558,12 @@ export default function AttendancePlanner() {
         </div>
 
         {/* Settings */}
-        <div className="border rounded-2xl p-3 shadow-sm space-y-4">
+        <fieldset
+          disabled={readOnly}
+          className="border rounded-2xl p-3 shadow-sm space-y-4 min-w-0"
+        >
           {/* 날짜 표기 형식 */}
-          <div>
-            <div className="text-sm font-medium mb-1">날짜 표기 형식</div>
-            <div className="flex gap-3">
-              <label className="flex items-center gap-2">
-                <input
-                  type="radio"
-                  name="fmt"
-                  checked={fmt === "YYYY.MM.DD"}
-                  onChange={() => setFmt("YYYY.MM.DD")}
-                />
-                <span>00.00.00</span>
-              </label>
-              <label className="flex items-center gap-2">
-                <input
-                  type="radio"
-                  name="fmt"
-                  checked={fmt === "MM/DD"}
-                  onChange={() => setFmt("MM/DD")}
-                />
-                <span>00/00</span>
-              </label>
-            </div>
-          </div>
+          <DateFormatSettings value={fmt} onChange={setFmt} />
 
           {/* 공백일 모드 (전역) */}
           <div>
@@ -485,6 +1599,62 @@ export default function AttendancePlanner() {
             </div>
           </div>
 
+          {/* 공휴일 설정 */}
+          <button
+            className="w-full rounded-xl border py-2 hover:bg-gray-50"
+            onClick={() => setShowHolidaySettings(true)}
+          >
+            공휴일·휴무일 설정
+          </button>
+
+          {/* 근무 요일 설정 */}
+          <button
+            className="w-full rounded-xl border py-2 hover:bg-gray-50"
+            onClick={() => setShowWorkWeekSettings(true)}
+          >
+            근무 요일 설정
+          </button>
+
+          {/* 인원 명부 */}
+          <button
+            className="w-full rounded-xl border py-2 hover:bg-gray-50"
+            onClick={() => setShowPeople(true)}
+          >
+            인원 명부 관리 ({people.length}명)
+          </button>
+
+          {/* 자동 배정 */}
+          <button
+            className="w-full rounded-xl border py-2 hover:bg-gray-50"
+            onClick={() => setShowAutoSchedule(true)}
+          >
+            자동 배정
+          </button>
+
+          {/* 검증 규칙 */}
+          <button
+            className="w-full rounded-xl border py-2 hover:bg-gray-50"
+            onClick={() => setShowRules(true)}
+          >
+            검증 규칙 설정
+          </button>
+
+          {/* 명단 가져오기 */}
+          <button
+            className="w-full rounded-xl border py-2 hover:bg-gray-50"
+            onClick={() => setShowImport(true)}
+          >
+            명단 가져오기 (CSV/XLSX/ICS/붙여넣기)
+          </button>
+
+          {/* 공유 */}
+          <button
+            className="w-full rounded-xl border py-2 hover:bg-gray-50"
+            onClick={() => setShowShare(true)}
+          >
+            공유 (링크 / JSON 파일)
+          </button>
+
           {/* 전체 초기화 */}
           <button
             className="w-full rounded-xl border py-2 hover:bg-gray-50"
@@ -492,10 +1662,13 @@ export default function AttendancePlanner() {
           >
             전체 초기화
           </button>
-        </div>
+        </fieldset>
 
         {/* 날짜별 이름 입력: 선택된 날짜만 */}
-        <div className="border rounded-2xl p-3 shadow-sm">
+        <fieldset
+          disabled={readOnly}
+          className="border rounded-2xl p-3 shadow-sm min-w-0"
+        >
           <div className="text-sm font-medium mb-2">날짜별 이름 입력</div>
           <div className="space-y-2 max-h-[420px] overflow-auto pr-1">
             {selectedDates.length === 0 && (
@@ -507,22 +1680,38 @@ export default function AttendancePlanner() {
               const e = entries.find((x) => x.date === iso);
               const value = tempInputs[iso] ?? "";
               return (
-                <div key={iso} className="border rounded-xl p-2">
-                  <div className="text-xs mb-1">{formatDate(iso, fmt)}</div>
+                <div
+                  key={iso}
+                  className="border rounded-xl p-2"
+                  onFocusCapture={() => collabRef.current?.setPresence(iso)}
+                  onBlurCapture={(ev) => {
+                    // 같은 날짜 칸 안에서 옮겨 가는 경우는 유지
+                    if (!ev.currentTarget.contains(ev.relatedTarget))
+                      collabRef.current?.setPresence(null);
+                  }}
+                >
+                  <div className="text-xs mb-1">
+                    {formatDate(iso, fmt)}
+                    {(peersByDate.get(iso) ?? []).map((p) => (
+                      <span
+                        key={p.id}
+                        className="ml-2 rounded-full bg-amber-100 px-2 text-amber-800"
+                      >
+                        ✎ {p.name} 편집 중
+                      </span>
+                    ))}
+                  </div>
                   <div className="flex gap-2">
-                    <input
-                      className="flex-1 border rounded-xl px-2 py-1"
-                      placeholder="이름 추가 (쉼표/공백/줄바꿈 허용)"
+                    <NameInput
                       value={value}
-                      onChange={(ev) =>
-                        setTempInputs((p) => ({ ...p, [iso]: ev.target.value }))
+                      people={people}
+                      placeholder="이름 추가 (쉼표/공백/줄바꿈 허용)"
+                      onChange={(v) =>
+                        setTempInputs((p) => ({ ...p, [iso]: v }))
                       }
-                      onKeyDown={(ev) => {
-                        if (ev.key === "Enter" && !ev.shiftKey) {
-                          ev.preventDefault();
-                          ensureEntry(iso);
-                          addNamesToDate(iso, (tempInputs[iso] ?? "").trim());
-                        }
+                      onSubmit={() => {
+                        ensureEntry(iso);
+                        addNamesToDate(iso, (tempInputs[iso] ?? "").trim());
                       }}
                     />
                     <button
@@ -535,6 +1724,45 @@ export default function AttendancePlanner() {
                       추가
                     </button>
                   </div>
+                  {(nameIssues[iso] ?? []).length > 0 && (
+                    <ul className="mt-1 space-y-0.5 text-xs text-amber-700">
+                      {nameIssues[iso].map((issue) => (
+                        <li key={issue.input}>
+                          {issue.kind === "AMBIGUOUS" ? (
+                            <>
+                              ⚠ 동명이인 &apos;{issue.input}&apos;: 다음 중
+                              선택하세요{" "}
+                            </>
+                          ) : (
+                            <>
+                              ⚠ 명부에 없는 이름 &apos;{issue.input}&apos;
+                              {issue.candidates.length > 0 && " — 혹시 "}
+                            </>
+                          )}
+                          {issue.candidates.map((c) => (
+                            <button
+                              key={c}
+                              className="mr-1 underline"
+                              onClick={() => {
+                                if (issue.kind === "UNKNOWN")
+                                  setEntries((prev) =>
+                                    removeNamesFromDates(
+                                      prev,
+                                      [iso],
+                                      [issue.input]
+                                    )
+                                  );
+                                ensureEntry(iso);
+                                addNamesToDate(iso, c);
+                              }}
+                            >
+                              {c}
+                            </button>
+                          ))}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                   <div className="mt-2 flex flex-wrap gap-2 text-sm">
                     {(e?.names || []).map((n) => (
                       <span
@@ -555,6 +1783,12 @@ export default function AttendancePlanner() {
                         >
                           {n}
                         </button>
+                        <SlotPicker
+                          value={e?.slots?.[n]}
+                          onChange={(slot) =>
+                            setEntries((prev) => setSlot(prev, iso, n, slot))
+                          }
+                        />
                         <button
                           className="text-red-600"
                           onClick={() => removeName(iso, n)}
@@ -569,17 +1803,45 @@ export default function AttendancePlanner() {
               );
             })}
           </div>
-        </div>
+        </fieldset>
       </div>
+      {/* 일괄 배정 */}
+      <fieldset disabled={readOnly} className="min-w-0">
+        <BulkAssignPanel
+          people={assignablePeople}
+          selectedDates={selectedDates}
+          isWorkday={isWorkday}
+          renderDate={(iso) => formatDate(iso, fmt)}
+          onApply={bulkAssign}
+        />
+      </fieldset>
       {/* ✅ 점검 참여인원 (이름 클릭 시 달력 강조) */}
       <div className="border rounded-2xl p-3 shadow-sm">
-        <div className="text-sm font-medium mb-2">점검 참여인원</div>
-        {allPeople.length === 0 ? (
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div className="text-sm font-medium">점검 참여인원</div>
+          {tracks.length > 1 && (
+            <select
+              className="border rounded-md px-2 py-1 text-xs"
+              value={listTrack}
+              onChange={(e) => setListTrack(e.target.value)}
+              title="인원 목록에 표시할 트랙"
+            >
+              <option value="ACTIVE">현재 트랙</option>
+              <option value="ALL">전체 트랙</option>
+              {tracks.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {trackLabel(t)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {listPeople.length === 0 ? (
           <div className="text-gray-400 text-sm">아직 인원 없음</div>
         ) : (
           <div className="flex flex-wrap gap-2">
-            {allPeople.map((p) => {
-              const cnt = personDatesMap.get(p)?.size ?? 0;
+            {listPeople.map((p) => {
+              const cnt = listPersonDates.get(p)?.size ?? 0;
               const active = highlightPerson === p;
               return (
                 <button
@@ -596,12 +1858,33 @@ export default function AttendancePlanner() {
                   title="클릭하면 달력에 이 인원의 참여 날짜를 강조합니다"
                 >
                   {p} <span className="text-gray-500">({cnt})</span>
+                  {roleOf(p) && (
+                    <span className="ml-1 rounded-full bg-amber-100 px-1.5 text-[11px] text-amber-800">
+                      {roleOf(p)}
+                    </span>
+                  )}
+                  {personOverride[p] && (
+                    <span
+                      className="ml-1 rounded-full bg-blue-100 px-1.5 text-[11px] text-blue-700"
+                      title="개인 공백일 설정"
+                    >
+                      {MERGE_MODE_LABELS[personOverride[p]]}
+                    </span>
+                  )}
                 </button>
               );
             })}
           </div>
         )}
       </div>
+      {/* 인원별 참여 통계 */}
+      <StatsPanel
+        entries={entries}
+        holidayCal={holidayCal}
+        workWeek={workWeek}
+        fileBase={workspaceName}
+        onPickPerson={(name) => setHighlightPerson(name)}
+      />
       {/* 입력된 날짜 (총 X일)별 인원 */}
       <div className="border rounded-2xl p-3 shadow-sm">
         <div className="text-sm font-medium mb-2">
@@ -635,9 +1918,88 @@ export default function AttendancePlanner() {
           </table>
         </div>
       </div>
+      {/* 검증 결과: 내보내기 전 확인 */}
+      <ValidationPanel
+        violations={violations}
+        renderDate={(iso) => formatDate(iso, fmt)}
+        onPickDate={jumpToDate}
+        onEditRules={() => setShowRules(true)}
+      />
       {/* 자동 생성 표: 동일 날짜세트 + days 기준 rowSpan 병합 (개별 공백일 오버라이드 지원) */}
       <div className="border rounded-2xl p-3 shadow-sm">
-        <div className="text-sm font-bold mb-2">자동 생성 표</div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <div className="text-sm font-bold">자동 생성 표</div>
+          <div className="flex items-center gap-2 text-xs">
+            {tracks.length > 1 && (
+              <select
+                className="border rounded-md px-2 py-1"
+                value={aggScope}
+                onChange={(e) => setAggScope(e.target.value as "TRACK" | "ALL")}
+                title="집계할 트랙"
+              >
+                <option value="TRACK">{trackLabel(activeTrack)}만</option>
+                <option value="ALL">전체 트랙 합산</option>
+              </select>
+            )}
+            <select
+              className="border rounded-md px-2 py-1"
+              value={deptView}
+              onChange={(e) =>
+                setDeptView(e.target.value as "HIDE" | "SHOW" | "GROUP")
+              }
+              title="인원 명부의 부서 정보"
+            >
+              <option value="HIDE">부서 숨김</option>
+              <option value="SHOW">부서 표시</option>
+              <option value="GROUP">부서별 묶기</option>
+            </select>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={xlsxIncludeRaw}
+                onChange={(e) => setXlsxIncludeRaw(e.target.checked)}
+              />
+              <span>날짜별 인원 시트 포함</span>
+            </label>
+            <button
+              className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+              disabled={readOnly || Object.keys(personOverride).length === 0}
+              onClick={() => {
+                setPersonOverride({});
+                notifyUndo("개별 공백일 설정 초기화됨");
+              }}
+              title="모든 인원의 개인 공백일 설정을 지우고 전역 설정을 사용"
+            >
+              개별 설정 모두 초기화
+            </button>
+            <button
+              className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+              disabled={tableGroups.length === 0}
+              onClick={exportXlsx}
+              title={
+                violations.length
+                  ? `검증 위반 ${violations.length}건이 있습니다 (위 검증 목록 확인)`
+                  : undefined
+              }
+            >
+              {violations.length > 0 && "⚠ "}엑셀(XLSX) 내보내기
+            </button>
+            <button
+              className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+              disabled={byPerson.length === 0}
+              onClick={() => setShowIcs(true)}
+            >
+              캘린더(ICS) 내보내기
+            </button>
+            <button
+              className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-40"
+              disabled={tableGroups.length === 0}
+              onClick={() => setShowPrint(true)}
+            >
+              인쇄 / PDF
+            </button>
+          </div>
+        </div>
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
             <thead>
@@ -647,7 +2009,7 @@ export default function AttendancePlanner() {
               </tr>
             </thead>
             <tbody>
-              {Object.values(groupedForRowSpan).length === 0 && (
+              {tableGroups.length === 0 && (
                 <tr>
                   <td colSpan={2} className="p-3 text-gray-400">
                     달력에서 날짜를 선택하고 각 날짜에 이름을 추가하면 자동
@@ -656,99 +2018,143 @@ export default function AttendancePlanner() {
                 </tr>
               )}
 
-              {Object.entries(groupedForRowSpan).map(([groupKey, group]) => {
-                const first = group[0];
-                const rowSpan = group.length;
-
-                // groupKey는 `${datesKey}|${days}`. datesKey만 추출
-                const datesKey = first.datesKey;
-                const datesArray = datesKey ? datesKey.split(",") : [];
-                const override = rowOverride[datesKey];
-
-                // 표시 모드 결정: 개별 설정이 있으면 우선 적용, 없으면 전역
-                const effectiveMode: MergeMode =
-                  override && override !== "GLOBAL"
-                    ? (override as MergeMode)
-                    : mergeMode;
-
-                // periods 재계산 (개별 모드 우선)
-                const computedPeriods = buildFormattedPeriodsFromDates(
-                  datesArray,
-                  effectiveMode,
-                  fmt
-                );
-
-                // 표시 문자열: "기간 (days일)"
-                const periodInline = `${computedPeriods}.(${first.days}일)`;
-
-                // <td
-                //   className=" relative h-full whitespace-nowrap"
-                //   rowSpan={rowSpan}
-                // >
-                //   {" "}
-                //   <div className="absolute h-full p-2 flex items-center">
-                //     {" "}
-                //     {periodInline}{" "}
-                //   </div>{" "}
-                // </td>;
-
-                return (
-                  <React.Fragment key={groupKey}>
-                    <tr className="border-t align-top w-full ">
-                      <td className=" p-2 whitespace-nowrap h-full">
-                        <div className="flex justify-between items-center gap-1 w-full h-full">
-                          {first.name}
-                        </div>
-                      </td>
-
-                      <td
-                        className="h-full p-2 whitespace-nowrap w-full align-middle"
-                        rowSpan={rowSpan}
+              {tableGroups.map(
+                (
+                  {
+                    key: groupKey,
+                    rows: group,
+                    mode: groupMode,
+                    department,
+                    periodInline,
+                  },
+                  gi
+                ) => {
+                  const first = group[0];
+                  const rowSpan = group.length;
+                  // 부서별 묶기: 부서가 바뀌는 첫 그룹 위에 부서 머리글
+                  const deptHeader =
+                    deptView === "GROUP" &&
+                    (gi === 0 || tableGroups[gi - 1].department !== department);
+
+                  // 성명 셀: 이름 + 개인 공백일 선택
+                  const nameCell = (r: (typeof group)[number]) => (
+                    <div className="flex justify-between items-center gap-1 w-full h-full">
+                      <span>
+                        {r.name}
+                        {roleOf(r.name) && (
+                          <span className="ml-1 text-[11px] text-amber-700">
+                            [{roleOf(r.name)}]
+                          </span>
+                        )}
+                        {deptView === "SHOW" && departmentOf(r.name) && (
+                          <span className="ml-1 text-[11px] text-gray-500">
+                            {departmentOf(r.name)}
+                          </span>
+                        )}
+                      </span>
+                      <select
+                        className={classNames(
+                          "border rounded-md px-1 text-[11px]",
+                          r.modeSource === "PERSON"
+                            ? "border-blue-400 text-blue-700"
+                            : "text-gray-400"
+                        )}
+                        value={personOverride[r.name] ?? "GLOBAL"}
+                        disabled={readOnly}
+                        onChange={(e) =>
+                          setOverrideFor(
+                            [r.name],
+                            e.target.value as MergeMode | "GLOBAL"
+                          )
+                        }
+                        title="이 인원에게만 적용할 공백일 설정"
                       >
-                        <div className="relative flex items-center justify-between gap-1 w-full h-full">
-                          <div>{periodInline}</div>
-
-                          {/* 개별 공백일 선택 (오버라이드) */}
-                          <div className="flex items-center gap-2 text-xs">
-                            <span className="text-gray-500">개별 공백일:</span>
-                            <select
-                              className="border rounded-md px-2 py-1"
-                              value={override ?? "GLOBAL"}
-                              onChange={(e) => {
-                                const val = e.target.value as
-                                  | MergeMode
-                                  | "GLOBAL";
-                                setRowOverride((prev) => ({
-                                  ...prev,
-                                  [datesKey]: val,
-                                }));
-                              }}
-                            >
-                              <option value="GLOBAL">전역 설정 사용</option>
-                              <option value="KEEP">공백일 적용</option>
-                              <option value="RED">토·일/공휴일 제거</option>
-                              <option value="ALL">모든 공백일 제거</option>
-                            </select>
+                        <option value="GLOBAL">전역</option>
+                        <option value="KEEP">{MERGE_MODE_LABELS.KEEP}</option>
+                        <option value="RED">{MERGE_MODE_LABELS.RED}</option>
+                        <option value="ALL">{MERGE_MODE_LABELS.ALL}</option>
+                      </select>
+                    </div>
+                  );
+
+                  return (
+                    <React.Fragment key={groupKey}>
+                      {deptHeader && (
+                        <tr className="border-t bg-gray-100">
+                          <td colSpan={2} className="px-2 py-1 font-semibold">
+                            {department || "부서 미지정"}
+                          </td>
+                        </tr>
+                      )}
+                      <tr className="border-t align-top w-full ">
+                        <td className=" p-2 whitespace-nowrap h-full">
+                          {nameCell(first)}
+                        </td>
+
+                        <td
+                          className="h-full p-2 whitespace-nowrap w-full align-middle"
+                          rowSpan={rowSpan}
+                        >
+                          <div className="relative flex items-center justify-between gap-1 w-full h-full">
+                            <div>{periodInline}</div>
+
+                            {/* 그룹 공백일 선택: 묶인 인원 전체에 개인 설정으로 적용 */}
+                            <div className="flex items-center gap-2 text-xs">
+                              <span className="text-gray-500">
+                                {rowSpan > 1 ? "그룹 공백일:" : "개별 공백일:"}
+                              </span>
+                              <select
+                                className="border rounded-md px-2 py-1"
+                                value={groupMode}
+                                disabled={readOnly}
+                                onChange={(e) =>
+                                  setOverrideFor(
+                                    group.map((r) => r.name),
+                                    e.target.value as MergeMode | "GLOBAL"
+                                  )
+                                }
+                              >
+                                {groupMode === "MIXED" && (
+                                  <option value="MIXED" disabled>
+                                    개인별 설정 섞임
+                                  </option>
+                                )}
+                                <option value="GLOBAL">전역 설정 사용</option>
+                                <option value="KEEP">
+                                  {MERGE_MODE_LABELS.KEEP}
+                                </option>
+                                <option value="RED">
+                                  {MERGE_MODE_LABELS.RED}
+                                </option>
+                                <option value="ALL">
+                                  {MERGE_MODE_LABELS.ALL}
+                                </option>
+                              </select>
+                            </div>
                           </div>
-                        </div>
-                      </td>
-                    </tr>
-
-                    {group.slice(1).map((r) => (
-                      <tr
-                        key={`${groupKey}-${r.name}`}
-                        className="border-t align-top"
-                      >
-                        <td className="p-2 whitespace-nowrap">{r.name}</td>
+                        </td>
                       </tr>
-                    ))}
-                  </React.Fragment>
-                );
-              })}
+
+                      {group.slice(1).map((r) => (
+                        <tr
+                          key={`${groupKey}-${r.name}`}
+                          className="border-t align-top"
+                        >
+                          <td className="p-2 whitespace-nowrap">
+                            {nameCell(r)}
+                          </td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  );
+                }
+              )}
             </tbody>
           </table>
         </div>
       </div>
+      {/* 복사 패널: 한 줄 텍스트 / 표 / Markdown */}
+      <CopyPanel groups={outputGroups} />
       {/* 날짜 해제 확인 모달 */}
       {confirm.open && (
         <div
@@ -762,7 +2168,15 @@ export default function AttendancePlanner() {
           <div className="w-full max-w-md rounded-2xl bg-white p-5 shadow-xl">
             <div className="text-lg font-semibold mb-2">날짜 선택 해제</div>
             <div className="text-sm text-gray-600 mb-4">
-              이 날짜의 입력된 이름 데이터도 함께{" "}
+              {confirmSummary.dates > 1 ? (
+                <>
+                  <b>{confirmSummary.dates}일</b>의 선택을 해제하면 입력된 이름{" "}
+                  <b>{confirmSummary.names}건</b>({confirmSummary.people}명)도
+                  함께{" "}
+                </>
+              ) : (
+                <>이 날짜의 입력된 이름 데이터도 함께 </>
+              )}
               <span className="font-semibold text-red-600">삭제</span>됩니다.
               정말로 해제하고 삭제할까요?
             </div>
@@ -783,6 +2197,128 @@ export default function AttendancePlanner() {
           </div>
         </div>
       )}
+      {showHolidaySettings && (
+        <HolidaySettingsDialog
+          value={holidays}
+          onChange={setHolidays}
+          year={year}
+          renderDate={(iso) => formatDate(iso, fmt)}
+          onClose={() => setShowHolidaySettings(false)}
+        />
+      )}
+      {showWorkWeekSettings && (
+        <WorkWeekDialog
+          value={workWeek}
+          onChange={setWorkWeek}
+          people={allPeople}
+          onClose={() => setShowWorkWeekSettings(false)}
+        />
+      )}
+      {showPeople && (
+        <PeopleDirectoryDialog
+          value={people}
+          onChange={updatePeople}
+          unregistered={unregistered}
+          onClose={() => setShowPeople(false)}
+        />
+      )}
+      {showRules && (
+        <RulesDialog
+          value={rules}
+          onChange={setRules}
+          people={assignablePeople}
+          renderDate={(iso) => formatDate(iso, fmt)}
+          onClose={() => setShowRules(false)}
+        />
+      )}
+      {showAutoSchedule && (
+        <AutoScheduleDialog
+          people={assignablePeople}
+          selectedDates={selectedDates}
+          isWorkday={isWorkday}
+          renderDate={(iso) => formatDate(iso, fmt)}
+          rules={rules}
+          holidayCal={holidayCal}
+          workWeek={workWeek}
+          directory={directory}
+          available={isAvailable}
+          onApply={applySchedule}
+          onClose={() => setShowAutoSchedule(false)}
+        />
+      )}
+      {showPrint && (
+        <PrintDialog
+          initial={reportOptions}
+          fallbackTitle={workspaceName}
+          onPrint={(options) => {
+            setReportOptions(options);
+            saveReportOptions(options);
+            setShowPrint(false);
+            setPrintRequest((n) => n + 1);
+          }}
+          onClose={() => setShowPrint(false)}
+        />
+      )}
+      {showIcs && (
+        <IcsExportDialog
+          people={icsPeople}
+          calendarName={workspaceName}
+          uidScope={`${workspaces.activeId ?? "shared"}:${
+            aggScope === "ALL" ? "all" : activeTrack.id
+          }`}
+          fmt={fmt}
+          onClose={() => setShowIcs(false)}
+        />
+      )}
+      {showServer && (
+        <ServerDialog
+          workspaceName={workspaceName}
+          remote={activeMeta?.remote}
+          linkedNames={
+            new Map(
+              workspaces.items.flatMap((x) =>
+                x.remote ? [[x.remote.id, x.name] as const] : []
+              )
+            )
+          }
+          onOpen={openRemote}
+          onUpload={uploadToServer}
+          onUnlink={() => {
+            if (workspaces.activeId)
+              setWorkspaces(linkWorkspace(workspaces.activeId, null));
+            setSync({ kind: "IDLE" });
+            syncedRef.current = null;
+          }}
+          onClose={() => setShowServer(false)}
+        />
+      )}
+      {showShare && (
+        <ShareDialog
+          name={workspaceName}
+          state={plannerState}
+          onImport={importSnapshot}
+          onClose={() => setShowShare(false)}
+        />
+      )}
+      {showImport && (
+        <ImportDialog
+          currentEntries={entries}
+          defaultYear={year}
+          knownNames={assignablePeople}
+          people={people}
+          renderDate={(iso) => formatDate(iso, fmt)}
+          onApply={applyImport}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+      {toast && (
+        <UndoToast
+          key={toast.id}
+          message={toast.message}
+          onUndo={undo}
+          onClose={closeToast}
+        />
+      )}
       {showResetConfirm && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
@@ -808,12 +2344,13 @@ export default function AttendancePlanner() {
               <button
                 className="px-4 py-2 rounded-xl bg-red-600 text-white hover:bg-red-700"
                 onClick={() => {
-                  setEntries([]);
+                  setTracks((ts) => ts.map((t) => ({ ...t, entries: [] })));
                   setSelectedDates([]);
                   setTempInputs({});
                   setHighlightPerson(null);
-                  setRowOverride({});
+                  setPersonOverride({});
                   setShowResetConfirm(false);
+                  notifyUndo("전체 초기화됨");
                 }}
               >
                 초기화
@@ -822,6 +2359,19 @@ export default function AttendancePlanner() {
           </div>
         </div>
       )}
+      {/* 인쇄용 보고서 (body에 렌더링, 인쇄할 때만 보임) */}
+      {hydrated && (
+        <PrintReport
+          options={reportOptions}
+          fallbackTitle={workspaceName}
+          groups={outputGroups}
+          departmentOf={departmentOf}
+          entries={reportEntries}
+          fmt={fmt}
+          holidayCal={holidayCal}
+          weekStart={workWeek.weekStart}
+        />
+      )}
     </div>
   );
 }
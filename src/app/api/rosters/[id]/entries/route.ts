@@ -0,0 +1,74 @@
+import { mergeEntries } from "@/lib/planner/entries";
+import { replaceTrackEntries } from "@/lib/planner/tracks";
+import type { Entry } from "@/lib/planner/types";
+import { entryErrors } from "@/lib/planner/validate";
+import {
+  jsonError,
+  notFound,
+  parseRevision,
+  readBody,
+  selectTrack,
+  updateResponse,
+  withStore,
+} from "@/lib/server/http";
+import { getRoster, updateRoster } from "@/lib/server/roster-store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** ============ /api/rosters/[id]/entries ============ */
+/** 날짜별 명단: ?track=<트랙 id | all> (기본: 마지막으로 보던 트랙) */
+export const GET = withStore(async (req: Request, { params }: Context) => {
+  const roster = await getRoster((await params).id);
+  if (!roster) return notFound();
+  const selected = selectTrack(
+    roster.state,
+    new URL(req.url).searchParams.get("track"),
+    "active"
+  );
+  if (!selected.ok) return selected.response;
+  return Response.json({
+    id: roster.id,
+    revision: roster.revision,
+    ...selected.value,
+  });
+});
+
+/**
+ * 한 트랙의 명단 교체: { entries, track?, baseRevision? }
+ * - 날짜는 실제 있는 YYYY-MM-DD, 이름은 빈 값·앞뒤 공백 없이
+ * - 저장 전 날짜순 정렬, 같은 날 중복 이름 제거
+ * - 선택 날짜도 새 명단에 맞춤 (새 날짜 추가, 이 트랙에만 있던 날짜 제거)
+ */
+export const PUT = withStore(async (req: Request, { params }: Context) => {
+  const { id } = await params;
+  const body = await readBody(req);
+  if (!body.ok) return body.response;
+  const { entries, track } = body.value;
+  if (!Array.isArray(entries))
+    return jsonError(400, "entries: 날짜별 명단 목록이 없습니다.");
+  const errors = entryErrors(entries, "entries");
+  if (errors.length > 0)
+    return jsonError(400, "entries: 내용이 올바르지 않습니다.", errors);
+  if (track !== undefined && typeof track !== "string")
+    return jsonError(400, "track: 트랙 id가 문자열이 아닙니다.");
+  if (track === "all")
+    return jsonError(400, "track: 합산(all)에는 저장할 수 없습니다.");
+  const revision = parseRevision(body.value.baseRevision);
+  if (!revision.ok) return revision.response;
+
+  const next = mergeEntries([], entries as Entry[]);
+  return updateResponse(
+    await updateRoster(
+      id,
+      ({ state }) => {
+        // 트랙 확인은 쓰기 순서 안에서 (그 사이 트랙이 지워질 수 있음)
+        const trackId = track ?? state.activeTrackId;
+        if (!state.tracks.some((t) => t.id === trackId))
+          return { reject: `track: '${trackId}' 트랙이 없습니다.` };
+        return { state: replaceTrackEntries(state, trackId, next) };
+      },
+      revision.value
+    ),
+    404
+  );
+});
@@ -0,0 +1,53 @@
+import type { PlannerState } from "@/lib/planner/types";
+import {
+  notFound,
+  parseName,
+  parseRevision,
+  parseState,
+  readBody,
+  rosterResponse,
+  updateResponse,
+  withStore,
+} from "@/lib/server/http";
+import {
+  deleteRoster,
+  getRoster,
+  updateRoster,
+} from "@/lib/server/roster-store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** ============ /api/rosters/[id] ============ */
+/** 명단 전체 (플래너 상태 포함) */
+export const GET = withStore(async (_req: Request, { params }: Context) => {
+  const roster = await getRoster((await params).id);
+  return roster ? rosterResponse(roster) : notFound();
+});
+
+/**
+ * 명단 저장: { name?, version?, state?, baseRevision? }
+ * - baseRevision이 서버 revision과 다르면 409
+ */
+export const PUT = withStore(async (req: Request, { params }: Context) => {
+  const { id } = await params;
+  const body = await readBody(req);
+  if (!body.ok) return body.response;
+  const name = parseName(body.value.name, false);
+  if (!name.ok) return name.response;
+  const revision = parseRevision(body.value.baseRevision);
+  if (!revision.ok) return revision.response;
+  let state: PlannerState | undefined;
+  if (body.value.state !== undefined) {
+    const parsed = parseState(body.value);
+    if (!parsed.ok) return parsed.response;
+    state = parsed.value;
+  }
+  return updateResponse(
+    await updateRoster(id, () => ({ name: name.value, state }), revision.value)
+  );
+});
+
+export const DELETE = withStore(async (_req: Request, { params }: Context) => {
+  const deleted = await deleteRoster((await params).id);
+  return deleted ? new Response(null, { status: 204 }) : notFound();
+});
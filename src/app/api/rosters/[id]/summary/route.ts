@@ -0,0 +1,53 @@
+import { summarize } from "@/lib/planner/aggregate";
+import { createHolidayCalendar } from "@/lib/planner/holidays";
+import { peopleByLabel } from "@/lib/planner/people";
+import { notFound, selectTrack, withStore } from "@/lib/server/http";
+import { getRoster } from "@/lib/server/roster-store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** ============ /api/rosters/[id]/summary ============ */
+/**
+ * 인원별 집계: 화면의 자동 생성 표와 같은 기간 문자열·일수
+ * - ?track=<트랙 id | all> (기본: 모든 트랙 합산)
+ * - 표기 형식, 공백일 모드, 공휴일, 근무 요일, 개인 설정은 저장된 명단 설정을 따름
+ */
+export const GET = withStore(async (req: Request, { params }: Context) => {
+  const roster = await getRoster((await params).id);
+  if (!roster) return notFound();
+  const { state } = roster;
+  const selected = selectTrack(
+    state,
+    new URL(req.url).searchParams.get("track"),
+    "all"
+  );
+  if (!selected.ok) return selected.response;
+
+  const directory = peopleByLabel(state.people);
+  const summary = summarize(selected.value.entries, {
+    fmt: state.fmt,
+    mergeMode: state.mergeMode,
+    calendar: createHolidayCalendar(state.holidays),
+    workWeek: state.workWeek,
+    personOverride: state.personOverride,
+  });
+  const rows = summary.rows.map((r) => ({
+    name: r.name,
+    department: directory.get(r.name)?.department || null,
+    periods: r.periods,
+    days: r.days,
+    dates: r.dates,
+    mode: r.mode,
+    modeSource: r.modeSource,
+  }));
+
+  return Response.json({
+    id: roster.id,
+    revision: roster.revision,
+    track: selected.value.track,
+    mergeMode: state.mergeMode,
+    rows,
+    totals: summary.totals,
+    generatedAt: summary.generatedAt,
+  });
+});
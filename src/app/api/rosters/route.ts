@@ -0,0 +1,27 @@
+import {
+  parseName,
+  parseState,
+  readBody,
+  rosterResponse,
+  withStore,
+} from "@/lib/server/http";
+import { createRoster, listRosters } from "@/lib/server/roster-store";
+
+/** ============ /api/rosters ============ */
+/** 명단 목록 (상태 제외, 최근 수정 순) */
+export const GET = withStore(async () => {
+  return Response.json({ rosters: await listRosters() });
+});
+
+/** 새 명단: { name, version?, state? } (state가 없으면 빈 명단) */
+export const POST = withStore(async (req: Request) => {
+  const body = await readBody(req);
+  if (!body.ok) return body.response;
+  const name = parseName(body.value.name, true);
+  if (!name.ok) return name.response;
+  if (body.value.state === undefined)
+    return rosterResponse(await createRoster(name.value!), 201);
+  const state = parseState(body.value);
+  if (!state.ok) return state.response;
+  return rosterResponse(await createRoster(name.value!, state.value), 201);
+});
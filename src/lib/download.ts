@@ -0,0 +1,16 @@
+/** Blob을 파일로 내려받기 (브라우저 전용) */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // 다운로드 시작 후 URL 해제
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** 파일명에 쓸 수 없는 문자 제거 */
+export const safeFilename = (s: string) =>
+  s.replace(/[\\/:*?"<>|]+/g, "_").trim() || "export";
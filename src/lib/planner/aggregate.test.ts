@@ -0,0 +1,358 @@
+import { describe, expect, it } from "vitest";
+import {
+  aggregateByPerson,
+  formatSegments,
+  groupRows,
+  summarize,
+  type AggregateOptions,
+} from "./aggregate";
+import { defaultDateFormat } from "./date-format";
+import {
+  createHolidayCalendar,
+  defaultHolidaySettings,
+  type HolidayCalendar,
+} from "./holidays";
+import type { Entry } from "./types";
+import { defaultWorkWeek } from "./work-week";
+
+const fixedCalendar = (holidays: Record<string, string>): HolidayCalendar => ({
+  isHoliday: (iso) => iso in holidays,
+  holidayName: (iso) => holidays[iso] ?? null,
+});
+
+const options = (patch: Partial<AggregateOptions> = {}): AggregateOptions => ({
+  fmt: defaultDateFormat(),
+  mergeMode: "KEEP",
+  calendar: fixedCalendar({}),
+  workWeek: defaultWorkWeek(),
+  personOverride: {},
+  ...patch,
+});
+
+const entry = (date: string, ...names: string[]): Entry => ({ date, names });
+
+describe("formatSegments", () => {
+  it("구간을 쉼표로 이어 붙임", () => {
+    expect(
+      formatSegments(
+        [
+          ["2026-10-01", "2026-10-02"],
+          ["2026-10-05", "2026-10-05"],
+        ],
+        defaultDateFormat()
+      )
+    ).toBe("2026.10.01~2026.10.02, 2026.10.05");
+  });
+
+  it("반일·시간 지정 날짜를 괄호로 표시", () => {
+    expect(
+      formatSegments([["2026-10-20", "2026-10-20"]], defaultDateFormat(), {
+        "2026-10-20": { kind: "AM" },
+      })
+    ).toBe("2026.10.20(오전)");
+    expect(
+      formatSegments([["2026-10-20", "2026-10-22"]], defaultDateFormat(), {
+        "2026-10-22": { kind: "PM" },
+        "2026-10-20": { kind: "TIME", start: "13:00", end: "17:00" },
+      })
+    ).toBe("2026.10.20~2026.10.22(2026.10.20 13:00~17:00, 2026.10.22 오후)");
+  });
+});
+
+describe("aggregateByPerson", () => {
+  it("날짜·이름 중복 제거, 이름순 정렬, 빈 이름 무시", () => {
+    const rows = aggregateByPerson(
+      [
+        entry("2026-10-02", "나", "가"),
+        entry("2026-10-01", "가", ""),
+        entry("2026-10-01", "가"),
+      ],
+      options()
+    );
+    expect(rows.map((r) => r.name)).toEqual(["가", "나"]);
+    expect(rows[0]).toMatchObject({
+      dates: ["2026-10-01", "2026-10-02"],
+      periods: "2026.10.01~2026.10.02",
+      days: 2,
+      datesKey: "2026-10-01,2026-10-02",
+      mode: "KEEP",
+      modeSource: "GLOBAL",
+    });
+    expect(rows[1]).toMatchObject({ periods: "2026.10.02", days: 1 });
+  });
+
+  it("명단이 비면 빈 결과", () => {
+    expect(aggregateByPerson([], options())).toEqual([]);
+    expect(aggregateByPerson([entry("2026-10-01")], options())).toEqual([]);
+  });
+
+  it("월·연도 경계를 넘는 연속 참여", () => {
+    const [row] = aggregateByPerson(
+      [
+        entry("2026-12-31", "가"),
+        entry("2027-01-01", "가"),
+        entry("2027-01-31", "가"),
+        entry("2027-02-01", "가"),
+      ],
+      options()
+    );
+    expect(row.periods).toBe("2026.12.31~2027.01.01, 2027.01.31~2027.02.01");
+    expect(row.days).toBe(4);
+  });
+
+  it("반일·시간 지정은 가중 일수로 세고 기간에 표시", () => {
+    const [row] = aggregateByPerson(
+      [
+        { date: "2026-10-01", names: ["가"], slots: { 가: { kind: "AM" } } },
+        entry("2026-10-02", "가"),
+        {
+          date: "2026-10-05",
+          names: ["가"],
+          slots: { 가: { kind: "TIME", start: "14:00", end: "18:00" } },
+        },
+      ],
+      options()
+    );
+    expect(row.days).toBe(2);
+    expect(row.periods).toBe(
+      "2026.10.01~2026.10.02(2026.10.01 오전), 2026.10.05(14:00~18:00)"
+    );
+    expect(row.datesKey).toBe(
+      "2026-10-01@오전,2026-10-02,2026-10-05@14:00~18:00"
+    );
+    expect(row.slots).toEqual({
+      "2026-10-01": { kind: "AM" },
+      "2026-10-05": { kind: "TIME", start: "14:00", end: "18:00" },
+    });
+  });
+
+  it("RED: 추석 연휴를 넘어 한 구간 (주입한 공휴일 달력 사용)", () => {
+    const [row] = aggregateByPerson(
+      [entry("2026-09-23", "가"), entry("2026-09-28", "가")],
+      options({
+        mergeMode: "RED",
+        calendar: createHolidayCalendar(defaultHolidaySettings()),
+      })
+    );
+    expect(row.periods).toBe("2026.09.23~2026.09.28");
+    expect(row.days).toBe(2);
+  });
+
+  it("RED: 고정 달력으로도 같은 규칙", () => {
+    const chuseok = fixedCalendar({
+      "2026-09-24": "추석",
+      "2026-09-25": "추석",
+      "2026-09-26": "추석",
+    });
+    const entries = [entry("2026-09-23", "가"), entry("2026-09-28", "가")];
+    expect(
+      aggregateByPerson(
+        entries,
+        options({ mergeMode: "RED", calendar: chuseok })
+      )[0].periods
+    ).toBe("2026.09.23~2026.09.28");
+    expect(
+      aggregateByPerson(entries, options({ mergeMode: "RED" }))[0].periods
+    ).toBe("2026.09.23, 2026.09.28");
+  });
+
+  it("ALL: 처음~끝 한 구간이지만 일수는 실제 참여일만", () => {
+    const rows = aggregateByPerson(
+      [
+        entry("2026-10-01", "가", "나"),
+        entry("2026-10-15", "가"),
+        entry("2026-12-31", "가"),
+      ],
+      options({ mergeMode: "ALL" })
+    );
+    expect(rows[0]).toMatchObject({
+      periods: "2026.10.01~2026.12.31",
+      segments: [["2026-10-01", "2026-12-31"]],
+      days: 3,
+      mode: "ALL",
+    });
+    // 하루뿐이면 그 날짜 하나
+    expect(rows[1]).toMatchObject({ periods: "2026.10.01", days: 1 });
+  });
+
+  it("ALL: 반일 하루뿐인 인원", () => {
+    const [row] = aggregateByPerson(
+      [{ date: "2026-10-01", names: ["가"], slots: { 가: { kind: "PM" } } }],
+      options({ mergeMode: "ALL" })
+    );
+    expect(row).toMatchObject({ periods: "2026.10.01(오후)", days: 0.5 });
+  });
+
+  it("개인 공백일 설정이 전역 설정보다 우선", () => {
+    const rows = aggregateByPerson(
+      [entry("2026-10-16", "가", "나"), entry("2026-10-19", "가", "나")],
+      options({ mergeMode: "KEEP", personOverride: { 가: "RED" } })
+    );
+    expect(rows[0]).toMatchObject({
+      name: "가",
+      periods: "2026.10.16~2026.10.19",
+      mode: "RED",
+      modeSource: "PERSON",
+    });
+    expect(rows[1]).toMatchObject({
+      name: "나",
+      periods: "2026.10.16, 2026.10.19",
+      mode: "KEEP",
+      modeSource: "GLOBAL",
+    });
+  });
+
+  it("개인 근무 요일이 RED 판정에 쓰임", () => {
+    const rows = aggregateByPerson(
+      [entry("2026-10-16", "가", "나"), entry("2026-10-19", "가", "나")],
+      options({
+        mergeMode: "RED",
+        workWeek: {
+          ...defaultWorkWeek(),
+          perPerson: { 가: [1, 2, 3, 4, 5, 6] },
+        },
+      })
+    );
+    expect(rows[0]).toMatchObject({
+      periods: "2026.10.16, 2026.10.19",
+      workingWeekdays: [1, 2, 3, 4, 5, 6],
+    });
+    expect(rows[1]).toMatchObject({
+      periods: "2026.10.16~2026.10.19",
+      workingWeekdays: [1, 2, 3, 4, 5],
+    });
+  });
+
+  it("표기 형식을 따름", () => {
+    const [row] = aggregateByPerson(
+      [entry("2026-10-01", "가"), entry("2026-10-02", "가")],
+      options({
+        fmt: { ...defaultDateFormat(), preset: "KO", rangeCollapse: "MONTH" },
+      })
+    );
+    expect(row.periods).toBe("10월 1일(목)~2일(금)");
+  });
+});
+
+describe("groupRows", () => {
+  const rowsOf = (entries: Entry[], patch: Partial<AggregateOptions> = {}) =>
+    aggregateByPerson(entries, options(patch));
+
+  it("같은 날짜 세트·일수끼리 묶고 이름순 정렬", () => {
+    const groups = groupRows(
+      rowsOf([
+        entry("2026-10-01", "다", "가", "나"),
+        entry("2026-10-02", "다", "가"),
+      ])
+    );
+    expect(groups).toHaveLength(2);
+    const [both, single] = groups;
+    expect(both.rows.map((r) => r.name)).toEqual(["가", "다"]);
+    expect(both).toMatchObject({
+      department: "",
+      mode: "GLOBAL",
+      periods: "2026.10.01~2026.10.02",
+      days: 2,
+      periodInline: "2026.10.01~2026.10.02.(2일)",
+    });
+    expect(single.rows.map((r) => r.name)).toEqual(["나"]);
+  });
+
+  it("반일이 섞이면 같은 날짜라도 따로 묶음", () => {
+    const groups = groupRows(
+      rowsOf([
+        {
+          date: "2026-10-01",
+          names: ["가", "나"],
+          slots: { 나: { kind: "AM" } },
+        },
+      ])
+    );
+    expect(groups.map((g) => g.periodInline)).toEqual([
+      "2026.10.01.(1일)",
+      "2026.10.01(오전).(0.5일)",
+    ]);
+  });
+
+  it("근무 요일이 다르면 따로 묶음", () => {
+    const groups = groupRows(
+      rowsOf([entry("2026-10-01", "가", "나")], {
+        workWeek: { ...defaultWorkWeek(), perPerson: { 가: [1, 2, 3] } },
+      })
+    );
+    expect(groups).toHaveLength(2);
+  });
+
+  it("그룹 공백일 설정: 전원 개인 설정 / 전역 / 섞임", () => {
+    const entries = [entry("2026-10-01", "가", "나")];
+    expect(
+      groupRows(
+        rowsOf(entries, { personOverride: { 가: "KEEP", 나: "KEEP" } })
+      )[0].mode
+    ).toBe("KEEP");
+    expect(groupRows(rowsOf(entries))[0].mode).toBe("GLOBAL");
+    expect(
+      groupRows(rowsOf(entries, { personOverride: { 가: "KEEP" } }))[0].mode
+    ).toBe("MIXED");
+  });
+
+  it("부서별로 묶으면 부서 이름순, 미지정은 마지막", () => {
+    const departments: Record<string, string> = { 가: "품질팀", 다: "안전팀" };
+    const rows = rowsOf([entry("2026-10-01", "가", "나", "다")]);
+    const groups = groupRows(rows, (name) => departments[name] ?? "");
+    expect(
+      groups.map((g) => [g.department, g.rows.map((r) => r.name)])
+    ).toEqual([
+      ["안전팀", ["다"]],
+      ["품질팀", ["가"]],
+      ["", ["나"]],
+    ]);
+    expect(groupRows(rows)).toHaveLength(1);
+  });
+
+  it("빈 목록", () => {
+    expect(groupRows([])).toEqual([]);
+  });
+});
+
+describe("summarize", () => {
+  it("인원 수와 가중 일수 합계", () => {
+    const summary = summarize(
+      [
+        {
+          date: "2026-10-01",
+          names: ["가", "나"],
+          slots: { 나: { kind: "AM" } },
+        },
+        entry("2026-10-02", "가"),
+      ],
+      { ...options(), now: new Date("2026-10-19T09:00:00+09:00") }
+    );
+    expect(summary.rows.map((r) => r.name)).toEqual(["가", "나"]);
+    expect(summary.totals).toEqual({ people: 2, days: 2.5 });
+    expect(summary.generatedAt).toBe("2026-10-19T00:00:00.000Z");
+  });
+
+  it("시간 지정 합계의 부동소수 오차 정리", () => {
+    const slot = { kind: "TIME" as const, start: "09:00", end: "09:48" }; // 0.1일
+    const summary = summarize(
+      ["2026-10-01", "2026-10-02", "2026-10-05"].map((date) => ({
+        date,
+        names: ["가"],
+        slots: { 가: slot },
+      })),
+      options()
+    );
+    expect(summary.totals.days).toBe(0.3);
+  });
+
+  it("now가 없으면 현재 시각", () => {
+    const before = Date.now();
+    const { generatedAt, rows, totals } = summarize([], options());
+    expect(rows).toEqual([]);
+    expect(totals).toEqual({ people: 0, days: 0 });
+    const at = Date.parse(generatedAt);
+    expect(at).toBeGreaterThanOrEqual(before);
+    expect(at).toBeLessThanOrEqual(Date.now());
+  });
+});
@@ -0,0 +1,189 @@
+import { formatDate, formatRange } from "./date-format";
+import type { HolidayCalendar } from "./holidays";
+import { buildSegments, type Segment } from "./segments";
+import { roundDays, slotLabel, slotWeight, type Slot } from "./slots";
+import type { DateFormat, Entry, MergeMode, PersonOverride } from "./types";
+import { workdaysOf, type WorkWeek } from "./work-week";
+
+/**
+ * 세그먼트 → 기간 문자열
+ * - 반일·시간 지정 날짜는 괄호로 표시: "10.20.(오전)", "10.20.~10.22.(10.22. 오후)"
+ */
+export function formatSegments(
+  segments: Segment[],
+  fmt: DateFormat,
+  slots: Record<string, Slot> = {}
+): string {
+  return segments
+    .map(([s, e]) => {
+      const range = formatRange(s, e, fmt);
+      const partial = Object.keys(slots)
+        .filter((d) => d >= s && d <= e)
+        .sort();
+      if (partial.length === 0) return range;
+      if (s === e) return `${range}(${slotLabel(slots[s])})`;
+      return `${range}(${partial
+        .map((d) => `${formatDate(d, fmt)} ${slotLabel(slots[d])}`)
+        .join(", ")})`;
+    })
+    .join(", ");
+}
+
+/** ============ Aggregation ============ */
+export interface PersonRow {
+  name: string;
+  periods: string;
+  segments: Segment[]; // 공백일 모드를 적용한 연속 구간
+  dates: string[]; // 참여 날짜 (ISO, 오름차순)
+  slots: Record<string, Slot>; // ISO → 반일·시간 지정 (종일인 날짜는 없음)
+  days: number; // 가중 참여 일수
+  datesKey: string; // sorted ISO joined by ','
+  workingWeekdays: number[]; // RED 모드 판정에 쓰인 근무 요일 (개인 설정 우선)
+  mode: MergeMode; // 실제 적용된 공백일 모드
+  modeSource: "PERSON" | "GLOBAL";
+}
+
+/**
+ * 집계 설정 (저장된 명단 설정 그대로)
+ * - calendar: 공휴일 판정만 쓰므로 createHolidayCalendar 대신 고정 목록 달력을 넣어도 됨
+ */
+export interface AggregateOptions {
+  fmt: DateFormat;
+  mergeMode: MergeMode; // 전역 공백일 모드 (KEEP/RED/ALL)
+  calendar: HolidayCalendar;
+  workWeek: WorkWeek;
+  personOverride: PersonOverride; // 개인 공백일 모드 (전역보다 우선)
+}
+
+/**
+ * 인원별 집계 (화면 표, 엑셀, 인쇄, API 요약 공용)
+ * - days: 참여 일수 (종일 1, 오전/오후 0.5, 시간 지정은 시간 ÷ 8)
+ * - datesKey: 정렬된 ISO join (rowSpan 병합 기준, 반일·시간 지정 포함)
+ * - mode / modeSource: 이 행을 만든 실제 공백일 모드와 그 출처(개인/전역)
+ */
+export function aggregateByPerson(
+  entries: Entry[],
+  { fmt, mergeMode, calendar, workWeek, personOverride }: AggregateOptions
+): PersonRow[] {
+  // name -> sorted unique ISO dates
+  const m = new Map<string, string[]>();
+  // name -> ISO -> 반일·시간 지정 (종일이면 없음)
+  const slotsOf = new Map<string, Record<string, Slot>>();
+  for (const e of entries) {
+    for (const nm of e.names) {
+      if (!nm) continue;
+      const arr = m.get(nm) ?? [];
+      arr.push(e.date);
+      m.set(nm, arr);
+      const slot = e.slots?.[nm];
+      if (slot) slotsOf.set(nm, { ...slotsOf.get(nm), [e.date]: slot });
+    }
+  }
+  for (const [k, arr] of m) m.set(k, Array.from(new Set(arr)).sort());
+
+  const out: PersonRow[] = [];
+  for (const [name, dates] of m) {
+    if (dates.length === 0) continue;
+    const workingWeekdays = workdaysOf(workWeek, name);
+    const override = personOverride[name];
+    const mode = override ?? mergeMode;
+    const segments = buildSegments(dates, mode, calendar, workingWeekdays);
+    const slots = slotsOf.get(name) ?? {};
+    out.push({
+      name,
+      periods: formatSegments(segments, fmt, slots),
+      segments,
+      dates,
+      slots,
+      days: roundDays(dates.reduce((n, d) => n + slotWeight(slots[d]), 0)),
+      datesKey: dates
+        .map((d) => (slots[d] ? `${d}@${slotLabel(slots[d])}` : d))
+        .join(","),
+      workingWeekdays,
+      mode,
+      modeSource: override ? "PERSON" : "GLOBAL",
+    });
+  }
+  out.sort((a, b) => a.name.localeCompare(b.name, "ko"));
+  return out;
+}
+
+/** ============ Row Groups ============ */
+export interface RowGroup {
+  key: string;
+  department: string; // 부서별로 묶지 않으면 ""
+  rows: PersonRow[]; // 이름순
+  mode: MergeMode | "GLOBAL" | "MIXED"; // 그룹 공백일 설정
+  periods: string;
+  days: number;
+  periodInline: string; // "기간.(days일)"
+}
+
+/**
+ * 같은 날짜 세트 + 일수 (+ 근무 요일, 공백일 모드, 부서) 인원을 한 그룹으로 (표의 rowSpan 병합)
+ * - 근무 요일/공백일 모드가 다르면 기간 문자열이 달라질 수 있으므로 따로 묶음
+ * - departmentOf를 주면 부서별로 묶고 부서 이름순 정렬 (미지정은 마지막)
+ * - mode: 전원 개인 설정이면 그 모드, 아무도 없으면 GLOBAL, 섞여 있으면 MIXED
+ */
+export function groupRows(
+  rows: PersonRow[],
+  departmentOf?: (name: string) => string
+): RowGroup[] {
+  const groups = new Map<string, PersonRow[]>();
+  for (const r of rows) {
+    const dept = departmentOf?.(r.name) ?? "";
+    const key = `${dept}|${r.datesKey}|${r.days}|${r.workingWeekdays.join(
+      ""
+    )}|${r.mode}`;
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  return Array.from(groups, ([key, group]) => {
+    const first = group[0];
+    const overridden = group.filter((r) => r.modeSource === "PERSON");
+    return {
+      key,
+      department: key.slice(0, key.indexOf("|")),
+      rows: [...group].sort((a, b) => a.name.localeCompare(b.name, "ko")),
+      mode:
+        overridden.length === 0
+          ? "GLOBAL"
+          : overridden.length === group.length
+          ? first.mode
+          : "MIXED",
+      periods: first.periods,
+      days: first.days,
+      periodInline: `${first.periods}.(${first.days}일)`,
+    } satisfies RowGroup;
+  }).sort((a, b) =>
+    a.department === b.department
+      ? 0
+      : !a.department
+      ? 1
+      : !b.department
+      ? -1
+      : a.department.localeCompare(b.department, "ko")
+  );
+}
+
+/** ============ Summary ============ */
+export interface Summary {
+  rows: PersonRow[];
+  totals: { people: number; days: number };
+  generatedAt: string; // ISO 8601 (now 기준)
+}
+
+/** 인원별 집계 + 합계 (now: 작성 시각, 기본 현재 시각) */
+export function summarize(
+  entries: Entry[],
+  options: AggregateOptions & { now?: Date }
+): Summary {
+  const rows = aggregateByPerson(entries, options);
+  return {
+    rows,
+    totals: {
+      people: rows.length,
+      days: roundDays(rows.reduce((n, r) => n + r.days, 0)),
+    },
+    generatedAt: (options.now ?? new Date()).toISOString(),
+  };
+}
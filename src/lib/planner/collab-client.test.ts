@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ClientMessage, CollabOp, ServerMessage } from "./collab";
+import { connectCollab, type CollabSession } from "./collab-client";
+
+/** 브라우저 WebSocket 대신 보낸 메시지를 모아 두는 가짜 소켓 */
+class FakeSocket {
+  static OPEN = 1;
+  static all: FakeSocket[] = [];
+  readyState = 0;
+  sent: ClientMessage[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((ev: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeSocket.all.push(this);
+  }
+  send(text: string) {
+    this.sent.push(JSON.parse(text) as ClientMessage);
+  }
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+  receive(msg: ServerMessage) {
+    this.onmessage?.({ data: JSON.stringify(msg) });
+  }
+  sentOps() {
+    return this.sent.flatMap((m) => (m.type === "ops" ? [m.ops] : []));
+  }
+}
+
+const snapshot: ServerMessage = {
+  type: "snapshot",
+  fresh: false,
+  elements: [],
+  registers: [],
+};
+
+const add = (tag: string): CollabOp => ({ t: "add", key: `s${tag}`, tag });
+
+const latest = () => FakeSocket.all[FakeSocket.all.length - 1];
+
+let session: CollabSession;
+let received: ServerMessage[];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("WebSocket", FakeSocket);
+  vi.stubEnv("NEXT_PUBLIC_COLLAB_URL", "ws://collab.test");
+  FakeSocket.all = [];
+  received = [];
+  session = connectCollab(
+    "room1",
+    { id: "me", name: "김민수" },
+    { onMessage: (msg) => received.push(msg), onStatus: () => undefined }
+  );
+});
+
+afterEach(() => {
+  session.close();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("connectCollab", () => {
+  it("snapshot을 받기 전의 연산은 모아 두었다가 방에 들어간 뒤 보냄", () => {
+    const ws = latest();
+    expect(ws.url).toBe("ws://collab.test");
+    ws.open();
+    expect(ws.sent[0]).toMatchObject({ type: "hello", room: "room1" });
+    session.send([add("1")]);
+    expect(ws.sentOps()).toEqual([]);
+    ws.receive(snapshot);
+    expect(ws.sentOps()).toEqual([[add("1")]]);
+    session.send([add("2")]);
+    session.send([]);
+    expect(ws.sentOps()).toEqual([[add("1")], [add("2")]]);
+    expect(received).toEqual([snapshot]);
+  });
+
+  it("서버가 되돌려 준 만큼 확인 처리 (다른 사람 연산은 상관없음)", () => {
+    const ws = latest();
+    ws.open();
+    ws.receive(snapshot);
+    session.send([add("1")]);
+    session.send([add("2"), add("3")]);
+    ws.receive({ type: "ops", from: "other", ops: [add("x")] });
+    expect(session.unconfirmed()).toEqual([add("1"), add("2"), add("3")]);
+    ws.receive({ type: "ops", from: "me", ops: [add("1")] });
+    expect(session.unconfirmed()).toEqual([add("2"), add("3")]);
+  });
+
+  it("끊긴 동안의 편집과 확인받지 못한 연산을 다시 연결한 뒤 순서대로 다시 보냄", () => {
+    const first = latest();
+    first.open();
+    first.receive(snapshot);
+    session.send([add("1")]); // 보냈지만 되돌려 받기 전에 끊김
+    first.close();
+    session.send([add("2")]); // 끊긴 동안의 편집
+    expect(session.unconfirmed()).toEqual([add("1"), add("2")]);
+
+    vi.advanceTimersByTime(3000);
+    const second = latest();
+    expect(second).not.toBe(first);
+    second.open();
+    expect(second.sentOps()).toEqual([]);
+    second.receive(snapshot);
+    expect(second.sentOps()).toEqual([[add("1")], [add("2")]]);
+    // snapshot 처리 시점에도 아직 확인 전이므로 화면은 이 연산을 얹어 맞춤
+    expect(session.unconfirmed()).toEqual([add("1"), add("2")]);
+
+    second.receive({ type: "ops", from: "me", ops: [add("1")] });
+    second.receive({ type: "ops", from: "me", ops: [add("2")] });
+    expect(session.unconfirmed()).toEqual([]);
+  });
+
+  it("닫은 뒤에는 다시 연결하지 않음", () => {
+    latest().open();
+    session.close();
+    vi.advanceTimersByTime(10000);
+    expect(FakeSocket.all).toHaveLength(1);
+  });
+});
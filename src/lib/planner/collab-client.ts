@@ -0,0 +1,116 @@
+import type {
+  ClientMessage,
+  CollabOp,
+  CollabPeer,
+  ServerMessage,
+} from "./collab";
+
+/** ============ Collaboration Client (WebSocket) ============ */
+/**
+ * 공동 편집 서버 연결 (브라우저 전용)
+ * - 방 = 서버 명단 id, 들어가면 서버가 방 상태(snapshot)를 보내 줌
+ * - 연결이 끊기면 3초 뒤 다시 연결 (다시 받은 snapshot으로 맞춤)
+ * - 보낸 연산은 서버가 되돌려 줄 때까지 보관: 끊긴 동안의 편집은 모아 두었다가
+ *   다시 들어가 snapshot을 받으면 다시 보냄 (같은 연산을 두 번 적용해도 결과는 같음)
+ * - 주소: NEXT_PUBLIC_COLLAB_URL, 없으면 같은 호스트의 3001 포트
+ */
+export type CollabStatus = "CONNECTING" | "OPEN" | "CLOSED";
+
+export interface CollabHandlers {
+  onMessage: (msg: ServerMessage) => void;
+  onStatus: (status: CollabStatus) => void;
+}
+
+const RECONNECT_MS = 3000;
+
+export const COLLAB_NAME_KEY = "attendmark:collab-name";
+
+export function collabUrl(): string {
+  if (process.env.NEXT_PUBLIC_COLLAB_URL)
+    return process.env.NEXT_PUBLIC_COLLAB_URL;
+  const { protocol, hostname } = window.location;
+  return `${protocol === "https:" ? "wss" : "ws"}://${hostname}:3001`;
+}
+
+export const newPeerId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export interface CollabSession {
+  newTag: () => string; // 이 세션에서만 쓰는 고유 tag (OR-Set 추가용)
+  send: (ops: CollabOp[]) => void;
+  unconfirmed: () => CollabOp[]; // 서버가 아직 되돌려 주지 않은 내 연산 (보낸 순서)
+  setPresence: (date: string | null) => void;
+  close: () => void;
+}
+
+export function connectCollab(
+  room: string,
+  peer: Omit<CollabPeer, "date">,
+  handlers: CollabHandlers
+): CollabSession {
+  let ws: WebSocket | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let date: string | null = null;
+  let seq = 0;
+  // 이 연결로 방에 들어가 snapshot을 받았는지 (그 전에는 연산을 보내지 않고 모아 둠)
+  let joined = false;
+  // 서버가 아직 되돌려 주지 않은 연산 묶음 (서버는 받은 순서대로 보낸 사람에게도 보냄)
+  const pending: CollabOp[][] = [];
+
+  function post(msg: ClientMessage) {
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  }
+
+  function connect() {
+    handlers.onStatus("CONNECTING");
+    const socket = new WebSocket(collabUrl());
+    ws = socket;
+    joined = false;
+    socket.onopen = () => {
+      post({ type: "hello", room, peer: { ...peer, date } });
+      handlers.onStatus("OPEN");
+    };
+    socket.onmessage = (ev) => {
+      let msg: ServerMessage;
+      try {
+        msg = JSON.parse(String(ev.data)) as ServerMessage;
+      } catch {
+        return; // 형식이 맞지 않는 메시지는 무시
+      }
+      if (msg.type === "snapshot") {
+        // 방 상태 위에 다시 보내고, 화면은 unconfirmed()를 얹은 문서로 맞춤
+        joined = true;
+        for (const ops of pending) post({ type: "ops", ops });
+      } else if (msg.type === "ops" && msg.from === peer.id) pending.shift();
+      handlers.onMessage(msg);
+    };
+    socket.onclose = () => {
+      if (ws === socket) ws = null;
+      joined = false;
+      handlers.onStatus("CLOSED");
+      if (!closed) timer = setTimeout(connect, RECONNECT_MS);
+    };
+  }
+  connect();
+
+  return {
+    newTag: () => `${peer.id}.${++seq}`,
+    send: (ops) => {
+      if (ops.length === 0) return;
+      pending.push(ops);
+      if (joined) post({ type: "ops", ops });
+    },
+    unconfirmed: () => pending.flat(),
+    setPresence: (next) => {
+      if (next === date) return;
+      date = next;
+      post({ type: "presence", date });
+    },
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      ws?.close();
+    },
+  };
+}
@@ -0,0 +1,242 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyOp,
+  diffOps,
+  docFromSnapshot,
+  emptyDoc,
+  stateFromDoc,
+  type CollabDoc,
+  type CollabOp,
+  type ServerMessage,
+} from "./collab";
+import { defaultTrack, newTrack } from "./tracks";
+import { emptyPlannerState, type Entry, type PlannerState } from "./types";
+
+const stateWith = (
+  entries: Entry[],
+  patch: Partial<PlannerState> = {}
+): PlannerState => ({
+  ...emptyPlannerState(),
+  tracks: [defaultTrack(entries)],
+  selectedDates: entries.map((e) => e.date),
+  ...patch,
+});
+
+const tagger = (peer: string) => {
+  let seq = 0;
+  return () => `${peer}.${++seq}`;
+};
+
+const copyDoc = (doc: CollabDoc): CollabDoc => ({
+  elements: new Map(
+    Array.from(doc.elements, ([k, tags]) => [k, new Set(tags)])
+  ),
+  registers: new Map(doc.registers),
+});
+
+const snapshotOf = (
+  doc: CollabDoc
+): Extract<ServerMessage, { type: "snapshot" }> => ({
+  type: "snapshot",
+  fresh: false,
+  elements: Array.from(doc.elements, ([k, tags]) => [k, Array.from(tags)]),
+  registers: Array.from(doc.registers),
+});
+
+/** 로컬 상태를 문서에 반영하고 보낸 연산을 돌려줌 (page의 pushLocal과 같음) */
+const push = (doc: CollabDoc, state: PlannerState, newTag: () => string) => {
+  const ops = diffOps(doc, state, newTag);
+  for (const op of ops) applyOp(doc, op);
+  return ops;
+};
+
+const applyAll = (doc: CollabDoc, ops: CollabOp[]) => {
+  for (const op of ops) applyOp(doc, op);
+};
+
+const namesOf = (state: PlannerState) =>
+  state.tracks[0].entries.map((e) => [e.date, [...e.names].sort()]);
+
+describe("diffOps / stateFromDoc", () => {
+  it("빈 문서에 올린 상태를 그대로 다시 읽음", () => {
+    const state: PlannerState = {
+      ...stateWith([
+        {
+          date: "2026-10-19",
+          names: ["김민수", "이영희"],
+          slots: { 이영희: { kind: "AM" } },
+        },
+        { date: "2026-10-20", names: ["김민수"] },
+      ]),
+      tracks: [
+        defaultTrack([
+          {
+            date: "2026-10-19",
+            names: ["김민수", "이영희"],
+            slots: { 이영희: { kind: "AM" } },
+          },
+          { date: "2026-10-20", names: ["김민수"] },
+        ]),
+        newTrack({ id: "fire", name: "소방", site: "본관", color: "orange" }),
+      ],
+      selectedDates: ["2026-10-19", "2026-10-20", "2026-10-30"],
+      mergeMode: "ALL",
+    };
+    const doc = emptyDoc();
+    push(doc, state, tagger("a"));
+    expect(stateFromDoc(doc, emptyPlannerState())).toEqual(state);
+    // 이미 반영된 상태면 보낼 연산 없음
+    expect(diffOps(doc, state, tagger("a"))).toEqual([]);
+  });
+
+  it("지운 원소는 지금 보이는 tag 모두 삭제, 바뀐 설정만 set", () => {
+    const doc = emptyDoc();
+    const before = stateWith([{ date: "2026-10-19", names: ["가", "나"] }]);
+    push(doc, before, tagger("a"));
+    const ops = diffOps(
+      doc,
+      {
+        ...stateWith([{ date: "2026-10-19", names: ["가"] }]),
+        mergeMode: "ALL",
+      },
+      tagger("a")
+    );
+    expect(ops).toEqual([
+      { t: "remove", key: expect.stringContaining("나"), tags: ["a.3"] },
+      { t: "set", key: expect.stringContaining("mergeMode"), value: '"ALL"' },
+    ]);
+  });
+
+  it("동시에 추가한 이름은 모두 남고, 삭제는 본 tag만 지움", () => {
+    const base = stateWith([{ date: "2026-10-19", names: ["가"] }]);
+    const room = emptyDoc();
+    push(room, base, tagger("a"));
+    const a = copyDoc(room);
+    const b = copyDoc(room);
+    // a: 가를 빼고 나 추가 / b: 같은 날 가를 다시 넣고 다 추가
+    const opsA = push(
+      a,
+      stateWith([{ date: "2026-10-19", names: ["나"] }]),
+      tagger("a2")
+    );
+    const opsB = push(
+      b,
+      stateWith([{ date: "2026-10-19", names: ["가", "다"] }]),
+      tagger("b")
+    );
+    // 서버 순서: A → B
+    applyAll(room, opsA);
+    applyAll(room, opsB);
+    applyAll(a, opsB);
+    applyAll(b, opsA);
+    const result = namesOf(stateFromDoc(room, base));
+    expect(result).toEqual([["2026-10-19", ["나", "다"]]]);
+    expect(namesOf(stateFromDoc(a, base))).toEqual(result);
+    expect(namesOf(stateFromDoc(b, base))).toEqual(result);
+  });
+
+  it("참여 구분은 명단에 있는 이름만, 트랙 정보 없는 명단은 '이름 없음' 트랙", () => {
+    const doc = emptyDoc();
+    push(
+      doc,
+      {
+        ...stateWith([]),
+        tracks: [
+          defaultTrack(),
+          newTrack({
+            id: "fire",
+            name: "소방",
+            entries: [
+              {
+                date: "2026-10-19",
+                names: ["가"],
+                slots: { 가: { kind: "PM" } },
+              },
+            ],
+          }),
+        ],
+      },
+      tagger("a")
+    );
+    // 트랙 목록에서 소방을 지운 문서 + 다른 사람이 남긴 참여 구분
+    applyOp(doc, {
+      t: "set",
+      key: "tracks",
+      value: JSON.stringify([
+        { id: "main", name: "기본", site: "", color: "blue" },
+      ]),
+    });
+    applyOp(doc, {
+      t: "set",
+      key: ["slot", "fire", "2026-10-19", "나"].join("\u001f"),
+      value: JSON.stringify({ kind: "AM" }),
+    });
+    const state = stateFromDoc(doc, {
+      ...emptyPlannerState(),
+      activeTrackId: "fire",
+    });
+    expect(state.tracks.map((t) => [t.id, t.name])).toEqual([
+      ["main", "기본"],
+      ["fire", "이름 없음"],
+    ]);
+    expect(state.tracks[1].entries).toEqual([
+      { date: "2026-10-19", names: ["가"], slots: { 가: { kind: "PM" } } },
+    ]);
+    expect(state.activeTrackId).toBe("fire");
+  });
+
+  it("보고 있는 트랙이 없어졌으면 첫 트랙으로", () => {
+    const doc = emptyDoc();
+    push(doc, stateWith([]), tagger("a"));
+    const state = stateFromDoc(doc, {
+      ...emptyPlannerState(),
+      activeTrackId: "gone",
+    });
+    expect(state.activeTrackId).toBe("main");
+  });
+});
+
+describe("docFromSnapshot", () => {
+  it("다시 들어갈 때 확인받지 못한 연산을 방 상태 위에 얹음", () => {
+    const base = stateWith([{ date: "2026-10-19", names: ["가"] }]);
+    const room = emptyDoc();
+    push(room, base, tagger("a"));
+    const mine = copyDoc(room);
+
+    // 끊긴 동안: 나는 10-19를 비우고 10-20 추가, 다른 사람은 10-21 추가
+    const offline = push(
+      mine,
+      stateWith([{ date: "2026-10-20", names: ["다"] }]),
+      tagger("a2")
+    );
+    applyAll(
+      room,
+      push(
+        copyDoc(room),
+        stateWith([
+          { date: "2026-10-19", names: ["가"] },
+          { date: "2026-10-21", names: ["나"] },
+        ]),
+        tagger("b")
+      )
+    );
+
+    const doc = docFromSnapshot(snapshotOf(room), offline);
+    const merged = stateFromDoc(doc, base);
+    expect(namesOf(merged)).toEqual([
+      ["2026-10-20", ["다"]],
+      ["2026-10-21", ["나"]],
+    ]);
+    expect(merged.selectedDates).toEqual(["2026-10-20", "2026-10-21"]);
+
+    // 같은 연산을 서버에 다시 보내면 방도 같은 상태
+    applyAll(room, offline);
+    expect(stateFromDoc(room, base)).toEqual(merged);
+  });
+
+  it("확인받지 못한 연산이 없으면 방 상태 그대로", () => {
+    const room = emptyDoc();
+    push(room, stateWith([{ date: "2026-10-19", names: ["가"] }]), tagger("a"));
+    expect(docFromSnapshot(snapshotOf(room))).toEqual(room);
+  });
+});
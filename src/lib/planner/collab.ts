@@ -0,0 +1,207 @@
+import type { Slot } from "./slots";
+import { newTrack, type Track } from "./tracks";
+import type { Entry, PlannerState } from "./types";
+
+/** ============ Collaboration Document ============ */
+/**
+ * 실시간 공동 편집용 문서 (server/collab-server.mjs가 같은 규칙으로 방 상태를 유지)
+ * - 명단(트랙·날짜·이름)과 선택 날짜는 OR-Set: 추가마다 고유 tag, 삭제는 본 tag만 지움
+ *   → 동시에 추가한 이름은 모두 남고, 순서와 상관없이 같은 결과
+ * - 설정·참여 구분·트랙 정보는 키별 레지스터: 서버가 받은 순서대로 마지막 값
+ *   (서버는 보낸 사람에게도 다시 보내므로 모두 같은 순서로 적용)
+ * - 보고 있는 트랙(activeTrackId)은 사람마다 다르므로 공유하지 않음
+ */
+export type CollabOp =
+  | { t: "add"; key: string; tag: string }
+  | { t: "remove"; key: string; tags: string[] }
+  | { t: "set"; key: string; value: string | null };
+
+export interface CollabDoc {
+  elements: Map<string, Set<string>>; // key → 살아 있는 tag
+  registers: Map<string, string>; // key → JSON 값
+}
+
+export const emptyDoc = (): CollabDoc => ({
+  elements: new Map(),
+  registers: new Map(),
+});
+
+export function applyOp(doc: CollabDoc, op: CollabOp) {
+  if (op.t === "add") {
+    doc.elements.set(
+      op.key,
+      (doc.elements.get(op.key) ?? new Set()).add(op.tag)
+    );
+  } else if (op.t === "remove") {
+    const tags = doc.elements.get(op.key);
+    if (!tags) return;
+    for (const tag of op.tags) tags.delete(tag);
+    if (tags.size === 0) doc.elements.delete(op.key);
+  } else if (op.value === null) doc.registers.delete(op.key);
+  else doc.registers.set(op.key, op.value);
+}
+
+/** ============ Keys ============ */
+const SEP = "\u001f";
+const key = (...parts: string[]) => parts.join(SEP);
+
+// 공유하는 설정 (레지스터 하나씩)
+const SETTINGS = [
+  "personOverride",
+  "fmt",
+  "mergeMode",
+  "holidays",
+  "workWeek",
+  "people",
+  "rules",
+] as const;
+
+/** 플래너 상태 → 문서에 있어야 할 원소(순서 유지)와 레지스터 */
+function viewOf(state: PlannerState) {
+  const elements: string[] = [];
+  const registers = new Map<string, string>();
+  for (const f of SETTINGS)
+    registers.set(key("set", f), JSON.stringify(state[f]));
+  registers.set(
+    key("tracks"),
+    JSON.stringify(
+      state.tracks.map(({ id, name, site, color }) => ({
+        id,
+        name,
+        site,
+        color,
+      }))
+    )
+  );
+  for (const t of state.tracks) {
+    for (const e of t.entries) {
+      elements.push(key("d", t.id, e.date));
+      for (const n of e.names) elements.push(key("n", t.id, e.date, n));
+      for (const [n, slot] of Object.entries(e.slots ?? {}))
+        registers.set(key("slot", t.id, e.date, n), JSON.stringify(slot));
+    }
+  }
+  for (const d of state.selectedDates) elements.push(key("s", d));
+  return { elements, registers };
+}
+
+/**
+ * 로컬 상태와 문서의 차이 → 보낼 연산
+ * - 새로 생긴 원소는 새 tag로 추가, 사라진 원소는 지금 보이는 tag 모두 삭제
+ */
+export function diffOps(
+  doc: CollabDoc,
+  state: PlannerState,
+  newTag: () => string
+): CollabOp[] {
+  const view = viewOf(state);
+  const ops: CollabOp[] = [];
+  const present = new Set(view.elements);
+  for (const k of present)
+    if (!doc.elements.has(k)) ops.push({ t: "add", key: k, tag: newTag() });
+  for (const [k, tags] of doc.elements)
+    if (!present.has(k))
+      ops.push({ t: "remove", key: k, tags: Array.from(tags) });
+  for (const [k, v] of view.registers)
+    if (doc.registers.get(k) !== v) ops.push({ t: "set", key: k, value: v });
+  for (const k of doc.registers.keys())
+    if (!view.registers.has(k)) ops.push({ t: "set", key: k, value: null });
+  return ops;
+}
+
+/**
+ * 문서 → 플래너 상태 (공유하지 않는 값과 문서에 없는 설정은 base 유지)
+ * - 트랙 정보가 없는 트랙의 명단은 "이름 없음" 트랙으로 보여 줌
+ */
+export function stateFromDoc(doc: CollabDoc, base: PlannerState): PlannerState {
+  const read = <T>(k: string, fallback: T): T => {
+    const v = doc.registers.get(k);
+    return v === undefined ? fallback : (JSON.parse(v) as T);
+  };
+
+  const entries = new Map<string, Map<string, Entry>>(); // 트랙 → 날짜 → 명단
+  const entryOf = (trackId: string, date: string) => {
+    const byDate = entries.get(trackId) ?? new Map<string, Entry>();
+    entries.set(trackId, byDate);
+    const e = byDate.get(date) ?? { date, names: [] };
+    byDate.set(date, e);
+    return e;
+  };
+  const selectedDates: string[] = [];
+  for (const k of doc.elements.keys()) {
+    const [kind, ...rest] = k.split(SEP);
+    if (kind === "d") entryOf(rest[0], rest[1]);
+    else if (kind === "n") entryOf(rest[0], rest[1]).names.push(rest[2]);
+    else if (kind === "s") selectedDates.push(rest[0]);
+  }
+  for (const [k, v] of doc.registers) {
+    const [kind, trackId, date, name] = k.split(SEP);
+    if (kind !== "slot") continue;
+    const e = entries.get(trackId)?.get(date);
+    if (e?.names.includes(name))
+      e.slots = { ...e.slots, [name]: JSON.parse(v) as Slot };
+  }
+
+  const meta = read<Omit<Track, "entries">[]>(key("tracks"), base.tracks);
+  const ids = new Set(meta.map((t) => t.id));
+  const tracks = [
+    ...meta,
+    ...Array.from(entries.keys())
+      .filter((id) => !ids.has(id))
+      .map((id) => newTrack({ id, name: "이름 없음" })),
+  ].map((t) =>
+    newTrack({
+      ...t,
+      entries: Array.from(entries.get(t.id)?.values() ?? []).sort((a, b) =>
+        a.date.localeCompare(b.date)
+      ),
+    })
+  );
+  if (tracks.length === 0) return base;
+
+  const state = { ...base, tracks, selectedDates: selectedDates.sort() };
+  for (const f of SETTINGS)
+    Object.assign(state, { [f]: read(key("set", f), base[f]) });
+  if (!tracks.some((t) => t.id === state.activeTrackId))
+    state.activeTrackId = tracks[0].id;
+  return state;
+}
+
+/** ============ Messages ============ */
+export interface CollabPeer {
+  id: string;
+  name: string;
+  date: string | null; // 편집 중인 날짜
+}
+
+export type ClientMessage =
+  | { type: "hello"; room: string; peer: CollabPeer }
+  | { type: "ops"; ops: CollabOp[] }
+  | { type: "presence"; date: string | null };
+
+export type ServerMessage =
+  | {
+      type: "snapshot";
+      fresh: boolean; // 방이 비어 있었음 (처음 들어온 사람이 자기 명단으로 채움)
+      elements: [string, string[]][];
+      registers: [string, string][];
+    }
+  | { type: "ops"; from: string; ops: CollabOp[] }
+  | { type: "presence"; peers: CollabPeer[] };
+
+/**
+ * snapshot → 문서
+ * - pending: 서버가 아직 받았다고 확인하지 않은 내 연산 (연결이 끊긴 동안의 편집 등)
+ *   → 방 상태 위에 다시 적용해 다시 들어가도 로컬 편집이 남음
+ */
+export function docFromSnapshot(
+  s: Extract<ServerMessage, { type: "snapshot" }>,
+  pending: CollabOp[] = []
+): CollabDoc {
+  const doc: CollabDoc = {
+    elements: new Map(s.elements.map(([k, tags]) => [k, new Set(tags)])),
+    registers: new Map(s.registers),
+  };
+  for (const op of pending) applyOp(doc, op);
+  return doc;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { defaultDateFormat, formatDate, formatRange } from "./date-format";
+import type { DateFormat } from "./types";
+
+const fmt = (patch: Partial<DateFormat> = {}): DateFormat => ({
+  ...defaultDateFormat(),
+  ...patch,
+});
+
+describe("formatDate", () => {
+  it("프리셋 패턴", () => {
+    expect(formatDate("2026-03-05", fmt())).toBe("2026.03.05");
+    expect(formatDate("2026-03-05", fmt({ preset: "M.D." }))).toBe("3.5.");
+    expect(formatDate("2026-03-05", fmt({ preset: "YY.MM.DD" }))).toBe(
+      "26.03.05"
+    );
+    expect(formatDate("2026-10-19", fmt({ preset: "KO" }))).toBe(
+      "10월 19일(월)"
+    );
+  });
+
+  it("요일 옵션과 직접 입력 패턴", () => {
+    expect(formatDate("2026-10-19", fmt({ weekday: true }))).toBe(
+      "2026.10.19(월)"
+    );
+    expect(
+      formatDate(
+        "2027-01-01",
+        fmt({ preset: "CUSTOM", pattern: "YYYY년 M월 D일 dddd" })
+      )
+    ).toBe("2027년 1월 1일 금요일");
+  });
+
+  it("일광 절약 시간 전환일도 그 날짜 그대로", () => {
+    expect(formatDate("2026-09-06", fmt({ weekday: true }))).toBe(
+      "2026.09.06(일)"
+    );
+  });
+});
+
+describe("formatRange", () => {
+  it("같은 날이면 날짜 하나", () => {
+    expect(formatRange("2026-10-19", "2026-10-19", fmt())).toBe("2026.10.19");
+  });
+
+  it("생략 없음(NONE)", () => {
+    expect(formatRange("2026-10-01", "2026-10-03", fmt())).toBe(
+      "2026.10.01~2026.10.03"
+    );
+  });
+
+  it("같은 연도 생략(YEAR): 월 경계는 생략, 연도 경계는 전체 표기", () => {
+    const f = fmt({ rangeCollapse: "YEAR" });
+    expect(formatRange("2026-10-30", "2026-11-02", f)).toBe("2026.10.30~11.02");
+    expect(formatRange("2026-12-30", "2027-01-02", f)).toBe(
+      "2026.12.30~2027.01.02"
+    );
+  });
+
+  it("같은 달 생략(MONTH): 같은 달이면 일만, 다른 달이면 월.일, 다른 해면 전체", () => {
+    const f = fmt({ rangeCollapse: "MONTH" });
+    expect(formatRange("2026-10-01", "2026-10-03", f)).toBe("2026.10.01~03");
+    expect(formatRange("2026-10-31", "2026-11-02", f)).toBe("2026.10.31~11.02");
+    expect(formatRange("2026-12-31", "2027-01-01", f)).toBe(
+      "2026.12.31~2027.01.01"
+    );
+  });
+
+  it("다른 해의 같은 월은 같은 달로 보지 않음", () => {
+    expect(
+      formatRange("2026-10-01", "2027-10-03", fmt({ rangeCollapse: "MONTH" }))
+    ).toBe("2026.10.01~2027.10.03");
+  });
+
+  it("한국어 패턴과 구분 기호", () => {
+    const f = fmt({ preset: "KO", rangeCollapse: "MONTH" });
+    expect(formatRange("2026-10-01", "2026-10-03", f)).toBe(
+      "10월 1일(목)~3일(토)"
+    );
+    expect(
+      formatRange("2026-10-01", "2026-10-03", fmt({ rangeSeparator: " - " }))
+    ).toBe("2026.10.01 - 2026.10.03");
+  });
+
+  it("윤일", () => {
+    expect(
+      formatRange("2024-02-28", "2024-03-01", fmt({ rangeCollapse: "YEAR" }))
+    ).toBe("2024.02.28~03.01");
+  });
+});
@@ -0,0 +1,125 @@
+import { pad, weekdayOf } from "./date";
+import type { DateFormat, DatePreset, RangeCollapse } from "./types";
+
+/** ============ Date Formatter ============ */
+/**
+ * 토큰 기반 날짜 포맷
+ * - YYYY / YY: 연도, MM / M: 월, DD / D: 일, dddd / ddd: 요일 (금요일 / 금)
+ * - 그 외 문자는 그대로 출력
+ */
+const TOKEN = /YYYY|YY|MM|M|DD|D|dddd|ddd/g;
+const WEEKDAYS = ["일", "월", "화", "수", "목", "금", "토"];
+
+export const PRESET_PATTERNS: Record<Exclude<DatePreset, "CUSTOM">, string> = {
+  "YYYY.MM.DD": "YYYY.MM.DD",
+  "MM/DD": "MM/DD",
+  "YYYY-MM-DD": "YYYY-MM-DD",
+  "YY.MM.DD": "YY.MM.DD",
+  "M.D.": "M.D.",
+  KO: "M월 D일(ddd)",
+};
+
+export const PRESET_LABELS: Record<DatePreset, string> = {
+  "YYYY.MM.DD": "YYYY.MM.DD",
+  "MM/DD": "MM/DD",
+  "YYYY-MM-DD": "YYYY-MM-DD",
+  "YY.MM.DD": "YY.MM.DD",
+  "M.D.": "M.D.",
+  KO: "M월 D일(요일)",
+  CUSTOM: "직접 입력",
+};
+
+export const defaultDateFormat = (): DateFormat => ({
+  preset: "YYYY.MM.DD",
+  pattern: "YYYY.MM.DD",
+  weekday: false,
+  rangeSeparator: "~",
+  rangeCollapse: "NONE",
+});
+
+/** 실제 적용할 패턴 (요일 옵션 반영) */
+export function resolvePattern(fmt: DateFormat): string {
+  const base =
+    fmt.preset === "CUSTOM"
+      ? fmt.pattern || "YYYY.MM.DD"
+      : PRESET_PATTERNS[fmt.preset];
+  return fmt.weekday && !/ddd/.test(base) ? `${base}(ddd)` : base;
+}
+
+function applyPattern(iso: string, pattern: string): string {
+  const [y, m, day] = iso.split("-").map(Number);
+  return pattern.replace(TOKEN, (t) => {
+    switch (t) {
+      case "YYYY":
+        return String(y);
+      case "YY":
+        return pad(y % 100);
+      case "MM":
+        return pad(m);
+      case "M":
+        return String(m);
+      case "DD":
+        return pad(day);
+      case "D":
+        return String(day);
+      case "dddd":
+        return `${WEEKDAYS[weekdayOf(iso)]}요일`;
+      default:
+        return WEEKDAYS[weekdayOf(iso)];
+    }
+  });
+}
+
+export const formatDate = (iso: string, fmt: DateFormat) =>
+  applyPattern(iso, resolvePattern(fmt));
+
+/**
+ * 끝 날짜용 패턴: 시작 날짜와 같은 연도(/월)이면 해당 토큰과 붙어 있는 구분 문자를 제거
+ * 예) "YYYY.MM.DD" + 같은 달 → "DD"  → 2026.10.01~03
+ */
+const TOKEN_PART = /^(YYYY|YY|MM|M|DD|D|dddd|ddd)$/;
+const DATE_PART = /^(YYYY|YY|MM|M|DD|D)$/;
+
+function collapsedPattern(pattern: string, drop: RegExp): string {
+  const parts = pattern.split(/(YYYY|YY|MM|M|DD|D|dddd|ddd)/).filter(Boolean);
+  const out: string[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    if (!drop.test(parts[i])) {
+      out.push(parts[i]);
+      continue;
+    }
+    // 뒤에 다른 날짜 토큰이 이어지면 뒤의 구분 문자를, 아니면 앞의 구분 문자를 제거
+    const next = parts[i + 1];
+    const last = out[out.length - 1];
+    if (
+      next !== undefined &&
+      !TOKEN_PART.test(next) &&
+      DATE_PART.test(parts[i + 2] ?? "")
+    )
+      i++;
+    else if (last !== undefined && !TOKEN_PART.test(last)) out.pop();
+  }
+  return out.join("");
+}
+
+const YEAR_TOKEN = /^(YYYY|YY)$/;
+const YEAR_MONTH_TOKEN = /^(YYYY|YY|MM|M)$/;
+
+export function formatRange(
+  startISO: string,
+  endISO: string,
+  fmt: DateFormat
+): string {
+  const pattern = resolvePattern(fmt);
+  const start = applyPattern(startISO, pattern);
+  if (startISO === endISO) return start;
+  const collapse: RangeCollapse = fmt.rangeCollapse;
+  const sameYear = startISO.slice(0, 4) === endISO.slice(0, 4);
+  const sameMonth = sameYear && startISO.slice(5, 7) === endISO.slice(5, 7);
+  let endPattern = pattern;
+  if (collapse === "MONTH" && sameMonth)
+    endPattern = collapsedPattern(pattern, YEAR_MONTH_TOKEN);
+  else if (collapse !== "NONE" && sameYear)
+    endPattern = collapsedPattern(pattern, YEAR_TOKEN);
+  return `${start}${fmt.rangeSeparator}${applyPattern(endISO, endPattern)}`;
+}
@@ -0,0 +1,60 @@
+/** ============ ISO Date Helpers ============ */
+export const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+export const toISO = (d: Date) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+export const fromISO = (iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+/**
+ * 날짜 계산은 UTC 자정 기준 (현지 시간대의 일광 절약 시간 전환과 무관)
+ * - fromISO는 달력 표시용 현지 자정 Date
+ */
+const utcOf = (iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+export const addDays = (iso: string, n: number) => {
+  const d = utcOf(iso);
+  d.setUTCDate(d.getUTCDate() + n);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(
+    d.getUTCDate()
+  )}`;
+};
+/** 요일 (0 = 일요일) */
+export const weekdayOf = (iso: string) => utcOf(iso).getUTCDay();
+export const isNextDay = (a: string, b: string) => addDays(a, 1) === b;
+/** YYYY-MM-DD 형식이면서 실제 있는 날짜인지 (2026-02-30 등 거부) */
+export const isValidISO = (iso: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(iso) && toISO(fromISO(iso)) === iso;
+
+/** a~b 사이 모든 날짜 (양 끝 포함, 순서 무관) */
+export const datesBetween = (a: string, b: string): string[] => {
+  const [from, to] = a <= b ? [a, b] : [b, a];
+  const out: string[] = [];
+  for (let cur = from; cur <= to; cur = addDays(cur, 1)) out.push(cur);
+  return out;
+};
+
+/** ============ Calendar Matrix ============ */
+/** 달력 6주 × 7일 (이전/다음 달 날짜 포함) */
+export function buildCalendarMatrix(
+  year: number,
+  monthIndex: number,
+  weekStart: 0 | 1 = 0
+) {
+  const first = new Date(year, monthIndex, 1);
+  const start = new Date(first);
+  start.setDate(first.getDate() - ((first.getDay() - weekStart + 7) % 7)); // Sun-first / Mon-first
+  const matrix: string[][] = [];
+  const cursor = new Date(start);
+  for (let w = 0; w < 6; w++) {
+    const row: string[] = [];
+    for (let d = 0; d < 7; d++) {
+      row.push(toISO(cursor));
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    matrix.push(row);
+  }
+  return matrix;
+}
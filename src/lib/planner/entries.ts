@@ -0,0 +1,117 @@
+import { unionSlots, type Slot } from "./slots";
+import type { Entry } from "./types";
+
+/** ============ Entry Operations ============ */
+const byDate = (a: Entry, b: Entry) => a.date.localeCompare(b.date);
+
+/** 명단에 남은 이름의 참여 구분만 유지 (없으면 slots 필드 생략) */
+function withSlots(
+  date: string,
+  names: string[],
+  slots: Record<string, Slot> | undefined
+): Entry {
+  const kept = Object.entries(slots ?? {}).filter(([n]) => names.includes(n));
+  return kept.length
+    ? { date, names, slots: Object.fromEntries(kept) }
+    : { date, names };
+}
+
+/**
+ * 날짜별로 이름을 합침 (중복 이름 제거, 날짜 오름차순)
+ * - 양쪽에 있는 이름의 참여 구분은 unionSlots (한쪽이 종일이면 종일)
+ */
+export function mergeEntries(base: Entry[], add: Entry[]): Entry[] {
+  const m = new Map<string, Entry>();
+  for (const e of [...base, ...add]) {
+    const cur = m.get(e.date);
+    const names = Array.from(new Set([...(cur?.names ?? []), ...e.names]));
+    const slots: Record<string, Slot> = {};
+    for (const n of names) {
+      const slot = !cur?.names.includes(n)
+        ? e.slots?.[n]
+        : !e.names.includes(n)
+        ? cur.slots?.[n]
+        : unionSlots(cur.slots?.[n], e.slots?.[n]);
+      if (slot) slots[n] = slot;
+    }
+    m.set(e.date, withSlots(e.date, names, slots));
+  }
+  return Array.from(m.values()).sort(byDate);
+}
+
+/** 여러 날짜에 같은 이름들을 추가 (없는 날짜는 새로 만듦, 이미 있는 이름의 참여 구분은 유지) */
+export function addNamesToDates(
+  entries: Entry[],
+  dates: string[],
+  names: string[]
+): Entry[] {
+  const present = new Map(entries.map((e) => [e.date, e.names]));
+  return mergeEntries(
+    entries,
+    dates.map((date) => ({
+      date,
+      names: names.filter((n) => !present.get(date)?.includes(n)),
+    }))
+  );
+}
+
+/** 여러 날짜에서 같은 이름들을 제거 (날짜 자체는 유지) */
+export function removeNamesFromDates(
+  entries: Entry[],
+  dates: string[],
+  names: string[]
+): Entry[] {
+  const targets = new Set(dates);
+  const drop = new Set(names);
+  return entries.map((e) =>
+    targets.has(e.date)
+      ? withSlots(
+          e.date,
+          e.names.filter((n) => !drop.has(n)),
+          e.slots
+        )
+      : e
+  );
+}
+
+/** 이름 바꾸기 (명부에서 표시 이름이 바뀐 경우): 이전 이름 → 새 이름 */
+export function renameNames(
+  entries: Entry[],
+  renames: Map<string, string>
+): Entry[] {
+  if (renames.size === 0) return entries;
+  return entries.map((e) =>
+    withSlots(
+      e.date,
+      Array.from(new Set(e.names.map((n) => renames.get(n) ?? n))),
+      e.slots && renameKeys(e.slots, renames)
+    )
+  );
+}
+
+/** 한 날짜·한 인원의 참여 구분 바꾸기 (undefined = 종일) */
+export function setSlot(
+  entries: Entry[],
+  date: string,
+  name: string,
+  slot: Slot | undefined
+): Entry[] {
+  return entries.map((e) => {
+    if (e.date !== date) return e;
+    const rest = Object.fromEntries(
+      Object.entries(e.slots ?? {}).filter(([n]) => n !== name)
+    );
+    return withSlots(e.date, e.names, slot ? { ...rest, [name]: slot } : rest);
+  });
+}
+
+/** 이름을 키로 쓰는 설정(개인 공백일, 개인 근무 요일)의 키 바꾸기 */
+export function renameKeys<T>(
+  record: Record<string, T>,
+  renames: Map<string, string>
+): Record<string, T> {
+  if (renames.size === 0) return record;
+  return Object.fromEntries(
+    Object.entries(record).map(([k, v]) => [renames.get(k) ?? k, v])
+  );
+}
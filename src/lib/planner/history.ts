@@ -0,0 +1,52 @@
+import type { Track } from "./tracks";
+import type { PersonOverride } from "./types";
+
+/** ============ Undo / Redo History ============ */
+/** 되돌리기 대상: 명단 편집 결과 (표기 형식 등 설정은 제외) */
+export interface RosterSnapshot {
+  tracks: Track[]; // 트랙 추가/삭제와 트랙별 명단
+  selectedDates: string[];
+  personOverride: PersonOverride;
+}
+
+export interface History {
+  past: RosterSnapshot[]; // 오래된 것 → 최근 것
+  future: RosterSnapshot[]; // 다시 실행할 것 (가장 가까운 것이 마지막)
+}
+
+/** 보관할 최대 단계 수 (새로고침 후에도 유지되므로 저장 용량 고려) */
+export const HISTORY_LIMIT = 50;
+
+export const emptyHistory = (): History => ({ past: [], future: [] });
+
+/** 변경 직전 상태를 기록 (새 편집이 생기면 다시 실행 목록은 비움) */
+export function pushHistory(h: History, before: RosterSnapshot): History {
+  return { past: [...h.past, before].slice(-HISTORY_LIMIT), future: [] };
+}
+
+export function undoHistory(
+  h: History,
+  current: RosterSnapshot
+): { history: History; snapshot: RosterSnapshot } | null {
+  const snapshot = h.past[h.past.length - 1];
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    history: { past: h.past.slice(0, -1), future: [...h.future, current] },
+  };
+}
+
+export function redoHistory(
+  h: History,
+  current: RosterSnapshot
+): { history: History; snapshot: RosterSnapshot } | null {
+  const snapshot = h.future[h.future.length - 1];
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    history: {
+      past: [...h.past, current].slice(-HISTORY_LIMIT),
+      future: h.future.slice(0, -1),
+    },
+  };
+}
@@ -0,0 +1,193 @@
+import Holidays from "date-holidays";
+import { addDays, fromISO, toISO } from "./date";
+
+/** ============ Holiday Calendar ============ */
+/**
+ * 공휴일 판정 = (국가/지역 공휴일 + 대체공휴일 − 근무일 지정) + 회사 휴무일
+ * - 달력 색상(isRedDay)과 RED 공백일 모드가 모두 이 달력을 사용
+ */
+export interface Closure {
+  date: string; // ISO
+  name: string;
+}
+
+export interface HolidaySettings {
+  country: string; // date-holidays 국가 코드 (예: "KR")
+  region: string; // 지역 코드 ("" = 전국)
+  substitute: boolean; // 대체공휴일 자동 계산 (KR 전용)
+  closures: Closure[]; // 회사 휴무일 / 임시공휴일
+  workingDays: string[]; // 공휴일이지만 근무하는 날 (ISO)
+}
+
+export const defaultHolidaySettings = (): HolidaySettings => ({
+  country: "KR",
+  region: "",
+  substitute: true,
+  closures: [],
+  workingDays: [],
+});
+
+export interface HolidayCalendar {
+  isHoliday(iso: string): boolean;
+  /** 툴팁 표시용 이름 (공휴일이 아니면 null) */
+  holidayName(iso: string): string | null;
+}
+
+// 국가/지역별 date-holidays 인스턴스 캐시
+const instances = new Map<string, Holidays>();
+function getInstance(country: string, region: string): Holidays {
+  const key = `${country}|${region}`;
+  let hd = instances.get(key);
+  if (!hd) {
+    hd = region ? new Holidays(country, region) : new Holidays(country);
+    instances.set(key, hd);
+  }
+  return hd;
+}
+
+export function listCountries(): { code: string; name: string }[] {
+  const all = new Holidays().getCountries("ko");
+  return Object.entries(all)
+    .map(([code, name]) => ({ code, name }))
+    .sort((a, b) => a.name.localeCompare(b.name, "ko"));
+}
+
+export function listRegions(country: string): { code: string; name: string }[] {
+  const states = new Holidays().getStates(country, "ko") ?? {};
+  return Object.entries(states).map(([code, name]) => ({ code, name }));
+}
+
+const LUNAR_HOLIDAYS = ["설날", "추석"];
+
+/**
+ * 연도별 국가 공휴일 (ISO → 이름)
+ * - 공휴일(public)만: 기념일·행사일(observance 등)은 빨간 날이 아님
+ * - 날짜는 date-holidays의 date 문자열(해당 국가 시간대)을 그대로 사용 (실행 환경 시간대와 무관)
+ * - 여러 날 공휴일은 start~end 일수만큼 펼침 (전년도에서 이어지는 연휴 포함)
+ * - KR 설날·추석: date-holidays는 당일부터 사흘로 계산하므로 하루씩 앞당김 (전날·당일·다음날)
+ */
+function nationalHolidaysOf(
+  hd: Holidays,
+  year: number,
+  country: string
+): Map<string, string[]> {
+  const out = new Map<string, string[]>();
+  for (const h of [...hd.getHolidays(year - 1), ...hd.getHolidays(year)]) {
+    if (h.type !== "public") continue;
+    const lunar = country === "KR" && LUNAR_HOLIDAYS.includes(h.name);
+    const first = addDays(h.date.slice(0, 10), lunar ? -1 : 0);
+    const days = Math.max(
+      1,
+      Math.round((h.end.getTime() - h.start.getTime()) / 86400000)
+    );
+    for (let i = 0; i < days; i++) {
+      const iso = addDays(first, i);
+      if (!iso.startsWith(`${year}`)) continue;
+      const names = out.get(iso) ?? [];
+      if (!names.includes(h.name)) out.set(iso, [...names, h.name]);
+    }
+  }
+  return new Map(Array.from(out).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * 대체공휴일 (관공서의 공휴일에 관한 규정 기준)
+ * - 설날·추석 연휴: 일요일 또는 다른 공휴일과 겹치면
+ * - 3·1절, 어린이날, 광복절, 개천절, 한글날, 부처님오신날, 성탄절: 토·일요일 또는 다른 공휴일과 겹치면
+ * → 그 다음 첫 번째 비공휴일(평일)을 공휴일로 지정
+ */
+const SUBSTITUTE_HOLIDAYS = [
+  "3·1절",
+  "어린이날",
+  "광복절",
+  "개천절",
+  "한글날",
+  "석가탄신일",
+  "기독탄신일",
+];
+
+function koreanSubstitutes(
+  national: Map<string, string[]>
+): Map<string, string> {
+  const out = new Map<string, string>();
+  const isOff = (iso: string) => {
+    const day = fromISO(iso).getDay();
+    return day === 0 || day === 6 || national.has(iso) || out.has(iso);
+  };
+  for (const [iso, names] of national) {
+    const day = fromISO(iso).getDay();
+    for (const name of names) {
+      const lunar = LUNAR_HOLIDAYS.includes(name);
+      if (!lunar && !SUBSTITUTE_HOLIDAYS.includes(name)) continue;
+      const weekend = lunar ? day === 0 : day === 0 || day === 6;
+      const overlap = names.length > 1 && names.indexOf(name) > 0;
+      if (!weekend && !overlap) continue;
+      let next = addDays(iso, 1);
+      while (isOff(next)) next = addDays(next, 1);
+      out.set(next, `대체공휴일(${name})`);
+    }
+  }
+  return out;
+}
+
+export function createHolidayCalendar(
+  settings: HolidaySettings
+): HolidayCalendar {
+  const hd = getInstance(settings.country, settings.region);
+  const closures = new Map(settings.closures.map((c) => [c.date, c.name]));
+  const working = new Set(settings.workingDays);
+  // 연도별 공휴일 캐시 (국가 공휴일 + 대체공휴일)
+  const years = new Map<number, Map<string, string>>();
+
+  function yearHolidays(year: number): Map<string, string> {
+    let m = years.get(year);
+    if (m) return m;
+    const national = nationalHolidaysOf(hd, year, settings.country);
+    m = new Map(
+      Array.from(national, ([iso, names]) => [iso, names.join(", ")])
+    );
+    if (settings.substitute && settings.country === "KR") {
+      for (const [iso, name] of koreanSubstitutes(national)) m.set(iso, name);
+    }
+    years.set(year, m);
+    return m;
+  }
+
+  function holidayName(iso: string): string | null {
+    const closure = closures.get(iso);
+    if (closure !== undefined) return closure || "휴무일";
+    if (working.has(iso)) return null;
+    return yearHolidays(Number(iso.slice(0, 4))).get(iso) ?? null;
+  }
+
+  return {
+    isHoliday: (iso) => holidayName(iso) !== null,
+    holidayName,
+  };
+}
+
+/** 달력 빨간 날: 일요일 또는 공휴일(휴무일 포함) */
+export function isRedDay(iso: string, cal: HolidayCalendar): boolean {
+  return fromISO(iso).getDay() === 0 || cal.isHoliday(iso);
+}
+
+/** 설정 화면용: 해당 연도의 국가 공휴일 + 대체공휴일 목록 (근무일 지정 무시) */
+export function listYearHolidays(
+  settings: HolidaySettings,
+  year: number
+): Closure[] {
+  const cal = createHolidayCalendar({
+    ...settings,
+    closures: [],
+    workingDays: [],
+  });
+  const out: Closure[] = [];
+  const d = new Date(year, 0, 1);
+  while (d.getFullYear() === year) {
+    const iso = toISO(d);
+    const name = cal.holidayName(iso);
+    if (name) out.push({ date: iso, name });
+    d.setDate(d.getDate() + 1);
+  }
+  return out;
+}
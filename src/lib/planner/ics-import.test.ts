@@ -0,0 +1,314 @@
+import { describe, expect, it } from "vitest";
+import {
+  guessNames,
+  icsNameKeys,
+  icsToEntries,
+  parseIcs,
+  recurrenceStarts,
+  type IcsEvent,
+} from "./ics-import";
+import { newPerson } from "./people";
+
+const calendar = (...events: string[][]) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "X-WR-CALNAME:점검 일정",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+const event = (patch: Partial<IcsEvent>): IcsEvent => ({
+  uid: "e",
+  summary: "",
+  attendees: [],
+  start: "2026-10-01",
+  end: patch.start ?? "2026-10-01",
+  rrule: null,
+  exdates: [],
+  line: 1,
+  ...patch,
+});
+
+describe("parseIcs", () => {
+  it("iCalendar가 아니면 문제로 알림", () => {
+    expect(parseIcs("hello").issues).toEqual([
+      { row: 1, message: "iCalendar(.ics) 파일이 아닙니다." },
+    ]);
+  });
+
+  it("종일 일정의 DTEND는 다음날이므로 하루 뺌", () => {
+    const { calendarName, events } = parseIcs(
+      calendar([
+        "UID:a",
+        "SUMMARY:김민수\\, 이영희",
+        "DTSTART;VALUE=DATE:20261001",
+        "DTEND;VALUE=DATE:20261003",
+      ])
+    );
+    expect(calendarName).toBe("점검 일정");
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      uid: "a",
+      summary: "김민수, 이영희",
+      start: "2026-10-01",
+      end: "2026-10-02",
+      line: 4,
+    });
+  });
+
+  it("시간 일정: 자정에 끝나면 그 날은 포함하지 않음, DURATION 지원", () => {
+    const { events } = parseIcs(
+      calendar(
+        [
+          "UID:a",
+          "DTSTART;TZID=Asia/Seoul:20261001T220000",
+          "DTEND;TZID=Asia/Seoul:20261002T000000",
+        ],
+        ["UID:b", "DTSTART;VALUE=DATE:20261005", "DURATION:P3D"],
+        ["UID:c", "DTSTART;TZID=Asia/Seoul:20261001T090000", "DURATION:PT2H"]
+      )
+    );
+    expect(events.map((e) => [e.uid, e.start, e.end])).toEqual([
+      ["a", "2026-10-01", "2026-10-01"],
+      ["b", "2026-10-05", "2026-10-07"],
+      ["c", "2026-10-01", "2026-10-01"],
+    ]);
+  });
+
+  it("접힌 줄, 따옴표 안의 : ; 가 있는 참석자", () => {
+    const { events } = parseIcs(
+      calendar([
+        "UID:a",
+        "DTSTART;VALUE=DATE:20261001",
+        'ATTENDEE;CN="이영희; 안전팀";ROLE=REQ-PARTICIPANT:mailto:yh@ex',
+        " ample.com",
+        "ATTENDEE:mailto:minsu.kim@example.com",
+      ])
+    );
+    expect(events[0].attendees).toEqual(["이영희; 안전팀", "minsu.kim"]);
+  });
+
+  it("알림(VALARM) 속성은 일정에 섞이지 않음", () => {
+    const { events } = parseIcs(
+      calendar([
+        "UID:a",
+        "SUMMARY:점검",
+        "DTSTART;VALUE=DATE:20261001",
+        "BEGIN:VALARM",
+        "SUMMARY:알림",
+        "END:VALARM",
+      ])
+    );
+    expect(events[0].summary).toBe("점검");
+  });
+
+  it("취소된 일정은 빼고, 시작일이 없으면 문제 행으로 알림", () => {
+    const { events, issues } = parseIcs(
+      calendar(
+        ["UID:a", "STATUS:CANCELLED", "DTSTART;VALUE=DATE:20261001"],
+        ["UID:b", "SUMMARY:시작 없음"]
+      )
+    );
+    expect(events).toEqual([]);
+    expect(issues).toEqual([
+      { row: 9, message: "시작일(DTSTART)을 읽을 수 없음" },
+    ]);
+  });
+
+  it("수정·취소된 반복 회차는 원래 회차를 EXDATE로 뺌", () => {
+    const { events } = parseIcs(
+      calendar(
+        [
+          "UID:r",
+          "DTSTART;VALUE=DATE:20261005",
+          "RRULE:FREQ=WEEKLY;COUNT=3",
+          "EXDATE;VALUE=DATE:20261012",
+        ],
+        [
+          "UID:r",
+          "RECURRENCE-ID;VALUE=DATE:20261019",
+          "DTSTART;VALUE=DATE:20261020",
+        ]
+      )
+    );
+    expect(events.map((e) => [e.start, e.rrule?.FREQ ?? null])).toEqual([
+      ["2026-10-05", "WEEKLY"],
+      ["2026-10-20", null],
+    ]);
+    expect(events[0].exdates.sort()).toEqual(["2026-10-12", "2026-10-19"]);
+  });
+});
+
+describe("recurrenceStarts", () => {
+  const starts = (rrule: Record<string, string>, patch = {}) =>
+    recurrenceStarts(event({ rrule, ...patch }), "2027-12-31").starts;
+
+  it("DAILY + INTERVAL + COUNT", () => {
+    expect(starts({ FREQ: "DAILY", INTERVAL: "2", COUNT: "3" })).toEqual([
+      "2026-10-01",
+      "2026-10-03",
+      "2026-10-05",
+    ]);
+  });
+
+  it("WEEKLY + BYDAY + UNTIL, 월·연도 경계", () => {
+    expect(
+      starts(
+        { FREQ: "WEEKLY", BYDAY: "MO,TH", UNTIL: "20270108" },
+        { start: "2026-12-24" }
+      )
+    ).toEqual([
+      "2026-12-24",
+      "2026-12-28",
+      "2026-12-31",
+      "2027-01-04",
+      "2027-01-07",
+    ]);
+  });
+
+  it("격주 WEEKLY는 시작 주 기준", () => {
+    expect(
+      starts(
+        { FREQ: "WEEKLY", INTERVAL: "2", COUNT: "3" },
+        { start: "2026-10-02" }
+      )
+    ).toEqual(["2026-10-02", "2026-10-16", "2026-10-30"]);
+  });
+
+  it("MONTHLY: 같은 날짜 / 마지막 금요일 / 말일", () => {
+    expect(
+      starts({ FREQ: "MONTHLY", COUNT: "3" }, { start: "2026-11-15" })
+    ).toEqual(["2026-11-15", "2026-12-15", "2027-01-15"]);
+    expect(
+      starts(
+        { FREQ: "MONTHLY", BYDAY: "-1FR", COUNT: "3" },
+        { start: "2026-10-30" }
+      )
+    ).toEqual(["2026-10-30", "2026-11-27", "2026-12-25"]);
+    expect(
+      starts(
+        { FREQ: "MONTHLY", BYMONTHDAY: "-1", COUNT: "3" },
+        { start: "2027-01-31" }
+      )
+    ).toEqual(["2027-01-31", "2027-02-28", "2027-03-31"]);
+  });
+
+  it("YEARLY는 같은 월·일만 (윤일은 윤년에만)", () => {
+    expect(
+      recurrenceStarts(
+        event({ start: "2024-02-29", rrule: { FREQ: "YEARLY", COUNT: "2" } }),
+        "2030-12-31"
+      ).starts
+    ).toEqual(["2024-02-29", "2028-02-29"]);
+  });
+
+  it("EXDATE 회차는 빼지만 COUNT에는 셈", () => {
+    expect(
+      starts({ FREQ: "DAILY", COUNT: "3" }, { exdates: ["2026-10-02"] })
+    ).toEqual(["2026-10-01", "2026-10-03"]);
+  });
+
+  it("종료 조건이 없으면 horizon까지", () => {
+    expect(
+      recurrenceStarts(event({ rrule: { FREQ: "WEEKLY" } }), "2026-10-20")
+        .starts
+    ).toEqual(["2026-10-01", "2026-10-08", "2026-10-15"]);
+  });
+
+  it("지원하지 않는 주기는 첫 회차만", () => {
+    expect(
+      recurrenceStarts(event({ rrule: { FREQ: "HOURLY" } }), "2026-12-31")
+    ).toEqual({ starts: ["2026-10-01"], unsupported: true });
+  });
+});
+
+describe("이름 매핑", () => {
+  it("매핑할 값 목록과 이름 추측", () => {
+    const events = [
+      event({ summary: "정기 점검", attendees: ["b", "a"] }),
+      event({ summary: "이영희", attendees: ["a"] }),
+    ];
+    expect(icsNameKeys(events, "SUMMARY")).toEqual(["이영희", "정기 점검"]);
+    expect(icsNameKeys(events, "ATTENDEE")).toEqual(["a", "b"]);
+    expect(guessNames("김민수/이영희 현장점검", ["이영희", "김민수"])).toBe(
+      "이영희, 김민수"
+    );
+    expect(guessNames("현장 점검", ["이영희"])).toBe("");
+    expect(guessNames(" 박철수 ", [])).toBe("박철수");
+  });
+});
+
+describe("icsToEntries", () => {
+  it("여러 날·반복 일정을 펼치고 기간으로 자름", () => {
+    const events = [
+      event({ summary: "점검", start: "2026-10-01", end: "2026-10-02" }),
+      event({
+        summary: "당직",
+        start: "2026-10-05",
+        rrule: { FREQ: "WEEKLY", COUNT: "4" },
+        line: 9,
+      }),
+    ];
+    const r = icsToEntries(events, {
+      source: "SUMMARY",
+      mapping: { 점검: "김민수, 이영희", 당직: "박철수" },
+      from: "2026-10-02",
+      to: "2026-10-19",
+    });
+    expect(r.entries).toEqual([
+      { date: "2026-10-02", names: ["김민수", "이영희"] },
+      { date: "2026-10-05", names: ["박철수"] },
+      { date: "2026-10-12", names: ["박철수"] },
+      { date: "2026-10-19", names: ["박철수"] },
+    ]);
+    expect(r.issues).toEqual([]);
+  });
+
+  it("비운 매핑은 가져오지 않고, 끝없는 반복은 1년치만 가져온다고 알림", () => {
+    const r = icsToEntries(
+      [
+        event({ summary: "휴가" }),
+        event({ summary: "당직", rrule: { FREQ: "MONTHLY" }, line: 12 }),
+      ],
+      { source: "SUMMARY", mapping: { 휴가: "", 당직: "박철수" } }
+    );
+    expect(r.entries).toHaveLength(13);
+    expect(r.issues).toEqual([
+      {
+        row: 12,
+        message: '"당직" 반복 종료일이 없어 1년치만 가져옴 (기간을 지정하세요)',
+      },
+    ]);
+  });
+
+  it("매핑한 이름을 명부 표시 이름으로 맞추고, 동명이인은 한 번만 알림", () => {
+    const people = [
+      newPerson({ id: "a", name: "김민수", department: "영업팀" }),
+      newPerson({ id: "b", name: "김민수", department: "개발팀" }),
+      newPerson({ id: "c", name: "이영희" }),
+    ];
+    const r = icsToEntries(
+      [
+        event({ attendees: ["yh", "ms"], line: 4 }),
+        event({ start: "2026-10-02", attendees: ["yh", "ms"], line: 11 }),
+      ],
+      {
+        source: "ATTENDEE",
+        mapping: { yh: "이 영희", ms: "김민수" },
+        people,
+      }
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-01", names: ["이영희"] },
+      { date: "2026-10-02", names: ["이영희"] },
+    ]);
+    expect(r.issues).toEqual([
+      {
+        row: 4,
+        message:
+          '동명이인 "김민수" 제외됨: 김민수(영업팀), 김민수(개발팀) 중 하나로 입력하세요',
+      },
+    ]);
+  });
+});
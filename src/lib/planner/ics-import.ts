@@ -0,0 +1,433 @@
+import { addDays, datesBetween, fromISO, pad, toISO } from "./date";
+import type { Person } from "./people";
+import {
+  importNames,
+  pairsToEntries,
+  type ImportIssue,
+  type ImportResult,
+} from "./roster-import";
+
+/** ============ ICS Import ============ */
+/**
+ * .ics 파일 → 일정 목록 → (이름 매핑) → Entry[]
+ * - 여러 날 일정은 모든 날짜로, 반복 일정(RRULE)은 각 회차로 펼침
+ * - 종일 일정의 DTEND는 다음날이므로 하루 빼서 마지막 날로 계산
+ * - 반복 중 수정/취소된 회차(RECURRENCE-ID)는 원래 회차를 빼고 수정본을 사용
+ */
+export type IcsNameSource = "SUMMARY" | "ATTENDEE";
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  attendees: string[]; // CN 또는 메일 주소 앞부분
+  start: string; // 첫 날 (ISO)
+  end: string; // 마지막 날 (ISO, 포함)
+  rrule: Record<string, string> | null;
+  exdates: string[];
+  line: number; // BEGIN:VEVENT 줄 번호 (1-based)
+}
+
+export interface IcsParseResult {
+  calendarName: string;
+  events: IcsEvent[];
+  issues: ImportIssue[];
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** 접힌 줄 펴기 (원래 줄 번호 유지) */
+function unfold(text: string): { line: number; text: string }[] {
+  const out: { line: number; text: string }[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (/^[ \t]/.test(raw) && out.length > 0)
+      out[out.length - 1].text += raw.slice(1);
+    else if (raw) out.push({ line: i + 1, text: raw });
+  });
+  return out;
+}
+
+/** NAME;PARAM=a;PARAM="b:c":value → 속성 (따옴표 안의 ; : 허용) */
+function parseProperty(line: string): Property | null {
+  let i = 0;
+  let quoted = false;
+  const parts: string[] = [];
+  let cur = "";
+  for (; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === ";" || ch === ":")) {
+      parts.push(cur);
+      cur = "";
+      if (ch === ":") break;
+      continue;
+    }
+    cur += ch;
+  }
+  if (i >= line.length) return null;
+  const [name, ...paramList] = parts;
+  const params: Record<string, string> = {};
+  for (const p of paramList) {
+    const eq = p.indexOf("=");
+    if (eq > 0)
+      params[p.slice(0, eq).toUpperCase()] = p
+        .slice(eq + 1)
+        .replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+}
+
+const unescapeText = (s: string) =>
+  s.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === "n" || c === "N" ? "\n" : c
+  );
+
+/**
+ * 날짜/일시 값 → ISO 날짜
+ * - UTC(…Z) 일시는 브라우저 시간대의 날짜로, TZID 일시는 적힌 날짜 그대로 사용
+ * - midnight: 00:00 일시 (끝 시각이면 그 날은 포함하지 않음)
+ */
+function parseDateValue(
+  value: string
+): { iso: string; timed: boolean; midnight: boolean } | null {
+  const m = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return null;
+  const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const timed = m[4] !== undefined;
+  const [h, mi, s] = timed ? [Number(m[4]), Number(m[5]), Number(m[6])] : [];
+  if (m[7]) {
+    const local = new Date(Date.UTC(y, mo - 1, d, h, mi, s));
+    return {
+      iso: toISO(local),
+      timed,
+      midnight: local.getHours() === 0 && local.getMinutes() === 0,
+    };
+  }
+  const date = new Date(y, mo - 1, d);
+  if (date.getMonth() !== mo - 1 || date.getDate() !== d) return null;
+  return {
+    iso: `${y}-${pad(mo)}-${pad(d)}`,
+    timed,
+    midnight: timed && h === 0 && mi === 0 && s === 0,
+  };
+}
+
+/** DURATION → 일 수 (P2D, P1W, P1DT2H …; 시간 부분은 무시) */
+function durationDays(value: string): number | null {
+  const m = value.match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T[\dHMS]*)?$/);
+  if (!m) return null;
+  return Number(m[1] ?? 0) * 7 + Number(m[2] ?? 0);
+}
+
+/** 참석자 이름: CN이 있으면 CN, 없으면 메일 주소 앞부분 */
+function attendeeName(p: Property): string {
+  if (p.params.CN) return p.params.CN.trim();
+  return p.value
+    .replace(/^mailto:/i, "")
+    .split("@")[0]
+    .trim();
+}
+
+export function parseIcs(text: string): IcsParseResult {
+  const lines = unfold(text);
+  const issues: ImportIssue[] = [];
+  const events: IcsEvent[] = [];
+  // 수정/취소된 반복 회차: UID → 원래 회차 날짜
+  const overridden = new Map<string, string[]>();
+  let calendarName = "";
+
+  if (!lines.some((l) => l.text.toUpperCase() === "BEGIN:VCALENDAR"))
+    return {
+      calendarName,
+      events,
+      issues: [{ row: 1, message: "iCalendar(.ics) 파일이 아닙니다." }],
+    };
+
+  let props: Property[] | null = null;
+  let startLine = 0;
+  let depth = 0; // VEVENT 안의 VALARM 등 하위 구성요소
+  for (const { line, text: raw } of lines) {
+    const upper = raw.toUpperCase();
+    if (props === null) {
+      if (upper === "BEGIN:VEVENT") {
+        props = [];
+        startLine = line;
+      } else if (upper.startsWith("X-WR-CALNAME")) {
+        calendarName = unescapeText(parseProperty(raw)?.value ?? "");
+      }
+      continue;
+    }
+    if (upper.startsWith("BEGIN:")) depth++;
+    else if (upper.startsWith("END:") && depth > 0) depth--;
+    else if (upper === "END:VEVENT") {
+      const ev = toEvent(props, startLine, issues, overridden);
+      if (ev) events.push(ev);
+      props = null;
+    } else if (depth === 0) {
+      const p = parseProperty(raw);
+      if (p) props.push(p);
+    }
+  }
+
+  for (const ev of events) {
+    if (ev.rrule) ev.exdates.push(...(overridden.get(ev.uid) ?? []));
+  }
+  return { calendarName, events, issues };
+}
+
+function toEvent(
+  props: Property[],
+  line: number,
+  issues: ImportIssue[],
+  overridden: Map<string, string[]>
+): IcsEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const uid = get("UID")?.value ?? `line-${line}`;
+
+  const recurrenceId = get("RECURRENCE-ID");
+  if (recurrenceId) {
+    const iso = parseDateValue(recurrenceId.value)?.iso;
+    if (iso) overridden.set(uid, [...(overridden.get(uid) ?? []), iso]);
+  }
+  if (get("STATUS")?.value.toUpperCase() === "CANCELLED") return null;
+
+  const dtstart = get("DTSTART");
+  const start = dtstart ? parseDateValue(dtstart.value) : null;
+  if (!start) {
+    issues.push({ row: line, message: "시작일(DTSTART)을 읽을 수 없음" });
+    return null;
+  }
+
+  let end = start.iso;
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  if (dtend) {
+    const e = parseDateValue(dtend.value);
+    if (e && (!e.timed || e.midnight)) end = addDays(e.iso, -1);
+    else if (e) end = e.iso;
+  } else if (duration) {
+    const days = durationDays(duration.value) ?? 0;
+    end = addDays(start.iso, start.timed ? days : days - 1);
+  }
+  if (end < start.iso) end = start.iso;
+
+  const rruleProp = get("RRULE");
+  const rrule = rruleProp
+    ? Object.fromEntries(
+        rruleProp.value.split(";").map((kv) => {
+          const [k, v = ""] = kv.split("=");
+          return [k.toUpperCase(), v.toUpperCase()];
+        })
+      )
+    : null;
+
+  const exdates = props
+    .filter((p) => p.name === "EXDATE")
+    .flatMap((p) => p.value.split(","))
+    .map((v) => parseDateValue(v)?.iso)
+    .filter((v): v is string => !!v);
+
+  return {
+    uid,
+    summary: unescapeText(get("SUMMARY")?.value ?? "").trim(),
+    attendees: props.filter((p) => p.name === "ATTENDEE").map(attendeeName),
+    start: start.iso,
+    end,
+    rrule,
+    exdates,
+    line,
+  };
+}
+
+/** ============ Recurrence ============ */
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const RECURRENCE_LIMIT_DAYS = 366 * 5; // 종료 조건이 없어도 5년 이상 펼치지 않음
+
+const daysBetween = (a: string, b: string) =>
+  Math.round((fromISO(b).getTime() - fromISO(a).getTime()) / 86400000);
+
+/** 월요일 기준 주 시작일 */
+const weekOf = (iso: string) =>
+  addDays(iso, -((fromISO(iso).getDay() + 6) % 7));
+
+/** BYDAY 항목(예: MO, 2TU, -1FR)이 그 달의 해당 날짜와 맞는지 */
+function matchesByDay(rule: string, d: Date): boolean {
+  const m = rule.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!m || WEEKDAY_CODES.indexOf(m[2]) !== d.getDay()) return false;
+  if (!m[1]) return true;
+  const n = Number(m[1]);
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  return n > 0
+    ? Math.ceil(d.getDate() / 7) === n
+    : Math.ceil((lastDay - d.getDate() + 1) / 7) === -n;
+}
+
+function matchesByMonthDay(list: number[], d: Date): boolean {
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  return list.some((n) => (n > 0 ? n : lastDay + n + 1) === d.getDate());
+}
+
+/**
+ * 반복 일정의 회차 시작일
+ * - FREQ=DAILY/WEEKLY/MONTHLY/YEARLY + INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY, BYMONTH
+ * - horizon: 종료 조건이 없는 반복을 어디까지 펼칠지
+ */
+export function recurrenceStarts(
+  ev: IcsEvent,
+  horizon: string
+): { starts: string[]; unsupported: boolean } {
+  const r = ev.rrule!;
+  const freq = r.FREQ;
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq))
+    return { starts: [ev.start], unsupported: true };
+
+  const interval = Math.max(1, Number(r.INTERVAL) || 1);
+  const count = r.COUNT ? Number(r.COUNT) : Infinity;
+  const until = r.UNTIL ? parseDateValue(r.UNTIL)?.iso : undefined;
+  const byDay = r.BYDAY ? r.BYDAY.split(",") : null;
+  const byMonthDay = r.BYMONTHDAY ? r.BYMONTHDAY.split(",").map(Number) : null;
+  const byMonth = r.BYMONTH ? r.BYMONTH.split(",").map(Number) : null;
+  const first = fromISO(ev.start);
+  const exdates = new Set(ev.exdates);
+
+  const matches = (iso: string): boolean => {
+    const d = fromISO(iso);
+    const months =
+      (d.getFullYear() - first.getFullYear()) * 12 +
+      d.getMonth() -
+      first.getMonth();
+    if (byMonth && !byMonth.includes(d.getMonth() + 1)) return false;
+    switch (freq) {
+      case "DAILY":
+        return (
+          daysBetween(ev.start, iso) % interval === 0 &&
+          (!byDay || byDay.some((b) => matchesByDay(b, d)))
+        );
+      case "WEEKLY":
+        return (
+          (daysBetween(weekOf(ev.start), weekOf(iso)) / 7) % interval === 0 &&
+          (byDay
+            ? byDay.some((b) => matchesByDay(b, d))
+            : d.getDay() === first.getDay())
+        );
+      case "MONTHLY":
+        if (months % interval !== 0) return false;
+        break;
+      default:
+        if ((d.getFullYear() - first.getFullYear()) % interval !== 0)
+          return false;
+        if (!byMonth && d.getMonth() !== first.getMonth()) return false;
+    }
+    if (byMonthDay) return matchesByMonthDay(byMonthDay, d);
+    if (byDay) return byDay.some((b) => matchesByDay(b, d));
+    return d.getDate() === first.getDate();
+  };
+
+  const limit = addDays(ev.start, RECURRENCE_LIMIT_DAYS);
+  const last = [until ?? (count < Infinity ? limit : horizon), limit].sort()[0];
+  const starts: string[] = [];
+  let n = 0;
+  for (let cur = ev.start; cur <= last && n < count; cur = addDays(cur, 1)) {
+    // 첫 회차는 규칙과 맞지 않아도 항상 포함 (RFC 5545)
+    if (cur !== ev.start && !matches(cur)) continue;
+    n++;
+    if (!exdates.has(cur)) starts.push(cur);
+  }
+  return { starts, unsupported: false };
+}
+
+/** ============ Name Mapping ============ */
+/** 매핑할 원래 값 목록 (제목 또는 참석자) */
+export function icsNameKeys(
+  events: IcsEvent[],
+  source: IcsNameSource
+): string[] {
+  const keys = events.flatMap((e) =>
+    source === "SUMMARY" ? [e.summary] : e.attendees
+  );
+  return Array.from(new Set(keys.filter(Boolean))).sort((a, b) =>
+    a.localeCompare(b, "ko")
+  );
+}
+
+/**
+ * 원래 값 → 기본 이름
+ * - 아는 이름(명부/명단)이 들어 있으면 그 이름들 (긴 이름부터)
+ * - 없으면 공백 없는 값만 이름으로 보고, 문장 같은 제목은 비워 둠
+ */
+export function guessNames(raw: string, known: string[]): string {
+  let rest = raw;
+  const found: string[] = [];
+  for (const name of [...known].sort((a, b) => b.length - a.length)) {
+    if (name && rest.includes(name)) {
+      found.push(name);
+      rest = rest.split(name).join(" ");
+    }
+  }
+  if (found.length) return found.join(", ");
+  return /\s/.test(raw.trim()) ? "" : raw.trim();
+}
+
+export interface IcsImportOptions {
+  source: IcsNameSource;
+  mapping: Record<string, string>; // 원래 값 → 이름 (쉼표 구분, 빈 값 = 가져오지 않음)
+  from?: string; // 이 기간의 날짜만 (ISO, 포함)
+  to?: string;
+  people?: Person[]; // 매핑한 이름을 명부 표시 이름으로 맞춤 (직접 입력과 같은 규칙)
+}
+
+/** 일정 + 이름 매핑 → 가져오기 결과 (명단 가져오기와 같은 형태) */
+export function icsToEntries(
+  events: IcsEvent[],
+  opts: IcsImportOptions
+): ImportResult {
+  const pairs: { date: string; name: string }[] = [];
+  const issues: ImportIssue[] = [];
+  // 매핑 값은 처음 쓰는 일정에서 한 번만 맞춤 (동명이인 알림도 한 번)
+  const resolved = new Map<string, string[]>();
+  const namesOf = (key: string, line: number) => {
+    if (!resolved.has(key))
+      resolved.set(
+        key,
+        importNames(opts.mapping[key] ?? "", opts.people ?? [], line, issues)
+      );
+    return resolved.get(key)!;
+  };
+  for (const ev of events) {
+    const keys = opts.source === "SUMMARY" ? [ev.summary] : ev.attendees;
+    const names = keys.flatMap((k) => namesOf(k, ev.line));
+    if (names.length === 0) continue;
+
+    let starts = [ev.start];
+    if (ev.rrule) {
+      const horizon = opts.to ?? addDays(ev.start, 365);
+      const r = recurrenceStarts(ev, horizon);
+      starts = r.starts;
+      if (r.unsupported)
+        issues.push({
+          row: ev.line,
+          message: `지원하지 않는 반복 규칙(${ev.rrule.FREQ}) — 첫 회차만 가져옴`,
+        });
+      else if (!ev.rrule.UNTIL && !ev.rrule.COUNT && !opts.to)
+        issues.push({
+          row: ev.line,
+          message: `"${ev.summary}" 반복 종료일이 없어 1년치만 가져옴 (기간을 지정하세요)`,
+        });
+    }
+
+    const span = daysBetween(ev.start, ev.end);
+    for (const s of starts) {
+      for (const date of datesBetween(s, addDays(s, span))) {
+        if (opts.from && date < opts.from) continue;
+        if (opts.to && date > opts.to) continue;
+        for (const name of names) pairs.push({ date, name });
+      }
+    }
+  }
+  return { ...pairsToEntries(pairs), issues };
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { defaultDateFormat } from "./date-format";
+import {
+  buildIcs,
+  eventUid,
+  fillEventTemplate,
+  type IcsOptions,
+  type IcsPerson,
+} from "./ics";
+import { parseIcs } from "./ics-import";
+
+const options = (patch: Partial<IcsOptions> = {}): IcsOptions => ({
+  calendarName: "10월 점검",
+  uidScope: "ws1:track1",
+  titleTemplate: "점검 참여 - {name}",
+  descriptionTemplate: "{name} {period} ({days}일 / 전체 {totalDays}일)",
+  fmt: defaultDateFormat(),
+  now: new Date("2026-10-19T03:04:05.678Z"),
+  ...patch,
+});
+
+const person = (
+  name: string,
+  segments: [string, string][],
+  patch: Partial<IcsPerson> = {}
+): IcsPerson => ({
+  name,
+  dates: segments.flatMap(([s, e]) => (s === e ? [s] : [s, e])),
+  segments,
+  ...patch,
+});
+
+const uidsOf = (ics: string) =>
+  ics.split("\r\n").filter((l) => l.startsWith("UID:"));
+
+describe("buildIcs", () => {
+  it("구간마다 종일 일정 하나, DTEND는 마지막 날의 다음날", () => {
+    const ics = buildIcs(
+      [
+        person("김민수", [
+          ["2026-10-19", "2026-10-20"],
+          ["2026-12-31", "2026-12-31"],
+        ]),
+      ],
+      options()
+    );
+    const lines = ics.split("\r\n");
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("X-WR-CALNAME:10월 점검");
+    expect(lines.filter((l) => l === "BEGIN:VEVENT")).toHaveLength(2);
+    expect(lines).toContain("DTSTAMP:20261019T030405Z");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261019");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261021");
+    expect(lines).toContain("DTEND;VALUE=DATE:20270101");
+    expect(lines).toContain("SUMMARY:점검 참여 - 김민수");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("설명의 일수는 반일·시간 지정 가중치 반영", () => {
+    const ics = buildIcs(
+      [
+        person("이영희", [["2026-10-19", "2026-10-20"]], {
+          slots: { "2026-10-20": { kind: "PM" } },
+        }),
+      ],
+      options({ descriptionTemplate: "{days}일 / {totalDays}일" })
+    );
+    expect(ics).toContain("DESCRIPTION:1.5일 / 1.5일");
+  });
+
+  it("텍스트 이스케이프와 75바이트 줄 접기", () => {
+    const ics = buildIcs(
+      [person("가", [["2026-10-19", "2026-10-19"]])],
+      options({
+        calendarName: "a,b;c\\d",
+        titleTemplate: "점검".repeat(30),
+      })
+    );
+    expect(ics).toContain("X-WR-CALNAME:a\\,b\\;c\\\\d");
+    const lines = ics.split("\r\n");
+    for (const l of lines)
+      expect(new TextEncoder().encode(l).length).toBeLessThanOrEqual(75);
+    expect(lines.some((l) => l.startsWith(" "))).toBe(true);
+  });
+
+  it("내보낸 파일을 다시 읽으면 같은 구간", () => {
+    const ics = buildIcs(
+      [
+        person("김민수", [
+          ["2026-10-19", "2026-10-23"],
+          ["2026-10-26", "2026-10-26"],
+        ]),
+      ],
+      options()
+    );
+    const { events, issues } = parseIcs(ics);
+    expect(issues).toEqual([]);
+    expect(events.map((e) => [e.start, e.end, e.summary])).toEqual([
+      ["2026-10-19", "2026-10-23", "점검 참여 - 김민수"],
+      ["2026-10-26", "2026-10-26", "점검 참여 - 김민수"],
+    ]);
+  });
+});
+
+describe("일정 UID", () => {
+  const uids = (segments: [string, string][], scope = "ws1:track1") =>
+    uidsOf(
+      buildIcs([person("김민수", segments)], options({ uidScope: scope }))
+    );
+
+  it("구간을 늘리거나 옮겨도 UID가 그대로 (캘린더 앱이 기존 일정을 갱신)", () => {
+    const before = uids([
+      ["2026-10-19", "2026-10-20"],
+      ["2026-10-26", "2026-10-26"],
+    ]);
+    expect(
+      uids([
+        ["2026-10-16", "2026-10-21"],
+        ["2026-10-27", "2026-10-28"],
+      ])
+    ).toEqual(before);
+  });
+
+  it("같은 인원의 구간끼리, 인원·작업공간·트랙끼리는 다름", () => {
+    const own = uids([
+      ["2026-10-19", "2026-10-19"],
+      ["2026-10-21", "2026-10-21"],
+    ]);
+    expect(new Set(own).size).toBe(2);
+    expect(uids([["2026-10-19", "2026-10-19"]], "ws1:track2")[0]).not.toBe(
+      own[0]
+    );
+    expect(uids([["2026-10-19", "2026-10-19"]], "ws2:track1")[0]).not.toBe(
+      own[0]
+    );
+    expect(eventUid("ws1:track1", "이영희", 0)).not.toBe(
+      eventUid("ws1:track1", "김민수", 0)
+    );
+    expect(own[0]).toBe(`UID:${eventUid("ws1:track1", "김민수", 0)}`);
+  });
+});
+
+describe("fillEventTemplate", () => {
+  it("모든 자리표시자를 치환", () => {
+    expect(
+      fillEventTemplate(
+        "{name}({department}) {period} {days}/{totalDays} {periods} {name}",
+        {
+          name: "김민수",
+          department: "영업팀",
+          period: "10.19~10.20",
+          days: 2,
+          periods: "10.19~10.20, 10.26",
+          totalDays: 3,
+        }
+      )
+    ).toBe("김민수(영업팀) 10.19~10.20 2/3 10.19~10.20, 10.26 김민수");
+  });
+});
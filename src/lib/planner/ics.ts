@@ -0,0 +1,158 @@
+import { addDays } from "./date";
+import { formatRange } from "./date-format";
+import type { Segment } from "./segments";
+import { roundDays, slotWeight, type Slot } from "./slots";
+import type { DateFormat } from "./types";
+
+/** ============ ICS (iCalendar) Export ============ */
+/**
+ * 인원별 연속 구간 하나 = 종일 일정 하나
+ * - UID는 작업공간·트랙(uidScope) + 이름 + 구간 순번으로 정해지므로 다시 내보낸
+ *   파일을 가져오면 캘린더 앱이 기존 일정을 갱신함 (구간을 늘리거나 옮겨도 같은 일정)
+ * - 종일 일정의 DTEND는 마지막 날의 다음날 (RFC 5545)
+ */
+export const DEFAULT_ICS_TITLE = "점검 참여 - {name}";
+export const DEFAULT_ICS_DESCRIPTION = "{name} 점검 참여 {period} ({days}일)";
+
+export interface IcsPerson {
+  name: string;
+  dates: string[]; // 실제 참여 날짜 (정렬된 ISO)
+  slots?: Record<string, Slot>; // ISO → 반일·시간 지정 (일수 가중치)
+  segments: Segment[];
+  department?: string;
+}
+
+export interface IcsOptions {
+  calendarName: string;
+  uidScope: string; // UID 구분용 (작업공간 id 등)
+  titleTemplate: string;
+  descriptionTemplate: string;
+  fmt: DateFormat;
+  now?: Date;
+}
+
+/**
+ * 일정 제목/설명 템플릿 치환
+ * - {name}: 성명, {department}: 부서, {period}: 이 일정의 기간,
+ *   {days}: 이 기간의 참여일수, {periods}: 전체 기간, {totalDays}: 전체 참여일수
+ */
+export function fillEventTemplate(
+  template: string,
+  v: {
+    name: string;
+    department: string;
+    period: string;
+    days: number;
+    periods: string;
+    totalDays: number;
+  }
+): string {
+  return template
+    .replace(/\{name\}/g, v.name)
+    .replace(/\{department\}/g, v.department)
+    .replace(/\{period\}/g, v.period)
+    .replace(/\{days\}/g, String(v.days))
+    .replace(/\{periods\}/g, v.periods)
+    .replace(/\{totalDays\}/g, String(v.totalDays));
+}
+
+/** 텍스트 값 이스케이프 (\ ; , 줄바꿈) */
+const escapeText = (s: string) =>
+  s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/** 75바이트(UTF-8)마다 줄 접기 — 이어지는 줄은 공백으로 시작 */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? 75 : 74; // 이어지는 줄은 앞의 공백 1바이트 포함
+    if (bytes + n > limit) {
+      parts.push(cur);
+      cur = "";
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  parts.push(cur);
+  return parts.join("\r\n ");
+}
+
+const icsDate = (iso: string) => iso.replace(/-/g, "");
+
+const icsStamp = (d: Date) =>
+  d
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/** 짧은 안정 해시 (FNV-1a 32bit, 16진수) */
+function hash(s: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+/** 일정 UID: 바뀌는 날짜 대신 인원의 몇 번째 구간인지(1부터)로 구분 */
+export const eventUid = (scope: string, name: string, index: number) =>
+  `${hash(`${scope}|${name}`)}-${index + 1}@attendmark`;
+
+/** 인원 목록 → .ics 문자열 (한 명이면 개인 파일, 여럿이면 전체 명단 파일) */
+export function buildIcs(people: IcsPerson[], opts: IcsOptions): string {
+  const now = opts.now ?? new Date();
+  const stamp = icsStamp(now);
+  // 다시 내보낼 때마다 커지는 값 (일부 캘린더 앱은 SEQUENCE가 커야 갱신함)
+  const sequence = Math.floor(now.getTime() / 60000);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//attendmark//점검 참여자 집계//KO",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(opts.calendarName)}`,
+  ];
+  for (const p of people) {
+    const daysOf = (dates: string[]) =>
+      roundDays(dates.reduce((n, d) => n + slotWeight(p.slots?.[d]), 0));
+    const periods = p.segments
+      .map(([s, e]) => formatRange(s, e, opts.fmt))
+      .join(", ");
+    p.segments.forEach(([start, end], i) => {
+      const values = {
+        name: p.name,
+        department: p.department ?? "",
+        period: formatRange(start, end, opts.fmt),
+        days: daysOf(p.dates.filter((d) => d >= start && d <= end)),
+        periods,
+        totalDays: daysOf(p.dates),
+      };
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${eventUid(opts.uidScope, p.name, i)}`,
+        `DTSTAMP:${stamp}`,
+        `SEQUENCE:${sequence}`,
+        `DTSTART;VALUE=DATE:${icsDate(start)}`,
+        `DTEND;VALUE=DATE:${icsDate(addDays(end, 1))}`,
+        `SUMMARY:${escapeText(fillEventTemplate(opts.titleTemplate, values))}`,
+        `DESCRIPTION:${escapeText(
+          fillEventTemplate(opts.descriptionTemplate, values)
+        )}`,
+        "TRANSP:TRANSPARENT",
+        "END:VEVENT"
+      );
+    });
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
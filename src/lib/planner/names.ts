@@ -0,0 +1,15 @@
+/** ============ Names ============ */
+/** 이름 구분자: 줄바꿈, 쉼표(전각 포함), 세미콜론, 공백 */
+export const NAME_SEPARATOR = /[\n,、，;；\s]+/;
+
+/** 자유 입력 문자열 → 중복 제거된 이름 목록 */
+export function parseNames(raw: string): string[] {
+  return Array.from(
+    new Set(
+      raw
+        .split(NAME_SEPARATOR)
+        .map((s) => s.trim())
+        .filter(Boolean)
+    )
+  );
+}
@@ -0,0 +1,243 @@
+import { NAME_SEPARATOR, parseNames } from "./names";
+
+/** ============ People Directory ============ */
+/**
+ * 명부에 등록된 인원
+ * - 날짜별 명단(Entry.names)에는 표시 이름(personLabels)이 저장됨
+ * - 동명이인은 표시 이름에 부서(없으면 사번)를 붙여 구분: "김민수(영업팀)"
+ */
+export type PersonRole = "LEAD" | "ASSIST";
+
+export const ROLE_LABELS: Record<PersonRole, string> = {
+  LEAD: "책임자",
+  ASSIST: "보조",
+};
+
+export interface Person {
+  id: string;
+  name: string;
+  employeeId: string; // 사번 ("" = 미입력)
+  department: string; // 부서 ("" = 미지정)
+  role: PersonRole | ""; // "" = 역할 없음
+}
+
+export const newPerson = (patch: Partial<Person> = {}): Person => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+  name: "",
+  employeeId: "",
+  department: "",
+  role: "",
+  ...patch,
+});
+
+/** 비교용 이름: 공백 제거 + 유니코드 정규화 ("김 민수" = "김민수") */
+export const normalizeName = (s: string) =>
+  s.normalize("NFC").replace(/\s+/g, "");
+
+/** id → 표시 이름. 같은 이름이 여럿이면 부서 → 사번 → 순번 순으로 구분자를 붙임 */
+export function personLabels(people: Person[]): Map<string, string> {
+  const byName = new Map<string, Person[]>();
+  for (const p of people) {
+    const key = normalizeName(p.name);
+    if (!key) continue;
+    byName.set(key, [...(byName.get(key) ?? []), p]);
+  }
+  const out = new Map<string, string>();
+  for (const [name, group] of byName) {
+    if (group.length === 1) {
+      out.set(group[0].id, name);
+      continue;
+    }
+    const used = new Set<string>();
+    group.forEach((p, i) => {
+      const dept = normalizeName(p.department);
+      const sameDept = group.filter(
+        (x) => normalizeName(x.department) === dept
+      ).length;
+      const qualifier =
+        (dept && sameDept === 1 ? dept : "") ||
+        [dept, normalizeName(p.employeeId)].filter(Boolean).join("·") ||
+        `#${i + 1}`;
+      let label = `${name}(${qualifier})`;
+      if (used.has(label)) label = `${name}(${qualifier}#${i + 1})`;
+      used.add(label);
+      out.set(p.id, label);
+    });
+  }
+  return out;
+}
+
+/** 표시 이름 → 인원 (명단 이름으로 부서/역할을 찾을 때) */
+export function peopleByLabel(people: Person[]): Map<string, Person> {
+  const labels = personLabels(people);
+  return new Map(
+    people
+      .filter((p) => labels.has(p.id))
+      .map((p) => [labels.get(p.id)!, p] as const)
+  );
+}
+
+/** 명부 수정 전후로 표시 이름이 바뀐 인원: 이전 이름 → 새 이름 */
+export function labelChanges(
+  before: Person[],
+  after: Person[]
+): Map<string, string> {
+  const prev = personLabels(before);
+  const next = personLabels(after);
+  const out = new Map<string, string>();
+  for (const [id, label] of prev) {
+    const renamed = next.get(id);
+    if (renamed && renamed !== label) out.set(label, renamed);
+  }
+  return out;
+}
+
+/** ============ Name Resolution ============ */
+export type NameIssue =
+  | { kind: "AMBIGUOUS"; input: string; candidates: string[] } // 동명이인 → 선택 필요
+  | { kind: "UNKNOWN"; input: string; candidates: string[] }; // 명부에 없음 (비슷한 이름 제안)
+
+/** 두 문자열의 편집 거리 (오타 판정용, 짧은 이름 전제) */
+function editDistance(a: string, b: string): number {
+  const dp = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = dp[0];
+    dp[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const up = dp[j];
+      dp[j] = Math.min(
+        dp[j] + 1,
+        dp[j - 1] + 1,
+        diag + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diag = up;
+    }
+  }
+  return dp[b.length];
+}
+
+/** 오타로 보이는 비슷한 표시 이름 (편집 거리 1) */
+export function similarLabels(input: string, people: Person[]): string[] {
+  const key = normalizeName(input);
+  const out = new Set<string>();
+  for (const [id, label] of personLabels(people)) {
+    const p = people.find((x) => x.id === id)!;
+    if (editDistance(key, normalizeName(p.name)) === 1) out.add(label);
+  }
+  return Array.from(out);
+}
+
+/**
+ * 자유 입력 → 명부 기준 표시 이름
+ * - 띄어 쓴 이름("김 민수")은 이어 붙여 명부 이름과 맞으면 하나로 봄
+ * - 이름만 입력한 동명이인은 추가하지 않고 AMBIGUOUS로 돌려줌
+ * - 명부가 비어 있으면 입력 그대로 사용
+ */
+export function resolveNames(
+  raw: string,
+  people: Person[]
+): { names: string[]; issues: NameIssue[] } {
+  if (people.length === 0) return { names: parseNames(raw), issues: [] };
+  const labels = personLabels(people);
+  const byLabel = new Map<string, string>(); // 정규화 표시 이름 → 표시 이름
+  const byName = new Map<string, string[]>(); // 정규화 이름 → 표시 이름들
+  for (const p of people) {
+    const label = labels.get(p.id);
+    if (!label) continue;
+    byLabel.set(normalizeName(label), label);
+    const key = normalizeName(p.name);
+    byName.set(key, [...(byName.get(key) ?? []), label]);
+  }
+  const known = (s: string) => byLabel.has(s) || byName.has(s);
+
+  // 띄어쓰기로 쪼개진 토큰을 명부 이름과 맞춰 다시 합침 (줄바꿈/쉼표 경계는 넘지 않음)
+  const tokens: string[] = [];
+  for (const chunk of raw.split(/[\n,、，;；]+/)) {
+    const parts = chunk.split(NAME_SEPARATOR).filter(Boolean);
+    for (let i = 0; i < parts.length; i++) {
+      let taken = 1;
+      for (let j = parts.length; j > i + 1; j--) {
+        if (known(parts.slice(i, j).join(""))) {
+          taken = j - i;
+          break;
+        }
+      }
+      tokens.push(parts.slice(i, i + taken).join(""));
+      i += taken - 1;
+    }
+  }
+
+  const names: string[] = [];
+  const issues: NameIssue[] = [];
+  for (const token of Array.from(new Set(tokens))) {
+    const key = normalizeName(token);
+    const exact = byLabel.get(key);
+    const sameName = byName.get(key) ?? [];
+    if (exact) names.push(exact);
+    else if (sameName.length === 1) names.push(sameName[0]);
+    else if (sameName.length > 1)
+      issues.push({ kind: "AMBIGUOUS", input: token, candidates: sameName });
+    else {
+      names.push(token);
+      issues.push({
+        kind: "UNKNOWN",
+        input: token,
+        candidates: similarLabels(token, people),
+      });
+    }
+  }
+  return { names: Array.from(new Set(names)), issues };
+}
+
+/** 자동완성: 입력 중인 마지막 이름으로 시작(우선)하거나 포함하는 표시 이름 */
+export function suggestLabels(
+  query: string,
+  people: Person[],
+  limit = 8
+): { label: string; person: Person }[] {
+  const q = normalizeName(query).toLowerCase();
+  if (!q) return [];
+  const labels = personLabels(people);
+  const hits = people
+    .filter((p) => labels.has(p.id))
+    .map((p) => ({ label: labels.get(p.id)!, person: p }))
+    .filter(({ label, person }) =>
+      [label, person.employeeId, person.department].some((s) =>
+        normalizeName(s).toLowerCase().includes(q)
+      )
+    );
+  const starts = (s: string) => normalizeName(s).toLowerCase().startsWith(q);
+  hits.sort(
+    (a, b) =>
+      Number(starts(b.label)) - Number(starts(a.label)) ||
+      a.label.localeCompare(b.label, "ko")
+  );
+  return hits.slice(0, limit);
+}
+
+/** ============ Directory Checks ============ */
+/** 명부 자체의 중복 경고 (같은 사번, 사번 없이 같은 부서에 있는 동명이인) */
+export function directoryWarnings(people: Person[]): string[] {
+  const out: string[] = [];
+  const named = people.filter((p) => normalizeName(p.name));
+  const seenIds = new Map<string, string>();
+  for (const p of named) {
+    const id = normalizeName(p.employeeId);
+    if (!id) continue;
+    const prev = seenIds.get(id);
+    if (prev) out.push(`사번 ${id} 중복: ${prev}, ${p.name}`);
+    else seenIds.set(id, p.name);
+  }
+  const seenNameDept = new Set<string>();
+  for (const p of named) {
+    const key = `${normalizeName(p.name)}|${normalizeName(p.department)}`;
+    if (seenNameDept.has(key) && !p.employeeId)
+      out.push(
+        `${p.name}${
+          p.department ? `(${p.department})` : ""
+        }: 같은 이름이 여러 명입니다. 사번을 입력해 구분하세요.`
+      );
+    seenNameDept.add(key);
+  }
+  return out;
+}
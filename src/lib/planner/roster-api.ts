@@ -0,0 +1,121 @@
+import type { PlannerState } from "./types";
+import { migrateState, SCHEMA_VERSION } from "./workspace";
+
+/** ============ Roster API Client (/api/rosters) ============ */
+/**
+ * 서버에 저장한 명단을 작업공간과 주고받는 fetch 래퍼
+ * - 상태는 스키마 버전(version)과 함께 주고받고, 받을 때 migrations로 최신 형태로 변환
+ * - 실패는 예외 대신 { ok: false, error } (409 = 다른 곳에서 먼저 저장)
+ */
+export const ROSTERS_API = "/api/rosters";
+
+export interface RosterInfo {
+  id: string;
+  name: string;
+  revision: number; // 저장할 때마다 1씩 증가
+  updatedAt: string; // ISO 시각
+}
+
+export interface RemoteRoster extends RosterInfo {
+  state: PlannerState;
+}
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string };
+
+async function request<T>(
+  url: string,
+  init?: RequestInit
+): Promise<ApiResult<T>> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    });
+  } catch {
+    return { ok: false, status: 0, error: "서버에 연결할 수 없습니다." };
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok)
+    return {
+      ok: false,
+      status: res.status,
+      error:
+        typeof body?.error === "string"
+          ? body.error
+          : `서버 오류 (${res.status})`,
+    };
+  return { ok: true, data: body as T };
+}
+
+/** 응답의 state를 현재 스키마로 변환 */
+const withState = (
+  r: ApiResult<RosterInfo & { version: number; state: unknown }>
+): ApiResult<RemoteRoster> =>
+  r.ok
+    ? {
+        ok: true,
+        data: {
+          id: r.data.id,
+          name: r.data.name,
+          revision: r.data.revision,
+          updatedAt: r.data.updatedAt,
+          state: migrateState(r.data.state, r.data.version),
+        },
+      }
+    : r;
+
+export async function listRemoteRosters(): Promise<ApiResult<RosterInfo[]>> {
+  const r = await request<{ rosters: RosterInfo[] }>(ROSTERS_API);
+  return r.ok ? { ok: true, data: r.data.rosters } : r;
+}
+
+export async function fetchRemoteRoster(
+  id: string
+): Promise<ApiResult<RemoteRoster>> {
+  return withState(
+    await request(`${ROSTERS_API}/${encodeURIComponent(id)}`, {
+      cache: "no-store",
+    })
+  );
+}
+
+export async function createRemoteRoster(
+  name: string,
+  state: PlannerState
+): Promise<ApiResult<RemoteRoster>> {
+  return withState(
+    await request(ROSTERS_API, {
+      method: "POST",
+      body: JSON.stringify({ name, version: SCHEMA_VERSION, state }),
+    })
+  );
+}
+
+/** baseRevision을 빼면 서버 내용과 상관없이 덮어씀 */
+export async function saveRemoteRoster(
+  id: string,
+  patch: { name: string; state: PlannerState; baseRevision?: number }
+): Promise<ApiResult<RemoteRoster>> {
+  return withState(
+    await request(`${ROSTERS_API}/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      body: JSON.stringify({ ...patch, version: SCHEMA_VERSION }),
+    })
+  );
+}
+
+/** ============ Sync Status ============ */
+export type SyncStatus =
+  | { kind: "IDLE" }
+  | { kind: "LOADING" }
+  | { kind: "SAVING" }
+  | { kind: "SAVED"; at: number }
+  | { kind: "CONFLICT" } // 다른 곳에서 먼저 저장 (어느 쪽을 남길지 선택 필요)
+  | { kind: "ERROR"; error: string };
+
+/** 서버와 주고받은 상태 비교용 키 (정규화해서 속성 순서 차이 무시) */
+export const stateKey = (state: PlannerState) =>
+  JSON.stringify(migrateState(state, SCHEMA_VERSION));
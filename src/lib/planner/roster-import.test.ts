@@ -0,0 +1,249 @@
+import { describe, expect, it } from "vitest";
+import { newPerson } from "./people";
+import {
+  findExisting,
+  pairsToEntries,
+  parseDateCell,
+  parseDelimitedText,
+  rowsToEntries,
+} from "./roster-import";
+
+describe("parseDateCell", () => {
+  it("연도가 있는 형식", () => {
+    expect(parseDateCell("2026.10.01", 2000)).toBe("2026-10-01");
+    expect(parseDateCell("2026-1-5", 2000)).toBe("2026-01-05");
+    expect(parseDateCell("2026/10/01", 2000)).toBe("2026-10-01");
+    expect(parseDateCell(" 2026. 10. 01. ", 2000)).toBe("2026-10-01");
+    expect(parseDateCell("2026년 10월 1일", 2000)).toBe("2026-10-01");
+  });
+
+  it("연도가 없으면 기준 연도 사용", () => {
+    expect(parseDateCell("10/01", 2026)).toBe("2026-10-01");
+    expect(parseDateCell("1.5", 2027)).toBe("2027-01-05");
+    expect(parseDateCell("10월 1일", 2026)).toBe("2026-10-01");
+  });
+
+  it("끝의 요일 표기 허용", () => {
+    expect(parseDateCell("2026.10.02(금)", 2000)).toBe("2026-10-02");
+    expect(parseDateCell("10/2 (금)", 2026)).toBe("2026-10-02");
+  });
+
+  it("없는 날짜와 날짜가 아닌 값은 null", () => {
+    expect(parseDateCell("2026.02.30", 2000)).toBeNull();
+    expect(parseDateCell("2025-02-29", 2000)).toBeNull();
+    expect(parseDateCell("2024-02-29", 2000)).toBe("2024-02-29");
+    expect(parseDateCell("13/01", 2026)).toBeNull();
+    expect(parseDateCell("이름", 2026)).toBeNull();
+    expect(parseDateCell("", 2026)).toBeNull();
+  });
+});
+
+describe("parseDelimitedText", () => {
+  it("탭이 있으면 TSV, 따옴표 안의 구분자·줄바꿈·따옴표 유지", () => {
+    expect(parseDelimitedText("a\tb,c\r\n1\t2")).toEqual([
+      ["a", "b,c"],
+      ["1", "2"],
+    ]);
+    expect(
+      parseDelimitedText('날짜,이름\n10/01,"가, 나"\n10/02,"줄\n""바꿈"""')
+    ).toEqual([
+      ["날짜", "이름"],
+      ["10/01", "가, 나"],
+      ["10/02", '줄\n"바꿈"'],
+    ]);
+  });
+});
+
+describe("rowsToEntries", () => {
+  it("세로형: 날짜, 이름… (머리글 건너뜀, 셀 안의 여러 이름)", () => {
+    const r = rowsToEntries(
+      [
+        ["날짜", "이름"],
+        ["10/02", "나, 다"],
+        ["10/01", "가", "나"],
+      ],
+      2026
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-01", names: ["가", "나"] },
+      { date: "2026-10-02", names: ["나", "다"] },
+    ]);
+    expect(r.issues).toEqual([]);
+  });
+
+  it("날짜×이름 표: 참석 표시만 가져옴", () => {
+    const r = rowsToEntries(
+      [
+        ["이름", "10/01", "10/02", "10/03"],
+        ["가", "O", "x", "참석"],
+        ["나", "", "✓", "-"],
+      ],
+      2026
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-01", names: ["가"] },
+      { date: "2026-10-02", names: ["나"] },
+      { date: "2026-10-03", names: ["가"] },
+    ]);
+  });
+
+  it("날짜 열 목록: 각 열 아래 이름", () => {
+    const r = rowsToEntries(
+      [
+        ["2026.10.01", "2026.10.02"],
+        ["가", "나"],
+        ["다", ""],
+      ],
+      2000
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-01", names: ["가", "다"] },
+      { date: "2026-10-02", names: ["나"] },
+    ]);
+  });
+
+  it("이름 열 표: 참석 표시면 머리글 이름", () => {
+    const r = rowsToEntries(
+      [
+        ["날짜", "가", "나"],
+        ["10/01", "o", "불참"],
+        ["10/02", "1", "●"],
+      ],
+      2026
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-01", names: ["가"] },
+      { date: "2026-10-02", names: ["가", "나"] },
+    ]);
+  });
+
+  it("가져온 데이터 안의 중복을 따로 알림", () => {
+    const r = rowsToEntries(
+      [
+        ["10/01", "가"],
+        ["10/01", "가, 나"],
+      ],
+      2026
+    );
+    expect(r.entries).toEqual([{ date: "2026-10-01", names: ["가", "나"] }]);
+    expect(r.duplicates).toEqual([{ date: "2026-10-01", name: "가" }]);
+  });
+
+  it("문제 행은 빈 행을 건너뛰기 전 원본 행 번호로 알림 (세로형)", () => {
+    const r = rowsToEntries(
+      [["날짜", "이름"], ["", ""], ["10/01", "가"], [], ["합계", "1"]],
+      2026
+    );
+    expect(r.entries).toEqual([{ date: "2026-10-01", names: ["가"] }]);
+    expect(r.issues).toEqual([
+      { row: 5, message: '날짜를 인식할 수 없음: "합계"' },
+    ]);
+  });
+
+  it("문제 행은 원본 행 번호로 알림 (날짜×이름 표, 앞쪽 빈 행)", () => {
+    const r = rowsToEntries(
+      [[], ["이름", "10/01"], ["가", "o"], ["", ""], ["", "o"]],
+      2026
+    );
+    expect(r.issues).toEqual([{ row: 5, message: "이름이 비어 있음" }]);
+  });
+
+  it("빈 표", () => {
+    expect(rowsToEntries([[""], []], 2026)).toEqual({
+      entries: [],
+      duplicates: [],
+      issues: [],
+    });
+  });
+});
+
+describe("rowsToEntries: 명부 기준 이름 맞춤", () => {
+  const people = [
+    newPerson({ id: "a", name: "김민수", department: "영업팀" }),
+    newPerson({ id: "b", name: "김민수", department: "개발팀" }),
+    newPerson({ id: "c", name: "이영희" }),
+  ];
+
+  it("띄어 쓴 이름을 명부 이름으로 합침 (직접 입력과 같은 규칙)", () => {
+    const r = rowsToEntries(
+      [
+        ["10/01", "이 영희"],
+        ["10/02", "이영희, 박철수"],
+      ],
+      2026,
+      people
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-01", names: ["이영희"] },
+      { date: "2026-10-02", names: ["이영희", "박철수"] },
+    ]);
+  });
+
+  it("날짜×이름 표의 이름 칸도 맞춤, 동명이인은 제외하고 원본 행으로 알림", () => {
+    const r = rowsToEntries(
+      [
+        ["이름", "10/01"],
+        ["이 영희", "o"],
+        ["김민수 (개발팀)", "o"],
+        ["김민수", "o"],
+      ],
+      2026,
+      people
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-01", names: ["이영희", "김민수(개발팀)"] },
+    ]);
+    expect(r.issues).toEqual([
+      {
+        row: 4,
+        message:
+          '동명이인 "김민수" 제외됨: 김민수(영업팀), 김민수(개발팀) 중 하나로 입력하세요',
+      },
+    ]);
+  });
+
+  it("이름 열 표의 머리글 이름도 맞춤", () => {
+    const r = rowsToEntries(
+      [
+        ["날짜", "이 영희"],
+        ["10/01", "o"],
+        ["10/02", "o"],
+      ],
+      2026,
+      people
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-01", names: ["이영희"] },
+      { date: "2026-10-02", names: ["이영희"] },
+    ]);
+  });
+
+  it("명부가 비어 있어도 이름 칸의 띄어쓰기 차이는 같은 사람", () => {
+    const r = rowsToEntries(
+      [
+        ["이름", "10/01", "10/02"],
+        ["이 영희", "o", ""],
+        ["이영희", "", "o"],
+      ],
+      2026
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-01", names: ["이영희"] },
+      { date: "2026-10-02", names: ["이영희"] },
+    ]);
+  });
+});
+
+describe("pairsToEntries / findExisting", () => {
+  it("날짜순으로 묶고, 이미 입력된 (날짜, 이름)을 찾음", () => {
+    const { entries } = pairsToEntries([
+      { date: "2026-10-02", name: "가" },
+      { date: "2026-10-01", name: "나" },
+      { date: "2026-10-02", name: "다" },
+    ]);
+    expect(entries.map((e) => e.date)).toEqual(["2026-10-01", "2026-10-02"]);
+    expect(
+      findExisting(entries, [{ date: "2026-10-02", names: ["다", "라"] }])
+    ).toEqual([{ date: "2026-10-02", name: "다" }]);
+  });
+});
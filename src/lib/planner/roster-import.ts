@@ -0,0 +1,259 @@
+import { pad } from "./date";
+import { normalizeName, resolveNames, type Person } from "./people";
+import type { Entry } from "./types";
+
+/** ============ Roster Import (CSV / TSV / XLSX rows) ============ */
+/**
+ * 지원 형태
+ * - 세로형: "날짜, 이름[, 이름…]" (첫 열이 날짜, 나머지 셀은 이름)
+ * - 날짜×이름 표: 첫 행 = [이름, 날짜, 날짜…], 각 행 = [이름, 표시, 표시…]
+ * - 날짜 열 목록: 첫 행 = [날짜, 날짜…], 각 열 아래에 이름 나열
+ * - 이름 열 표: 첫 행 = [날짜, 이름, 이름…], 각 행 = [날짜, 표시, 표시…]
+ */
+
+export interface ImportIssue {
+  row: number; // 1-based (원본 표 기준)
+  message: string;
+}
+
+export interface ImportResult {
+  entries: Entry[];
+  duplicates: { date: string; name: string }[]; // 가져온 데이터 안에서 중복된 (날짜, 이름)
+  issues: ImportIssue[];
+}
+
+/** 참석 표시로 인정하는 셀 값 (표 형태에서 이름 대신 사용) */
+const MARKS = new Set([
+  "o",
+  "○",
+  "●",
+  "◯",
+  "✓",
+  "✔",
+  "v",
+  "y",
+  "1",
+  "참",
+  "참석",
+]);
+/** 불참 표시 (빈 셀과 동일 취급) */
+const BLANKS = new Set(["x", "✕", "✗", "-", "0", "불참", "결"]);
+
+const isMark = (s: string) => MARKS.has(s.trim().toLowerCase());
+const isBlank = (s: string) => !s.trim() || BLANKS.has(s.trim().toLowerCase());
+
+/**
+ * 날짜 셀 → ISO
+ * - YYYY.MM.DD / YYYY-MM-DD / YYYY/MM/DD (끝의 '.'·요일 표기 허용)
+ * - MM/DD, MM.DD, M월 D일 (연도 없음 → defaultYear)
+ */
+export function parseDateCell(raw: string, defaultYear: number): string | null {
+  const s = raw
+    .trim()
+    .replace(/\s*\([^)]*\)\s*$/, "") // "(금)" 등 요일 표기
+    .replace(/\.$/, "");
+  let y: number, m: number, d: number;
+  let mt = s.match(/^(\d{4})\s*[.\-/]\s*(\d{1,2})\s*[.\-/]\s*(\d{1,2})$/);
+  if (mt) {
+    [y, m, d] = [Number(mt[1]), Number(mt[2]), Number(mt[3])];
+  } else if ((mt = s.match(/^(\d{1,2})\s*[./]\s*(\d{1,2})$/))) {
+    [y, m, d] = [defaultYear, Number(mt[1]), Number(mt[2])];
+  } else if ((mt = s.match(/^(?:(\d{4})년\s*)?(\d{1,2})월\s*(\d{1,2})일$/))) {
+    y = mt[1] ? Number(mt[1]) : defaultYear;
+    [m, d] = [Number(mt[2]), Number(mt[3])];
+  } else {
+    return null;
+  }
+  const date = new Date(y, m - 1, d);
+  // 2월 30일 같은 잘못된 날짜 제외
+  if (date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+/**
+ * 셀 값 → 이름 (직접 입력과 같은 규칙으로 명부 표시 이름에 맞춤)
+ * - single: 한 사람을 뜻하는 셀(표의 이름 머리글)은 띄어쓰기를 없애 하나로 봄
+ * - 동명이인은 가져오지 않고 문제 행으로 알림
+ */
+export function importNames(
+  raw: string,
+  people: Person[],
+  row: number,
+  issues: ImportIssue[],
+  single = false
+): string[] {
+  const { names, issues: found } = resolveNames(
+    single ? normalizeName(raw) : raw,
+    people
+  );
+  for (const x of found)
+    if (x.kind === "AMBIGUOUS")
+      issues.push({
+        row,
+        message: `동명이인 "${x.input}" 제외됨: ${x.candidates.join(
+          ", "
+        )} 중 하나로 입력하세요`,
+      });
+  return names;
+}
+
+/** CSV/TSV 텍스트 → 2차원 배열 (따옴표 필드 지원). 탭이 있으면 TSV로 간주 */
+export function parseDelimitedText(text: string): string[][] {
+  const delim = text.includes("\t") ? "\t" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === "") quoted = true;
+    else if (ch === delim) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** 표(2차원 배열) → Entry[] (people: 이름을 맞출 명부, 비어 있으면 입력 그대로) */
+export function rowsToEntries(
+  table: string[][],
+  defaultYear: number,
+  people: Person[] = []
+): ImportResult {
+  // 빈 행은 건너뛰되, 문제 위치는 원본 표의 행 번호로 알림
+  const kept = table
+    .map((r, i) => ({ cells: r.map((c) => (c ?? "").trim()), row: i + 1 }))
+    .filter((r) => r.cells.some(Boolean));
+  const rows = kept.map((r) => r.cells);
+  const rowNo = (i: number) => kept[i].row;
+  const pairs: { date: string; name: string }[] = [];
+  const issues: ImportIssue[] = [];
+  if (rows.length === 0) return { entries: [], duplicates: [], issues };
+
+  const date = (s: string) => parseDateCell(s, defaultYear);
+  const header = rows[0];
+  const headerDates = header.slice(1).filter(Boolean).map(date);
+  const headerHasDates =
+    headerDates.length > 0 && headerDates.every((d) => d !== null);
+
+  if (headerHasDates && date(header[0]) !== null) {
+    // 날짜 열 목록: 각 열 = 날짜, 아래 셀 = 이름
+    header.forEach((h, col) => {
+      const iso = date(h);
+      if (!iso) return;
+      rows.slice(1).forEach((r, i) => {
+        for (const name of importNames(
+          r[col] ?? "",
+          people,
+          rowNo(i + 1),
+          issues
+        ))
+          pairs.push({ date: iso, name });
+      });
+    });
+  } else if (headerHasDates) {
+    // 날짜×이름 표: 각 행 = 이름 + 날짜별 표시
+    rows.slice(1).forEach((r, i) => {
+      if (!r[0]) {
+        issues.push({ row: rowNo(i + 1), message: "이름이 비어 있음" });
+        return;
+      }
+      const names = importNames(r[0], people, rowNo(i + 1), issues, true);
+      header.forEach((h, col) => {
+        if (col === 0) return;
+        const iso = date(h);
+        if (iso && !isBlank(r[col] ?? ""))
+          for (const name of names) pairs.push({ date: iso, name });
+      });
+    });
+  } else {
+    // 세로형 / 이름 열 표: 첫 열이 날짜인 행만 사용, 첫 행이 머리글이면 건너뜀
+    const hasHeader = date(header[0]) === null;
+    // 머리글 이름은 참석 표시가 처음 나올 때 한 번만 맞춤
+    const headerNames = new Map<number, string[]>();
+    const headerName = (col: number) => {
+      if (!headerNames.has(col))
+        headerNames.set(
+          col,
+          importNames(header[col], people, rowNo(0), issues, true)
+        );
+      return headerNames.get(col)!;
+    };
+    rows.forEach((r, i) => {
+      if (i === 0 && hasHeader) return;
+      const iso = date(r[0]);
+      if (!iso) {
+        issues.push({
+          row: rowNo(i),
+          message: `날짜를 인식할 수 없음: "${r[0]}"`,
+        });
+        return;
+      }
+      r.slice(1).forEach((cell, j) => {
+        if (isBlank(cell)) return;
+        // 이름 열 표: 셀이 참석 표시면 머리글의 이름 사용
+        const names =
+          isMark(cell) && hasHeader && header[j + 1]
+            ? headerName(j + 1)
+            : importNames(cell, people, rowNo(i), issues);
+        for (const name of names) pairs.push({ date: iso, name });
+      });
+    });
+  }
+
+  return { ...pairsToEntries(pairs), issues };
+}
+
+/** (날짜, 이름) 목록 → 중복 검출 후 Entry로 묶기 */
+export function pairsToEntries(
+  pairs: { date: string; name: string }[]
+): Omit<ImportResult, "issues"> {
+  const seen = new Set<string>();
+  const duplicates: { date: string; name: string }[] = [];
+  const byDate = new Map<string, string[]>();
+  for (const p of pairs) {
+    const key = `${p.date}|${p.name}`;
+    if (seen.has(key)) {
+      duplicates.push(p);
+      continue;
+    }
+    seen.add(key);
+    byDate.set(p.date, [...(byDate.get(p.date) ?? []), p.name]);
+  }
+  const entries = Array.from(byDate, ([d, names]) => ({ date: d, names })).sort(
+    (a, b) => a.date.localeCompare(b.date)
+  );
+  return { entries, duplicates };
+}
+
+/** 이미 입력된 (날짜, 이름)과 겹치는 항목 */
+export function findExisting(
+  imported: Entry[],
+  current: Entry[]
+): { date: string; name: string }[] {
+  const cur = new Set(
+    current.flatMap((e) => e.names.map((n) => `${e.date}|${n}`))
+  );
+  return imported.flatMap((e) =>
+    e.names
+      .filter((n) => cur.has(`${e.date}|${n}`))
+      .map((name) => ({ date: e.date, name }))
+  );
+}
@@ -0,0 +1,142 @@
+import { isNextDay } from "./date";
+import { isRedDay, type HolidayCalendar } from "./holidays";
+import { ROLE_LABELS, type Person, type PersonRole } from "./people";
+import type { Entry } from "./types";
+
+/** ============ Roster Rules (검증 규칙) ============ */
+export interface RosterRules {
+  minPerDay: number | null; // 하루 최소 인원 (null = 검사 안 함)
+  maxPerDay: number | null; // 하루 최대 인원
+  requiredRole: PersonRole | ""; // 매일 이 역할이 한 명 이상 있어야 함 ("" = 검사 안 함)
+  maxConsecutive: number | null; // 1인 최대 연속 참여 일수 (달력 기준)
+  noRedDays: boolean; // 일요일/공휴일 참여 금지
+  unavailable: Record<string, string[]>; // 이름 → 참여 불가 날짜 (휴가 등)
+}
+
+export const defaultRosterRules = (): RosterRules => ({
+  minPerDay: null,
+  maxPerDay: null,
+  requiredRole: "",
+  maxConsecutive: null,
+  noRedDays: false,
+  unavailable: {},
+});
+
+export type ViolationKind =
+  | "MIN"
+  | "MAX"
+  | "ROLE"
+  | "STREAK"
+  | "RED_DAY"
+  | "UNAVAILABLE"
+  | "DOUBLE_BOOKED";
+
+export interface Violation {
+  kind: ViolationKind;
+  date: string; // ISO
+  name?: string; // 특정 인원에 대한 위반이면 그 이름
+  message: string; // 날짜를 뺀 설명
+}
+
+export const VIOLATION_LABELS: Record<ViolationKind, string> = {
+  MIN: "최소 인원",
+  MAX: "최대 인원",
+  ROLE: "필수 역할",
+  STREAK: "연속 참여",
+  RED_DAY: "휴일 참여",
+  UNAVAILABLE: "참여 불가일",
+  DOUBLE_BOOKED: "트랙 중복",
+};
+
+/**
+ * 명단 검증
+ * - dates: 검사할 날짜 (선택만 하고 이름이 없는 날짜도 최소 인원 검사 대상)
+ * - directory: 표시 이름 → 명부 인원 (역할 판정용)
+ */
+export function validateRoster(
+  entries: Entry[],
+  dates: string[],
+  rules: RosterRules,
+  ctx: { cal: HolidayCalendar; directory: Map<string, Person> }
+): Violation[] {
+  const out: Violation[] = [];
+  const namesByDate = new Map(entries.map((e) => [e.date, e.names]));
+  const allDates = Array.from(
+    new Set([...dates, ...entries.map((e) => e.date)])
+  ).sort();
+
+  for (const date of allDates) {
+    const names = namesByDate.get(date) ?? [];
+    const n = names.length;
+    if (rules.minPerDay !== null && n < rules.minPerDay)
+      out.push({
+        kind: "MIN",
+        date,
+        message: `인원 ${n}명 (최소 ${rules.minPerDay}명)`,
+      });
+    if (rules.maxPerDay !== null && n > rules.maxPerDay)
+      out.push({
+        kind: "MAX",
+        date,
+        message: `인원 ${n}명 (최대 ${rules.maxPerDay}명)`,
+      });
+    if (
+      rules.requiredRole &&
+      n > 0 &&
+      !names.some((nm) => ctx.directory.get(nm)?.role === rules.requiredRole)
+    )
+      out.push({
+        kind: "ROLE",
+        date,
+        message: `${ROLE_LABELS[rules.requiredRole]} 없음`,
+      });
+    if (rules.noRedDays && n > 0 && isRedDay(date, ctx.cal))
+      out.push({
+        kind: "RED_DAY",
+        date,
+        message: `휴일 참여: ${names.join(", ")}`,
+      });
+    for (const name of names) {
+      if (rules.unavailable[name]?.includes(date))
+        out.push({
+          kind: "UNAVAILABLE",
+          date,
+          name,
+          message: `${name} 참여 불가일`,
+        });
+    }
+  }
+
+  // 연속 참여: 한도를 넘는 날부터 위반으로 표시
+  const maxRun = rules.maxConsecutive;
+  if (maxRun !== null) {
+    const byName = new Map<string, string[]>();
+    for (const e of entries) {
+      for (const nm of e.names)
+        byName.set(nm, [...(byName.get(nm) ?? []), e.date]);
+    }
+    for (const [name, list] of byName) {
+      const sorted = Array.from(new Set(list)).sort();
+      let run = 0;
+      sorted.forEach((date, i) => {
+        run = i > 0 && isNextDay(sorted[i - 1], date) ? run + 1 : 1;
+        if (run > maxRun)
+          out.push({
+            kind: "STREAK",
+            date,
+            name,
+            message: `${name} ${run}일 연속 (최대 ${maxRun}일)`,
+          });
+      });
+    }
+  }
+
+  return out.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** 날짜별 위반 목록 (달력 칸 표시용) */
+export function violationsByDate(list: Violation[]): Map<string, Violation[]> {
+  const m = new Map<string, Violation[]>();
+  for (const v of list) m.set(v.date, [...(m.get(v.date) ?? []), v]);
+  return m;
+}
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import { datesBetween } from "./date";
+import type { HolidayCalendar } from "./holidays";
+import { newPerson, type Person } from "./people";
+import { defaultRosterRules, type RosterRules } from "./rules";
+import { generateSchedule, type ScheduleInput } from "./scheduler";
+import type { Entry } from "./types";
+import { defaultWorkWeek } from "./work-week";
+
+const fixedCalendar = (holidays: Record<string, string>): HolidayCalendar => ({
+  isHoliday: (iso) => iso in holidays,
+  holidayName: (iso) => holidays[iso] ?? null,
+});
+
+const input = (
+  patch: Partial<Omit<ScheduleInput, "rules">> & {
+    rules?: Partial<RosterRules>;
+  } = {}
+): ScheduleInput => ({
+  dates: datesBetween("2026-10-19", "2026-10-23"), // 월~금
+  pool: ["가", "나", "다"],
+  perDay: 1,
+  cal: fixedCalendar({}),
+  workWeek: defaultWorkWeek(),
+  directory: new Map(),
+  locked: {},
+  seed: 1,
+  ...patch,
+  rules: { ...defaultRosterRules(), ...patch.rules },
+});
+
+const countDays = (entries: Entry[]) => {
+  const m: Record<string, number> = {};
+  for (const e of entries) for (const n of e.names) m[n] = (m[n] ?? 0) + 1;
+  return m;
+};
+
+const namesOn = (entries: Entry[]) => entries.map((e) => e.names);
+
+describe("generateSchedule", () => {
+  it("하루 인원을 채우고 참여 일수를 고르게 나눔", () => {
+    const r = generateSchedule(
+      input({ dates: datesBetween("2026-10-19", "2026-10-24"), perDay: 2 })
+    );
+    expect(r.entries.map((e) => e.names.length)).toEqual([2, 2, 2, 2, 2, 2]);
+    expect(countDays(r.entries)).toEqual({ 가: 4, 나: 4, 다: 4 });
+    expect(r.shortages).toEqual([]);
+  });
+
+  it("날짜는 중복 제거·정렬, 이름은 가나다순", () => {
+    const r = generateSchedule(
+      input({
+        dates: ["2026-10-20", "2026-10-19", "2026-10-20"],
+        pool: ["다", "나", "가"],
+        perDay: 3,
+      })
+    );
+    expect(r.entries).toEqual([
+      { date: "2026-10-19", names: ["가", "나", "다"] },
+      { date: "2026-10-20", names: ["가", "나", "다"] },
+    ]);
+  });
+
+  it("같은 seed면 같은 안, seed가 바뀌면 다른 안", () => {
+    const base = input({ pool: ["가", "나", "다", "라", "마"], perDay: 2 });
+    const first = generateSchedule(base);
+    expect(generateSchedule({ ...base })).toEqual(first);
+    const others = [2, 3, 4, 5, 6].map((seed) =>
+      JSON.stringify(generateSchedule({ ...base, seed }).entries)
+    );
+    expect(others.some((o) => o !== JSON.stringify(first.entries))).toBe(true);
+  });
+
+  it("잠근 칸은 그대로 두고 일수에도 포함", () => {
+    const locked = { "2026-10-19": ["가"], "2026-10-20": ["가"] };
+    for (const seed of [1, 2, 3]) {
+      const r = generateSchedule(input({ locked, seed }));
+      expect(r.entries[0].names).toEqual(["가"]);
+      expect(r.entries[1].names).toEqual(["가"]);
+      // 잠근 이틀로 이미 2일 → 남은 사흘은 나·다 먼저
+      expect(r.entries[2].names).not.toContain("가");
+      expect(r.entries[3].names).not.toContain("가");
+      expect(countDays(r.entries)["가"]).toBe(2);
+    }
+  });
+
+  it("잠근 인원이 하루 인원보다 많아도 빼지 않음", () => {
+    const r = generateSchedule(
+      input({ dates: ["2026-10-19"], locked: { "2026-10-19": ["가", "나"] } })
+    );
+    expect(r.entries).toEqual([{ date: "2026-10-19", names: ["가", "나"] }]);
+  });
+
+  it("하루 최대 인원 규칙이 하루 인원보다 작으면 그만큼만", () => {
+    const r = generateSchedule(input({ perDay: 3, rules: { maxPerDay: 2 } }));
+    expect(r.entries.every((e) => e.names.length === 2)).toBe(true);
+  });
+
+  it("참여 불가일·개인 가용성을 지키고, 못 채운 날은 부족으로 알림", () => {
+    const r = generateSchedule(
+      input({
+        dates: ["2026-10-19", "2026-10-20"],
+        perDay: 2,
+        rules: { unavailable: { 가: ["2026-10-19"] } },
+        available: (name, iso) => !(name === "나" && iso === "2026-10-19"),
+      })
+    );
+    expect(r.entries[0].names).toEqual(["다"]);
+    expect(r.shortages).toEqual([{ date: "2026-10-19", missing: 1 }]);
+  });
+
+  it("연속 참여 한도를 넘지 않음", () => {
+    const r = generateSchedule(
+      input({
+        dates: datesBetween("2026-10-19", "2026-10-28"),
+        perDay: 2,
+        rules: { maxConsecutive: 2 },
+      })
+    );
+    for (const name of ["가", "나", "다"]) {
+      let run = 0;
+      for (const e of r.entries) {
+        run = e.names.includes(name) ? run + 1 : 0;
+        expect(run).toBeLessThanOrEqual(2);
+      }
+    }
+    const filled = r.entries.reduce((s, e) => s + e.names.length, 0);
+    const missing = r.shortages.reduce((s, x) => s + x.missing, 0);
+    expect(filled + missing).toBe(20);
+  });
+
+  it("필수 역할이 있으면 매일 그 역할 한 명 이상", () => {
+    const directory = new Map<string, Person>([
+      ["가", newPerson({ name: "가", role: "LEAD" })],
+      ["나", newPerson({ name: "나", role: "LEAD" })],
+      ["다", newPerson({ name: "다", role: "ASSIST" })],
+      ["라", newPerson({ name: "라" })],
+    ]);
+    const r = generateSchedule(
+      input({
+        pool: ["다", "라", "가", "나"],
+        perDay: 2,
+        directory,
+        rules: { requiredRole: "LEAD" },
+      })
+    );
+    for (const e of r.entries)
+      expect(e.names.some((n) => n === "가" || n === "나")).toBe(true);
+    // 책임자끼리도 고르게
+    const days = countDays(r.entries);
+    expect(Math.abs(days["가"] - days["나"])).toBeLessThanOrEqual(1);
+  });
+
+  it("휴일 참여 금지면 일요일·공휴일은 잠근 칸만", () => {
+    const r = generateSchedule(
+      input({
+        dates: ["2026-10-09", "2026-10-17", "2026-10-18"], // 한글날, 토, 일
+        perDay: 2,
+        cal: fixedCalendar({ "2026-10-09": "한글날" }),
+        locked: { "2026-10-18": ["가"] },
+        rules: { noRedDays: true },
+      })
+    );
+    expect(namesOn(r.entries)[0]).toEqual([]);
+    expect(namesOn(r.entries)[1]).toHaveLength(2);
+    expect(namesOn(r.entries)[2]).toEqual(["가"]);
+    expect(r.shortages).toEqual([
+      { date: "2026-10-09", missing: 2 },
+      { date: "2026-10-18", missing: 1 },
+    ]);
+  });
+
+  it("휴무일은 근무 요일 설정 기준으로 휴일 참여가 적은 사람부터", () => {
+    // 10-17(토)에 가를 잠그고, 월·화·토에 한 명씩
+    const base = input({
+      dates: ["2026-10-17", "2026-10-19", "2026-10-20", "2026-10-24"],
+      pool: ["가", "나"],
+      locked: { "2026-10-17": ["가"] },
+    });
+    // 월~금 근무: 토요일이 휴무일 → 가는 이미 휴일 1회라 다음 토요일도 나
+    expect(namesOn(generateSchedule(base).entries)).toEqual([
+      ["가"],
+      ["나"],
+      ["나"],
+      ["나"],
+    ]);
+    // 화~토 근무: 월요일이 휴무일, 토요일은 평일처럼 일수 적은 사람
+    expect(
+      namesOn(
+        generateSchedule({
+          ...base,
+          workWeek: { ...defaultWorkWeek(), weekdays: [2, 3, 4, 5, 6] },
+        }).entries
+      )
+    ).toEqual([["가"], ["나"], ["가"], ["나"]]);
+  });
+});
@@ -0,0 +1,149 @@
+import { addDays, weekdayOf } from "./date";
+import { isRedDay, type HolidayCalendar } from "./holidays";
+import type { Person } from "./people";
+import type { RosterRules } from "./rules";
+import type { Entry } from "./types";
+import type { WorkWeek } from "./work-week";
+
+/** ============ Auto Scheduler ============ */
+/**
+ * 공정 배정 (탐욕 알고리즘)
+ * - 날짜 순서대로, 참여 일수가 적은 사람부터 채움
+ * - 휴무 요일(근무 요일 설정 밖)·공휴일은 휴일 참여 횟수가 적은 사람을 먼저 고려
+ * - 잠근 칸(날짜·이름)은 그대로 두고 나머지만 다시 뽑음
+ * - 동점은 seed 기반 난수로 섞어 "다시 생성" 때마다 다른 안을 냄
+ */
+export interface ScheduleInput {
+  dates: string[];
+  pool: string[];
+  perDay: number;
+  rules: RosterRules;
+  cal: HolidayCalendar;
+  workWeek: WorkWeek; // 휴일 참여 판정 (전체 근무 요일)
+  directory: Map<string, Person>; // 필수 역할 판정용
+  locked: Record<string, string[]>; // 날짜 → 고정 인원
+  available?: (name: string, iso: string) => boolean; // 개인 근무 요일 등
+  seed: number;
+}
+
+export interface ScheduleResult {
+  entries: Entry[];
+  shortages: { date: string; missing: number }[]; // 조건 때문에 다 못 채운 날짜
+}
+
+/** 재현 가능한 난수 (mulberry32) */
+function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const isOffDay = (iso: string, cal: HolidayCalendar, workWeek: WorkWeek) =>
+  !workWeek.weekdays.includes(weekdayOf(iso)) || cal.isHoliday(iso);
+
+export function generateSchedule(input: ScheduleInput): ScheduleResult {
+  const { rules, cal, workWeek } = input;
+  const rand = random(input.seed);
+  const tiebreak = new Map(input.pool.map((n) => [n, rand()]));
+  const days = new Map(input.pool.map((n) => [n, 0]));
+  const offDays = new Map(input.pool.map((n) => [n, 0]));
+  const assigned = new Map<string, Set<string>>(); // 날짜 → 인원
+  const dates = Array.from(new Set(input.dates)).sort();
+  const limit =
+    rules.maxPerDay !== null
+      ? Math.min(input.perDay, rules.maxPerDay)
+      : input.perDay;
+
+  // 잠근 칸은 미리 반영 (일수 집계에도 포함)
+  for (const date of dates) {
+    const fixed = new Set(input.locked[date] ?? []);
+    assigned.set(date, fixed);
+    for (const n of fixed) {
+      days.set(n, (days.get(n) ?? 0) + 1);
+      if (isOffDay(date, cal, workWeek))
+        offDays.set(n, (offDays.get(n) ?? 0) + 1);
+    }
+  }
+
+  /** date에 배정하면 연속 참여 한도를 넘는지 (앞뒤로 이어지는 날 포함) */
+  const breaksStreak = (name: string, date: string) => {
+    if (rules.maxConsecutive === null) return false;
+    const on = (iso: string) => assigned.get(iso)?.has(name) ?? false;
+    let run = 1;
+    for (let d = addDays(date, -1); on(d); d = addDays(d, -1)) run++;
+    for (let d = addDays(date, 1); on(d); d = addDays(d, 1)) run++;
+    return run > rules.maxConsecutive;
+  };
+
+  const shortages: ScheduleResult["shortages"] = [];
+  for (const date of dates) {
+    const chosen = assigned.get(date)!;
+    const off = isOffDay(date, cal, workWeek);
+    // 휴일 참여 금지면 빨간 날은 잠근 칸 외에 배정하지 않음
+    const closed = rules.noRedDays && isRedDay(date, cal);
+    const candidates = closed
+      ? []
+      : input.pool
+          .filter((n) => !chosen.has(n))
+          .filter((n) => !rules.unavailable[n]?.includes(date))
+          .filter((n) => input.available?.(n, date) ?? true);
+    const score = (n: string) =>
+      off
+        ? [offDays.get(n)!, days.get(n)!, tiebreak.get(n)!]
+        : [days.get(n)!, offDays.get(n)!, tiebreak.get(n)!];
+    const compare = (a: string, b: string) => {
+      const sa = score(a);
+      const sb = score(b);
+      for (let i = 0; i < sa.length; i++)
+        if (sa[i] !== sb[i]) return sa[i] - sb[i];
+      return 0;
+    };
+
+    const take = (n: string) => {
+      chosen.add(n);
+      days.set(n, days.get(n)! + 1);
+      if (off) offDays.set(n, offDays.get(n)! + 1);
+    };
+
+    // 필수 역할이 아직 없으면 그 역할부터 한 명
+    const hasRole = (n: string) =>
+      input.directory.get(n)?.role === rules.requiredRole;
+    if (
+      rules.requiredRole &&
+      chosen.size < limit &&
+      !Array.from(chosen).some(hasRole)
+    ) {
+      const lead = candidates
+        .filter(hasRole)
+        .filter((n) => !breaksStreak(n, date))
+        .sort(compare)[0];
+      if (lead) take(lead);
+    }
+
+    // 남은 자리는 일수가 적은 순으로 (한 명 뽑을 때마다 다시 정렬)
+    while (chosen.size < limit) {
+      const next = candidates
+        .filter((n) => !chosen.has(n) && !breaksStreak(n, date))
+        .sort(compare)[0];
+      if (!next) break;
+      take(next);
+    }
+    if (chosen.size < limit)
+      shortages.push({ date, missing: limit - chosen.size });
+  }
+
+  return {
+    entries: dates.map((date) => ({
+      date,
+      names: Array.from(assigned.get(date)!).sort((a, b) =>
+        a.localeCompare(b, "ko")
+      ),
+    })),
+    shortages,
+  };
+}
@@ -0,0 +1,294 @@
+import { describe, expect, it } from "vitest";
+import { addDays, datesBetween, weekdayOf } from "./date";
+import {
+  createHolidayCalendar,
+  defaultHolidaySettings,
+  type HolidayCalendar,
+} from "./holidays";
+import { areAllWeekendOrHolidayBetween, buildSegments } from "./segments";
+
+const fixedCalendar = (holidays: Record<string, string>): HolidayCalendar => ({
+  isHoliday: (iso) => iso in holidays,
+  holidayName: (iso) => holidays[iso] ?? null,
+});
+
+const NO_HOLIDAYS = fixedCalendar({});
+const KR = createHolidayCalendar(defaultHolidaySettings());
+const MON_FRI = [1, 2, 3, 4, 5];
+
+describe("ISO 날짜 계산", () => {
+  it("월·연도·윤년 경계를 넘김", () => {
+    expect(addDays("2026-01-31", 1)).toBe("2026-02-01");
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDays("2027-01-01", -1)).toBe("2026-12-31");
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2025-02-28", 1)).toBe("2025-03-01");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+  });
+
+  it("일광 절약 시간 전환일과 무관 (테스트 시간대: America/Santiago)", () => {
+    // 2026-09-06 00:00에 시계가 01:00으로 넘어가고, 2026-04-05 00:00에 다시 돌아옴
+    expect(addDays("2026-09-05", 1)).toBe("2026-09-06");
+    expect(addDays("2026-09-06", 1)).toBe("2026-09-07");
+    expect(addDays("2026-04-04", 1)).toBe("2026-04-05");
+    expect(addDays("2026-04-05", -1)).toBe("2026-04-04");
+    expect(datesBetween("2026-09-04", "2026-09-08")).toHaveLength(5);
+    expect(weekdayOf("2026-09-06")).toBe(0);
+  });
+
+  it("요일", () => {
+    expect(weekdayOf("2026-10-19")).toBe(1);
+    expect(weekdayOf("2027-01-01")).toBe(5);
+    expect(weekdayOf("2024-02-29")).toBe(4);
+  });
+});
+
+describe("areAllWeekendOrHolidayBetween", () => {
+  it("사이가 주말뿐이면 true, 평일이 끼면 false", () => {
+    expect(
+      areAllWeekendOrHolidayBetween(
+        "2026-10-16",
+        "2026-10-19",
+        NO_HOLIDAYS,
+        MON_FRI
+      )
+    ).toBe(true);
+    expect(
+      areAllWeekendOrHolidayBetween(
+        "2026-10-15",
+        "2026-10-19",
+        NO_HOLIDAYS,
+        MON_FRI
+      )
+    ).toBe(false);
+  });
+
+  it("바로 다음날이면 사이가 없으므로 true", () => {
+    expect(
+      areAllWeekendOrHolidayBetween(
+        "2026-10-19",
+        "2026-10-20",
+        NO_HOLIDAYS,
+        MON_FRI
+      )
+    ).toBe(true);
+  });
+
+  it("근무 요일 설정을 따름 (토요일 근무면 토요일은 휴무일이 아님)", () => {
+    expect(
+      areAllWeekendOrHolidayBetween(
+        "2026-10-16",
+        "2026-10-19",
+        NO_HOLIDAYS,
+        [1, 2, 3, 4, 5, 6]
+      )
+    ).toBe(false);
+  });
+});
+
+describe("buildSegments", () => {
+  it("빈 목록은 구간 없음", () => {
+    expect(buildSegments([], "KEEP", NO_HOLIDAYS, MON_FRI)).toEqual([]);
+    expect(buildSegments([], "RED", NO_HOLIDAYS, MON_FRI)).toEqual([]);
+    expect(buildSegments([], "ALL", NO_HOLIDAYS, MON_FRI)).toEqual([]);
+  });
+
+  describe("KEEP", () => {
+    it("달력상 이어진 날짜만 묶음", () => {
+      expect(
+        buildSegments(
+          ["2026-10-01", "2026-10-02", "2026-10-05"],
+          "KEEP",
+          NO_HOLIDAYS,
+          MON_FRI
+        )
+      ).toEqual([
+        ["2026-10-01", "2026-10-02"],
+        ["2026-10-05", "2026-10-05"],
+      ]);
+    });
+
+    it("월 경계를 넘어 이어짐", () => {
+      expect(
+        buildSegments(
+          ["2026-01-30", "2026-01-31", "2026-02-01"],
+          "KEEP",
+          NO_HOLIDAYS,
+          MON_FRI
+        )
+      ).toEqual([["2026-01-30", "2026-02-01"]]);
+    });
+
+    it("연도 경계를 넘어 이어짐", () => {
+      expect(
+        buildSegments(
+          ["2026-12-30", "2026-12-31", "2027-01-01"],
+          "KEEP",
+          NO_HOLIDAYS,
+          MON_FRI
+        )
+      ).toEqual([["2026-12-30", "2027-01-01"]]);
+    });
+
+    it("윤일 포함 여부에 따라 달라짐", () => {
+      expect(
+        buildSegments(
+          ["2024-02-28", "2024-02-29", "2024-03-01"],
+          "KEEP",
+          NO_HOLIDAYS,
+          MON_FRI
+        )
+      ).toEqual([["2024-02-28", "2024-03-01"]]);
+      expect(
+        buildSegments(
+          ["2024-02-28", "2024-03-01"],
+          "KEEP",
+          NO_HOLIDAYS,
+          MON_FRI
+        )
+      ).toEqual([
+        ["2024-02-28", "2024-02-28"],
+        ["2024-03-01", "2024-03-01"],
+      ]);
+      expect(
+        buildSegments(
+          ["2025-02-28", "2025-03-01"],
+          "KEEP",
+          NO_HOLIDAYS,
+          MON_FRI
+        )
+      ).toEqual([["2025-02-28", "2025-03-01"]]);
+    });
+
+    it("일광 절약 시간 전환일을 넘어 이어짐", () => {
+      expect(
+        buildSegments(
+          ["2026-09-05", "2026-09-06", "2026-09-07"],
+          "KEEP",
+          NO_HOLIDAYS,
+          MON_FRI
+        )
+      ).toEqual([["2026-09-05", "2026-09-07"]]);
+    });
+  });
+
+  describe("RED", () => {
+    it("주말을 사이에 둔 금·월을 이어 붙임", () => {
+      expect(
+        buildSegments(["2026-10-16", "2026-10-19"], "RED", NO_HOLIDAYS, MON_FRI)
+      ).toEqual([["2026-10-16", "2026-10-19"]]);
+    });
+
+    it("사이에 평일이 하나라도 있으면 끊음", () => {
+      expect(
+        buildSegments(["2026-10-15", "2026-10-19"], "RED", NO_HOLIDAYS, MON_FRI)
+      ).toEqual([
+        ["2026-10-15", "2026-10-15"],
+        ["2026-10-19", "2026-10-19"],
+      ]);
+    });
+
+    it("연말연시 공휴일 + 주말을 넘어 이어짐", () => {
+      const cal = fixedCalendar({ "2027-01-01": "신정" });
+      expect(
+        buildSegments(["2026-12-31", "2027-01-04"], "RED", cal, MON_FRI)
+      ).toEqual([["2026-12-31", "2027-01-04"]]);
+    });
+
+    it("추석 연휴(2026.09.24~26)와 일요일을 넘어 이어짐", () => {
+      expect(
+        buildSegments(["2026-09-23", "2026-09-28"], "RED", KR, MON_FRI)
+      ).toEqual([["2026-09-23", "2026-09-28"]]);
+      expect(
+        buildSegments(["2026-09-23", "2026-09-28"], "KEEP", KR, MON_FRI)
+      ).toHaveLength(2);
+    });
+
+    it("추석 다음 평일(2026.09.28)이 비면 끊음", () => {
+      expect(
+        buildSegments(["2026-09-23", "2026-09-29"], "RED", KR, MON_FRI)
+      ).toEqual([
+        ["2026-09-23", "2026-09-23"],
+        ["2026-09-29", "2026-09-29"],
+      ]);
+    });
+
+    it("개천절·추석·대체공휴일·한글날로 이어진 2025년 긴 연휴를 넘어 이어짐", () => {
+      // 10.03 개천절, 10.04~05 주말, 10.05~07 추석, 10.08 대체공휴일, 10.09 한글날
+      expect(
+        buildSegments(["2025-10-02", "2025-10-10"], "RED", KR, MON_FRI)
+      ).toEqual([["2025-10-02", "2025-10-10"]]);
+      expect(
+        buildSegments(["2025-09-30", "2025-10-10"], "RED", KR, MON_FRI)
+      ).toHaveLength(2);
+    });
+
+    it("회사 휴무일 지정으로 이어지고, 근무일 지정으로 끊김", () => {
+      const closed = createHolidayCalendar({
+        ...defaultHolidaySettings(),
+        closures: [{ date: "2026-10-15", name: "창립기념일" }],
+      });
+      expect(
+        buildSegments(["2026-10-14", "2026-10-16"], "RED", closed, MON_FRI)
+      ).toEqual([["2026-10-14", "2026-10-16"]]);
+
+      const working = createHolidayCalendar({
+        ...defaultHolidaySettings(),
+        workingDays: ["2026-09-25"],
+      });
+      expect(
+        buildSegments(["2026-09-23", "2026-09-28"], "RED", working, MON_FRI)
+      ).toHaveLength(2);
+    });
+
+    it("근무 요일이 다르면 휴무 요일도 다름 (토요일 근무)", () => {
+      expect(
+        buildSegments(
+          ["2026-10-16", "2026-10-19"],
+          "RED",
+          NO_HOLIDAYS,
+          [1, 2, 3, 4, 5, 6]
+        )
+      ).toHaveLength(2);
+    });
+
+    it("여러 구간이 연달아 이어짐", () => {
+      expect(
+        buildSegments(
+          ["2026-10-02", "2026-10-05", "2026-10-06", "2026-10-09"],
+          "RED",
+          NO_HOLIDAYS,
+          MON_FRI
+        )
+      ).toEqual([
+        ["2026-10-02", "2026-10-06"],
+        ["2026-10-09", "2026-10-09"],
+      ]);
+    });
+  });
+
+  describe("ALL", () => {
+    it("하루뿐이면 그 날짜 하나", () => {
+      expect(
+        buildSegments(["2026-10-19"], "ALL", NO_HOLIDAYS, MON_FRI)
+      ).toEqual([["2026-10-19", "2026-10-19"]]);
+    });
+
+    it("공백과 관계없이 처음~끝 한 구간", () => {
+      expect(
+        buildSegments(
+          ["2026-10-01", "2026-10-15", "2026-11-30"],
+          "ALL",
+          NO_HOLIDAYS,
+          MON_FRI
+        )
+      ).toEqual([["2026-10-01", "2026-11-30"]]);
+    });
+
+    it("연도를 넘어도 한 구간", () => {
+      expect(
+        buildSegments(["2026-12-01", "2027-02-01"], "ALL", NO_HOLIDAYS, MON_FRI)
+      ).toEqual([["2026-12-01", "2027-02-01"]]);
+    });
+  });
+});
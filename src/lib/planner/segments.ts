@@ -0,0 +1,56 @@
+import { addDays, isNextDay, weekdayOf } from "./date";
+import type { HolidayCalendar } from "./holidays";
+import type { MergeMode } from "./types";
+
+/** ============ Segment Builder ============ */
+export type Segment = [start: string, end: string]; // ISO, 양 끝 포함
+
+/** a 다음날~b 전날이 모두 '휴무 요일/공휴일'이면 true (휴무 요일 = 근무 요일이 아닌 날) */
+export function areAllWeekendOrHolidayBetween(
+  aISO: string,
+  bISO: string,
+  cal: HolidayCalendar,
+  workingWeekdays: number[]
+): boolean {
+  let cur = addDays(aISO, 1);
+  while (cur < bISO) {
+    const isDayOff = !workingWeekdays.includes(weekdayOf(cur));
+    const isHoliday = cal.isHoliday(cur);
+    if (!(isDayOff || isHoliday)) return false;
+    cur = addDays(cur, 1);
+  }
+  return true;
+}
+
+/**
+ * 정렬된 날짜 배열 + 공백일 모드 → 연속 구간 목록
+ * - KEEP: 달력상 이어진 날짜만 묶음
+ * - RED: 사이가 모두 휴무 요일/공휴일이면 이어서 묶음
+ * - ALL: 처음~끝을 한 구간으로
+ */
+export function buildSegments(
+  dates: string[],
+  mode: MergeMode,
+  cal: HolidayCalendar,
+  workingWeekdays: number[]
+): Segment[] {
+  if (!dates.length) return [];
+  if (mode === "ALL") return [[dates[0], dates[dates.length - 1]]];
+  const segments: Segment[] = [];
+  let start = dates[0];
+  let prev = dates[0];
+  for (let i = 1; i < dates.length; i++) {
+    const cur = dates[i];
+    const connect =
+      isNextDay(prev, cur) ||
+      (mode === "RED" &&
+        areAllWeekendOrHolidayBetween(prev, cur, cal, workingWeekdays));
+    if (connect) prev = cur;
+    else {
+      segments.push([start, prev]);
+      start = prev = cur;
+    }
+  }
+  segments.push([start, prev]);
+  return segments;
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildShareLink,
+  parseSnapshot,
+  readShareHash,
+  serializeSnapshot,
+  SHARE_HASH_PREFIX,
+} from "./share";
+import { emptyPlannerState, type PlannerState } from "./types";
+import { SCHEMA_VERSION } from "./workspace";
+
+const sampleState = (): PlannerState => {
+  const base = emptyPlannerState();
+  return {
+    ...base,
+    tracks: [
+      {
+        ...base.tracks[0],
+        entries: [
+          {
+            date: "2026-10-19",
+            names: ["김민수", "이영희"],
+            slots: { 이영희: { kind: "AM" } },
+          },
+          { date: "2026-10-20", names: ["김민수"] },
+        ],
+      },
+    ],
+    selectedDates: ["2026-10-19", "2026-10-20"],
+  };
+};
+
+const file = (patch: Record<string, unknown>) =>
+  JSON.stringify({
+    format: "attendmark",
+    version: SCHEMA_VERSION,
+    name: "10월 점검",
+    state: sampleState(),
+    ...patch,
+  });
+
+const errorOf = (text: string) => {
+  const r = parseSnapshot(text);
+  return r.ok ? null : r.error;
+};
+
+describe("parseSnapshot", () => {
+  it("내보낸 파일을 그대로 다시 읽음", () => {
+    const state = sampleState();
+    const r = parseSnapshot(serializeSnapshot("10월 점검", state));
+    expect(r).toEqual({ ok: true, name: "10월 점검", state });
+  });
+
+  it("이름이 없으면 기본 이름", () => {
+    const r = parseSnapshot(file({ name: "" }));
+    expect(r.ok && r.name).toBe("공유 명단");
+  });
+
+  it("JSON이 아니거나 다른 파일이면 오류", () => {
+    expect(errorOf("{")).toBe("JSON 형식이 올바르지 않습니다.");
+    expect(errorOf("null")).toBe(
+      "점검 참여자 집계 도구에서 만든 파일이 아닙니다."
+    );
+    expect(errorOf("[]")).toBe(
+      "점검 참여자 집계 도구에서 만든 파일이 아닙니다."
+    );
+    expect(errorOf(file({ format: "other" }))).toBe(
+      "점검 참여자 집계 도구에서 만든 파일이 아닙니다."
+    );
+  });
+
+  it("버전이 없거나 더 새로우면 오류", () => {
+    expect(errorOf(file({ version: undefined }))).toBe(
+      "파일 버전 정보가 없습니다."
+    );
+    expect(errorOf(file({ version: 1.5 }))).toBe("파일 버전 정보가 없습니다.");
+    expect(errorOf(file({ version: SCHEMA_VERSION + 1 }))).toContain(
+      `더 새로운 버전(v${SCHEMA_VERSION + 1})`
+    );
+  });
+
+  it("상태가 없거나 명단이 잘못되면 경로와 함께 오류 (5건까지)", () => {
+    expect(errorOf(file({ state: [] }))).toBe("플래너 상태(state)가 없습니다.");
+    const entries = Array.from({ length: 7 }, () => ({
+      date: "2026-02-30",
+      names: ["가"],
+    }));
+    const error = errorOf(file({ state: { tracks: [{ id: "t", entries }] } }))!;
+    expect(error.split("\n")).toEqual([
+      "파일 내용이 올바르지 않습니다.",
+      ...[0, 1, 2, 3, 4].map(
+        (i) =>
+          `tracks[0].entries[${i}].date: 날짜 형식(YYYY-MM-DD)이 아니거나 없는 날짜입니다.`
+      ),
+      "외 2건",
+    ]);
+    expect(
+      errorOf(
+        file({
+          state: {
+            tracks: [
+              {
+                id: "t",
+                entries: [
+                  { date: "2026-10-19", names: [" 가"], slots: { 나: {} } },
+                ],
+              },
+            ],
+          },
+        })
+      )
+    ).toBe(
+      [
+        "파일 내용이 올바르지 않습니다.",
+        "tracks[0].entries[0].names[0]: 앞뒤 공백이 있습니다.",
+        "tracks[0].entries[0].slots.나: 명단에 없는 이름입니다.",
+      ].join("\n")
+    );
+  });
+
+  it("예전 버전 파일은 최신 형태로 변환 (v3: 단일 명단 → 기본 트랙)", () => {
+    const r = parseSnapshot(
+      JSON.stringify({
+        format: "attendmark",
+        version: 3,
+        name: "예전 파일",
+        state: {
+          entries: [{ date: "2026-10-19", names: ["가"] }],
+          selectedDates: ["2026-10-19"],
+        },
+      })
+    );
+    expect(r.ok).toBe(true);
+    if (!r.ok) return;
+    expect(r.state.tracks).toHaveLength(1);
+    expect(r.state.tracks[0].entries).toEqual([
+      { date: "2026-10-19", names: ["가"] },
+    ]);
+    expect(r.state.activeTrackId).toBe(r.state.tracks[0].id);
+    expect(r.state.selectedDates).toEqual(["2026-10-19"]);
+  });
+});
+
+describe("공유 링크", () => {
+  const hashOf = (link: string) => link.slice(link.indexOf("#"));
+
+  it("링크를 만들고 해시에서 모드와 스냅샷을 다시 읽음", async () => {
+    const state = sampleState();
+    const link = await buildShareLink(
+      "https://example.com/planner#old",
+      serializeSnapshot("10월 점검", state),
+      "view"
+    );
+    expect(
+      link.startsWith(`https://example.com/planner${SHARE_HASH_PREFIX}view.`)
+    ).toBe(true);
+    // base64url: URL에 그대로 넣을 수 있는 문자만
+    expect(link.slice(link.indexOf("view.") + 5)).toMatch(/^[\w-]+$/);
+    expect(await readShareHash(hashOf(link))).toEqual({
+      mode: "view",
+      name: "10월 점검",
+      state,
+    });
+
+    const edit = await buildShareLink("/", file({}), "edit");
+    const r = await readShareHash(hashOf(edit));
+    expect("mode" in r && r.mode).toBe("edit");
+  });
+
+  it("모드가 없거나 모르는 모드면 형식 오류", async () => {
+    const error = { error: "공유 링크 형식이 올바르지 않습니다." };
+    expect(await readShareHash(`${SHARE_HASH_PREFIX}abc`)).toEqual(error);
+    expect(await readShareHash(`${SHARE_HASH_PREFIX}admin.abc`)).toEqual(error);
+  });
+
+  it("잘린 링크는 손상 오류", async () => {
+    const link = await buildShareLink("/", file({}), "view");
+    const cut = hashOf(link).slice(0, -8);
+    const r = await readShareHash(cut);
+    expect("error" in r && r.error).toContain("잘렸거나 손상");
+  });
+
+  it("압축은 풀려도 내용이 잘못되면 스냅샷 오류를 그대로 알림", async () => {
+    const link = await buildShareLink("/", file({ version: 99 }), "view");
+    const r = await readShareHash(hashOf(link));
+    expect("error" in r && r.error).toContain("더 새로운 버전(v99)");
+  });
+});
@@ -0,0 +1,140 @@
+import type { PlannerState } from "./types";
+import { isObject, stateErrors } from "./validate";
+import { migrateState, SCHEMA_VERSION } from "./workspace";
+
+/** ============ Share (JSON 파일 / 공유 링크) ============ */
+/**
+ * 파일과 링크 모두 같은 JSON 형식을 사용
+ * - format/version으로 다른 파일이나 더 새로운 버전을 구분
+ * - 예전 버전은 작업공간과 같은 migrations로 변환
+ * - 링크는 JSON을 deflate-raw로 압축해 base64url로 URL 해시에 넣음 (서버로 전송되지 않음)
+ */
+const FORMAT = "attendmark";
+export const SHARE_HASH_PREFIX = "#share=";
+
+export type ShareMode = "view" | "edit";
+
+export interface SharedSnapshot {
+  name: string;
+  state: PlannerState;
+}
+
+export type ParseResult =
+  | ({ ok: true } & SharedSnapshot)
+  | { ok: false; error: string };
+
+export function serializeSnapshot(name: string, state: PlannerState): string {
+  return JSON.stringify(
+    {
+      format: FORMAT,
+      version: SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      name,
+      state,
+    },
+    null,
+    2
+  );
+}
+
+/** JSON 문자열 → 플래너 상태 (형식이 맞지 않으면 사용자에게 보여줄 오류) */
+export function parseSnapshot(text: string): ParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "JSON 형식이 올바르지 않습니다." };
+  }
+  if (!isObject(raw) || raw.format !== FORMAT)
+    return {
+      ok: false,
+      error: "점검 참여자 집계 도구에서 만든 파일이 아닙니다.",
+    };
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0)
+    return { ok: false, error: "파일 버전 정보가 없습니다." };
+  if (version > SCHEMA_VERSION)
+    return {
+      ok: false,
+      error: `더 새로운 버전(v${version})에서 만든 파일입니다. 페이지를 새로고침해 최신 버전으로 여세요.`,
+    };
+  if (!isObject(raw.state))
+    return { ok: false, error: "플래너 상태(state)가 없습니다." };
+  const errors = stateErrors(raw.state, version);
+  if (errors.length > 0)
+    return {
+      ok: false,
+      error: `파일 내용이 올바르지 않습니다.\n${errors.slice(0, 5).join("\n")}${
+        errors.length > 5 ? `\n외 ${errors.length - 5}건` : ""
+      }`,
+    };
+  return {
+    ok: true,
+    name: typeof raw.name === "string" && raw.name ? raw.name : "공유 명단",
+    state: migrateState(raw.state, version),
+  };
+}
+
+/** ============ Share Link ============ */
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000)
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): Uint8Array<ArrayBuffer> {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function pipe(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: GenericTransformStream
+) {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+/** 공유 링크 (현재 페이지 주소 + #share=<view|edit>.<압축 데이터>) */
+export async function buildShareLink(
+  baseUrl: string,
+  json: string,
+  mode: ShareMode
+): Promise<string> {
+  const packed = await pipe(
+    new TextEncoder().encode(json),
+    new CompressionStream("deflate-raw")
+  );
+  return `${baseUrl.split("#")[0]}${SHARE_HASH_PREFIX}${mode}.${toBase64Url(
+    packed
+  )}`;
+}
+
+/** URL 해시 → 공유 모드 + 스냅샷 */
+export async function readShareHash(
+  hash: string
+): Promise<({ mode: ShareMode } & SharedSnapshot) | { error: string }> {
+  const body = hash.slice(SHARE_HASH_PREFIX.length);
+  const dot = body.indexOf(".");
+  const mode = body.slice(0, dot);
+  if (dot === -1 || (mode !== "view" && mode !== "edit"))
+    return { error: "공유 링크 형식이 올바르지 않습니다." };
+  let json: string;
+  try {
+    const bytes = await pipe(
+      fromBase64Url(body.slice(dot + 1)),
+      new DecompressionStream("deflate-raw")
+    );
+    json = new TextDecoder().decode(bytes);
+  } catch {
+    return {
+      error:
+        "공유 링크가 잘렸거나 손상되었습니다. 링크 전체를 복사했는지 확인하세요.",
+    };
+  }
+  const parsed = parseSnapshot(json);
+  if (!parsed.ok) return { error: parsed.error };
+  return { mode, name: parsed.name, state: parsed.state };
+}
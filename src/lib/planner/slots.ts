@@ -0,0 +1,106 @@
+/** ============ Slots (오전 / 오후 / 시간 지정) ============ */
+/**
+ * 날짜별 인원의 참여 구분 (Entry.slots에 이름별로 저장, 없으면 종일)
+ * - 오전·오후는 0.5일, 시간 지정은 근무 시간 ÷ 하루 기준 시간 (최대 1일)
+ */
+export type Slot =
+  | { kind: "AM" }
+  | { kind: "PM" }
+  | { kind: "TIME"; start: string; end: string }; // "HH:MM"
+
+export type SlotKind = Slot["kind"];
+
+export const SLOT_LABELS: Record<SlotKind, string> = {
+  AM: "오전",
+  PM: "오후",
+  TIME: "시간 지정",
+};
+
+/** 하루(1일)로 치는 근무 시간 */
+export const DAY_HOURS = 8;
+
+const TIME = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+};
+
+/** 시간 지정 구간의 시간 수 (끝이 시작보다 이르면 자정을 넘긴 것으로 봄) */
+export function slotHours(slot: Slot | undefined): number {
+  if (!slot) return DAY_HOURS;
+  if (slot.kind !== "TIME") return DAY_HOURS / 2;
+  const diff = minutesOf(slot.end) - minutesOf(slot.start);
+  return (diff <= 0 ? diff + 24 * 60 : diff) / 60;
+}
+
+/** 일수 가중치: 종일 1, 오전/오후 0.5, 시간 지정은 시간 ÷ 8 (최대 1) */
+export function slotWeight(slot: Slot | undefined): number {
+  if (!slot) return 1;
+  if (slot.kind !== "TIME") return 0.5;
+  return Math.min(1, slotHours(slot) / DAY_HOURS);
+}
+
+/** 표시용: "오전" / "오후" / "09:00~11:00" (종일이면 "") */
+export function slotLabel(slot: Slot | undefined): string {
+  if (!slot) return "";
+  if (slot.kind === "TIME") return `${slot.start}~${slot.end}`;
+  return SLOT_LABELS[slot.kind];
+}
+
+/**
+ * 같은 날 같은 인원의 참여 구분 두 개 합치기 (트랙 합산, 가져오기 병합)
+ * - 한쪽이라도 종일이면 종일, 같은 구분이면 그대로, 서로 다른 반일·시간 지정이면 종일
+ */
+export function unionSlots(
+  a: Slot | undefined,
+  b: Slot | undefined
+): Slot | undefined {
+  if (!a || !b) return undefined;
+  return slotLabel(a) === slotLabel(b) ? a : undefined;
+}
+
+/** 하루 중 차지하는 구간 (분, [시작, 끝)) — 오전 00:00~12:00, 오후 12:00~24:00 */
+function rangesOf(slot: Slot | undefined): [number, number][] {
+  if (!slot) return [[0, 24 * 60]];
+  if (slot.kind === "AM") return [[0, 12 * 60]];
+  if (slot.kind === "PM") return [[12 * 60, 24 * 60]];
+  const start = minutesOf(slot.start);
+  const end = minutesOf(slot.end);
+  // 자정을 넘기면 두 구간으로 나눔
+  return end > start
+    ? [[start, end]]
+    : [
+        [start, 24 * 60],
+        [0, end],
+      ];
+}
+
+/** 두 참여 구분이 시간상 겹치는지 (종일은 모든 구분과 겹침) */
+export function slotsOverlap(
+  a: Slot | undefined,
+  b: Slot | undefined
+): boolean {
+  return rangesOf(a).some(([s1, e1]) =>
+    rangesOf(b).some(([s2, e2]) => s1 < e2 && s2 < e1)
+  );
+}
+
+/** 저장 데이터 → Slot (형식이 맞지 않으면 종일로 봄) */
+export function normalizeSlot(raw: unknown): Slot | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const x = raw as Record<string, unknown>;
+  if (x.kind === "AM" || x.kind === "PM") return { kind: x.kind };
+  if (
+    x.kind === "TIME" &&
+    typeof x.start === "string" &&
+    typeof x.end === "string" &&
+    TIME.test(x.start) &&
+    TIME.test(x.end) &&
+    x.start !== x.end
+  )
+    return { kind: "TIME", start: x.start, end: x.end };
+  return undefined;
+}
+
+/** 가중 일수 합계의 부동소수 오차 정리 (소수 둘째 자리까지): 2 / 2.5 / 0.38 */
+export const roundDays = (n: number) => Math.round(n * 100) / 100;
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import type { HolidayCalendar } from "./holidays";
+import { computeStats, periodKey, statsToCsv } from "./stats";
+import type { Entry } from "./types";
+import { defaultWorkWeek, type WorkWeek } from "./work-week";
+
+const fixedCalendar = (holidays: Record<string, string>): HolidayCalendar => ({
+  isHoliday: (iso) => iso in holidays,
+  holidayName: (iso) => holidays[iso] ?? null,
+});
+
+const NO_HOLIDAYS = fixedCalendar({});
+
+const entry = (date: string, ...names: string[]): Entry => ({ date, names });
+
+const byName = (entries: Entry[], ww: WorkWeek, cal = NO_HOLIDAYS) =>
+  Object.fromEntries(
+    computeStats(entries, cal, ww, "MONTH").people.map((p) => [p.name, p])
+  );
+
+// 2026-10-17 토, 10-18 일, 10-19 월, 10-20 화
+const WEEKEND_AND_MONDAY = [
+  entry("2026-10-17", "가"),
+  entry("2026-10-18", "가"),
+  entry("2026-10-19", "가"),
+  entry("2026-10-20", "가"),
+];
+
+describe("computeStats", () => {
+  it("기본 근무 요일(월~금): 토·일과 공휴일이 휴무일", () => {
+    const cal = fixedCalendar({ "2026-10-20": "창립기념일" });
+    expect(
+      byName(WEEKEND_AND_MONDAY, defaultWorkWeek(), cal)["가"].offDays
+    ).toBe(3);
+  });
+
+  it("화~토 근무면 일·월이 휴무일이고 토요일은 근무일", () => {
+    const ww = { ...defaultWorkWeek(), weekdays: [2, 3, 4, 5, 6] };
+    expect(byName(WEEKEND_AND_MONDAY, ww)["가"].offDays).toBe(2);
+  });
+
+  it("개인 근무 요일이 있으면 그 인원은 개인 설정 기준", () => {
+    const ww: WorkWeek = {
+      ...defaultWorkWeek(),
+      perPerson: { 나: [0, 6] }, // 주말 근무자
+    };
+    const stats = byName(
+      [
+        ...WEEKEND_AND_MONDAY,
+        entry("2026-10-17", "나"),
+        entry("2026-10-19", "나"),
+      ],
+      ww
+    );
+    expect(stats["가"].offDays).toBe(2);
+    expect(stats["나"].offDays).toBe(1);
+  });
+
+  it("휴무일 일수도 반일 가중치 반영", () => {
+    const stats = byName(
+      [{ date: "2026-10-17", names: ["가"], slots: { 가: { kind: "AM" } } }],
+      defaultWorkWeek()
+    );
+    expect(stats["가"]).toMatchObject({ days: 0.5, offDays: 0.5 });
+  });
+
+  it("같은 날짜가 여러 번 나오면 종일이 우선", () => {
+    const stats = byName(
+      [
+        { date: "2026-10-19", names: ["가"], slots: { 가: { kind: "PM" } } },
+        entry("2026-10-19", "가"),
+      ],
+      defaultWorkWeek()
+    );
+    expect(stats["가"].days).toBe(1);
+  });
+
+  it("최장 연속, 기간별 일수, 평균 대비 과다/과소", () => {
+    const entries = [
+      entry("2026-09-29", "가", "나"),
+      entry("2026-09-30", "가"),
+      entry("2026-10-01", "가"),
+      entry("2026-10-05", "가", "다"),
+      entry("2026-10-06", "나"),
+    ];
+    const stats = computeStats(
+      entries,
+      NO_HOLIDAYS,
+      defaultWorkWeek(),
+      "MONTH"
+    );
+    expect(stats.total).toBe(7);
+    expect(stats.periods).toEqual(["2026-09", "2026-10"]);
+    expect(stats.people.map((p) => [p.name, p.days, p.load])).toEqual([
+      ["가", 4, "OVER"],
+      ["나", 2, "FAIR"],
+      ["다", 1, "UNDER"],
+    ]);
+    expect(stats.people[0]).toMatchObject({
+      longestStreak: 3,
+      byPeriod: { "2026-09": 2, "2026-10": 2 },
+    });
+  });
+
+  it("기간 제한", () => {
+    const stats = computeStats(
+      WEEKEND_AND_MONDAY,
+      NO_HOLIDAYS,
+      defaultWorkWeek(),
+      "QUARTER",
+      { from: "2026-10-19" }
+    );
+    expect(stats.people[0]).toMatchObject({
+      days: 2,
+      offDays: 0,
+      byPeriod: { "2026-Q4": 2 },
+    });
+  });
+});
+
+describe("periodKey / statsToCsv", () => {
+  it("월·분기 키와 CSV 머리글", () => {
+    expect(periodKey("2026-12-31", "MONTH")).toBe("2026-12");
+    expect(periodKey("2026-12-31", "QUARTER")).toBe("2026-Q4");
+    expect(periodKey("2027-01-01", "QUARTER")).toBe("2027-Q1");
+    const csv = statsToCsv(
+      computeStats(
+        [entry("2026-10-17", "가")],
+        NO_HOLIDAYS,
+        defaultWorkWeek(),
+        "MONTH"
+      )
+    );
+    expect(csv.split("\r\n")).toEqual([
+      "\uFEFF성명,참여일수,휴무일,최장 연속,평균 대비,2026.10",
+      "가,1,1,1,0.0,1",
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { isNextDay, weekdayOf } from "./date";
+import type { HolidayCalendar } from "./holidays";
+import { roundDays, slotWeight, unionSlots, type Slot } from "./slots";
+import type { Entry } from "./types";
+import { workdaysOf, type WorkWeek } from "./work-week";
+
+/** ============ Attendance Statistics ============ */
+export type StatsPeriod = "MONTH" | "QUARTER";
+
+export interface PersonStats {
+  name: string;
+  days: number; // 기간 내 참여 일수 (반일 0.5 등 가중치 반영)
+  offDays: number; // 휴무일(근무 요일이 아닌 날·공휴일) 참여 일수 (가중치 반영)
+  longestStreak: number; // 최장 연속 참여 일수 (달력 기준)
+  byPeriod: Record<string, number>; // 기간 키("2026-10" | "2026-Q4") → 일수
+  deviation: number; // 팀 평균 대비 차이 (일)
+  load: "OVER" | "UNDER" | "FAIR";
+}
+
+export interface TeamStats {
+  people: PersonStats[];
+  periods: string[]; // 등장한 기간 키 (오름차순)
+  average: number; // 1인 평균 참여 일수
+  total: number;
+}
+
+/** 평균 대비 ±20%를 넘으면 과다/과소로 표시 */
+export const FAIRNESS_TOLERANCE = 0.2;
+
+export const periodKey = (iso: string, period: StatsPeriod) =>
+  period === "MONTH"
+    ? iso.slice(0, 7)
+    : `${iso.slice(0, 4)}-Q${
+        Math.floor((Number(iso.slice(5, 7)) - 1) / 3) + 1
+      }`;
+
+/** 기간 키 표시: "2026-10" → "2026.10", "2026-Q4" → "2026 4분기" */
+export const periodLabel = (key: string) =>
+  key.includes("Q")
+    ? `${key.slice(0, 4)} ${key.slice(6)}분기`
+    : key.replace("-", ".");
+
+function longestStreak(sorted: string[]): number {
+  let best = 0;
+  let run = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    run = i > 0 && isNextDay(sorted[i - 1], sorted[i]) ? run + 1 : 1;
+    best = Math.max(best, run);
+  }
+  return best;
+}
+
+/**
+ * 인원별 통계
+ * - from/to(ISO, 포함)로 기간을 제한하면 그 안의 날짜만 집계
+ * - 일수는 참여 구분 가중치(종일 1, 오전/오후 0.5, 시간 지정은 시간 ÷ 8)로 셈
+ * - 휴무일은 인원별 근무 요일(개인 설정 우선) 기준
+ * - 팀 평균은 기간 내 한 번이라도 참여한 인원 기준
+ */
+export function computeStats(
+  entries: Entry[],
+  cal: HolidayCalendar,
+  workWeek: WorkWeek,
+  period: StatsPeriod,
+  range: { from?: string; to?: string } = {}
+): TeamStats {
+  const inRange = (iso: string) =>
+    (!range.from || iso >= range.from) && (!range.to || iso <= range.to);
+
+  // 이름 → ISO → 참여 구분 (종일이면 undefined)
+  const personDates = new Map<string, Map<string, Slot | undefined>>();
+  for (const e of entries) {
+    if (!inRange(e.date)) continue;
+    for (const n of e.names) {
+      const m = personDates.get(n) ?? new Map<string, Slot | undefined>();
+      const slot = e.slots?.[n];
+      personDates.set(
+        n,
+        m.set(e.date, m.has(e.date) ? unionSlots(m.get(e.date), slot) : slot)
+      );
+    }
+  }
+
+  const rows: Omit<PersonStats, "deviation" | "load">[] = [];
+  const periods = new Set<string>();
+  for (const [name, slots] of personDates) {
+    const dates = Array.from(slots.keys()).sort();
+    const weight = (iso: string) => slotWeight(slots.get(iso));
+    const workdays = workdaysOf(workWeek, name);
+    const isOffDay = (iso: string) =>
+      !workdays.includes(weekdayOf(iso)) || cal.isHoliday(iso);
+    const sum = (list: string[]) =>
+      roundDays(list.reduce((n, iso) => n + weight(iso), 0));
+    const byPeriod: Record<string, number> = {};
+    for (const iso of dates) {
+      const key = periodKey(iso, period);
+      byPeriod[key] = roundDays((byPeriod[key] ?? 0) + weight(iso));
+      periods.add(key);
+    }
+    rows.push({
+      name,
+      days: sum(dates),
+      offDays: sum(dates.filter(isOffDay)),
+      longestStreak: longestStreak(dates),
+      byPeriod,
+    });
+  }
+
+  const total = roundDays(rows.reduce((s, r) => s + r.days, 0));
+  const average = rows.length ? total / rows.length : 0;
+  const people: PersonStats[] = rows
+    .map((r) => {
+      const deviation = r.days - average;
+      const ratio = average ? deviation / average : 0;
+      return {
+        ...r,
+        deviation,
+        load:
+          ratio > FAIRNESS_TOLERANCE
+            ? ("OVER" as const)
+            : ratio < -FAIRNESS_TOLERANCE
+            ? ("UNDER" as const)
+            : ("FAIR" as const),
+      };
+    })
+    .sort((a, b) => b.days - a.days || a.name.localeCompare(b.name, "ko"));
+
+  return { people, periods: Array.from(periods).sort(), average, total };
+}
+
+/** CSV (엑셀에서 한글이 깨지지 않도록 BOM 포함) */
+export function statsToCsv(stats: TeamStats): string {
+  const esc = (v: string | number) => {
+    const s = String(v);
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  const header = [
+    "성명",
+    "참여일수",
+    "휴무일",
+    "최장 연속",
+    "평균 대비",
+    ...stats.periods.map(periodLabel),
+  ];
+  const lines = stats.people.map((p) => [
+    p.name,
+    p.days,
+    p.offDays,
+    p.longestStreak,
+    p.deviation.toFixed(1),
+    ...stats.periods.map((k) => p.byPeriod[k] ?? 0),
+  ]);
+  return (
+    "\uFEFF" + [header, ...lines].map((r) => r.map(esc).join(",")).join("\r\n")
+  );
+}
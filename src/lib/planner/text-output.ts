@@ -0,0 +1,91 @@
+/** ============ Text Output (복사용) ============ */
+/** 자동 생성 표 그룹 (같은 날짜세트를 가진 인원 묶음) */
+export interface OutputGroup {
+  names: string[];
+  periods: string; // 포맷된 기간 문자열
+  days: number;
+}
+
+export type OutputFormat = "LINES" | "TSV" | "MARKDOWN";
+
+export const DEFAULT_LINE_TEMPLATE = "{name}: {periods} ({days}일)";
+
+/**
+ * 한 줄 템플릿 치환
+ * - {name}: 성명, {periods}: 기간, {days}: 참여일수
+ */
+export function fillLineTemplate(
+  template: string,
+  row: { name: string; periods: string; days: number }
+): string {
+  return template
+    .replace(/\{name\}/g, row.name)
+    .replace(/\{periods\}/g, row.periods)
+    .replace(/\{days\}/g, String(row.days));
+}
+
+/** 인원별 한 줄씩 (성명 가나다순) */
+export function renderLines(groups: OutputGroup[], template: string): string {
+  return groups
+    .flatMap((g) => g.names.map((name) => ({ ...g, name })))
+    .sort((a, b) => a.name.localeCompare(b.name, "ko"))
+    .map((r) => fillLineTemplate(template, r))
+    .join("\n");
+}
+
+const periodCell = (g: OutputGroup) => `${g.periods}.(${g.days}일)`;
+
+/** 탭 구분 표: 같은 그룹 이름은 한 셀에 묶음 (HWP/Word/Excel 붙여넣기용) */
+export function renderTsv(groups: OutputGroup[]): string {
+  const clean = (s: string) => s.replace(/[\t\n]+/g, " ");
+  return [
+    "성명\t점검참여일(기간)",
+    ...groups.map(
+      (g) => `${clean(g.names.join(", "))}\t${clean(periodCell(g))}`
+    ),
+  ].join("\n");
+}
+
+export function renderMarkdown(groups: OutputGroup[]): string {
+  const esc = (s: string) => s.replace(/\|/g, "\\|");
+  return [
+    "| 성명 | 점검참여일(기간) |",
+    "| --- | --- |",
+    ...groups.map(
+      (g) => `| ${esc(g.names.join(", "))} | ${esc(periodCell(g))} |`
+    ),
+  ].join("\n");
+}
+
+const escHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** HTML 표 (rowspan 병합) — 클립보드 text/html 용. HWP/Word에서 병합 셀로 붙여넣어짐 */
+export function renderHtmlTable(groups: OutputGroup[]): string {
+  const td = 'style="border:1px solid #000;padding:2px 6px"';
+  const rows = groups.flatMap((g) =>
+    g.names.map(
+      (name, i) =>
+        `<tr><td ${td}>${escHtml(name)}</td>${
+          i === 0
+            ? `<td ${td} rowspan="${g.names.length}">${escHtml(
+                periodCell(g)
+              )}</td>`
+            : ""
+        }</tr>`
+    )
+  );
+  return `<table style="border-collapse:collapse"><tr><th ${td}>성명</th><th ${td}>점검참여일(기간)</th></tr>${rows.join(
+    ""
+  )}</table>`;
+}
+
+export function renderOutput(
+  format: OutputFormat,
+  groups: OutputGroup[],
+  template: string
+): string {
+  if (format === "TSV") return renderTsv(groups);
+  if (format === "MARKDOWN") return renderMarkdown(groups);
+  return renderLines(groups, template);
+}
@@ -0,0 +1,153 @@
+import { mergeEntries } from "./entries";
+import type { Violation } from "./rules";
+import { slotsOverlap, type Slot } from "./slots";
+import type { Entry, PlannerState } from "./types";
+
+/** ============ Tracks (현장·점검 종류별 명단) ============ */
+/**
+ * 한 작업공간 안에서 소방·전기·승강기 점검처럼 따로 관리하는 명단
+ * - 트랙마다 날짜별 명단(entries)을 따로 가짐
+ * - 선택 날짜, 명부, 규칙 등 나머지 설정은 모든 트랙이 함께 씀
+ */
+export type TrackColor =
+  | "blue"
+  | "green"
+  | "orange"
+  | "purple"
+  | "pink"
+  | "teal";
+
+export interface Track {
+  id: string;
+  name: string; // 점검 종류 (예: 소방 점검)
+  site: string; // 현장 ("" = 미지정)
+  color: TrackColor;
+  entries: Entry[];
+}
+
+export const TRACK_COLORS: TrackColor[] = [
+  "blue",
+  "green",
+  "orange",
+  "purple",
+  "pink",
+  "teal",
+];
+
+/** 색상별 Tailwind 클래스 (점 / 칩) */
+export const TRACK_COLOR_CLASSES: Record<
+  TrackColor,
+  { dot: string; chip: string }
+> = {
+  blue: { dot: "bg-blue-500", chip: "bg-blue-100 border-blue-400" },
+  green: { dot: "bg-green-500", chip: "bg-green-100 border-green-400" },
+  orange: { dot: "bg-orange-500", chip: "bg-orange-100 border-orange-400" },
+  purple: { dot: "bg-purple-500", chip: "bg-purple-100 border-purple-400" },
+  pink: { dot: "bg-pink-500", chip: "bg-pink-100 border-pink-400" },
+  teal: { dot: "bg-teal-500", chip: "bg-teal-100 border-teal-400" },
+};
+
+export const DEFAULT_TRACK_ID = "main";
+
+export const newTrack = (patch: Partial<Track> = {}): Track => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+  name: "",
+  site: "",
+  color: "blue",
+  entries: [],
+  ...patch,
+});
+
+/** 트랙이 하나도 없을 때 쓰는 기본 트랙 (이전 버전 데이터도 여기로 옮김) */
+export const defaultTrack = (entries: Entry[] = []): Track =>
+  newTrack({ id: DEFAULT_TRACK_ID, name: "기본", entries });
+
+/** 표시 이름: "현장 · 점검 종류" */
+export const trackLabel = (t: Track) => {
+  const name = t.name.trim() || "이름 없음";
+  return t.site.trim() ? `${t.site.trim()} · ${name}` : name;
+};
+
+/** 여러 트랙의 명단을 날짜별로 합침 (합산 집계용) */
+export const combinedEntries = (tracks: Track[]): Entry[] =>
+  tracks.reduce<Entry[]>((acc, t) => mergeEntries(acc, t.entries), []);
+
+/**
+ * 한 트랙의 명단 교체 (API로 받은 명단 등)
+ * - 선택 날짜는 모든 트랙 공용: 새 명단의 날짜는 선택에 더하고,
+ *   이 트랙에만 있던 날짜는 다른 트랙에도 명단이 없으면 선택에서 뺌
+ */
+export function replaceTrackEntries(
+  state: PlannerState,
+  trackId: string,
+  entries: Entry[]
+): PlannerState {
+  const tracks = state.tracks.map((t) =>
+    t.id === trackId ? { ...t, entries } : t
+  );
+  const used = new Set(tracks.flatMap((t) => t.entries.map((e) => e.date)));
+  const dropped = new Set(
+    (state.tracks.find((t) => t.id === trackId)?.entries ?? [])
+      .map((e) => e.date)
+      .filter((d) => !used.has(d))
+  );
+  const selectedDates = Array.from(
+    new Set([
+      ...state.selectedDates.filter((d) => !dropped.has(d)),
+      ...entries.map((e) => e.date),
+    ])
+  ).sort();
+  return { ...state, tracks, selectedDates };
+}
+
+/**
+ * 같은 날 여러 트랙에 배정된 인원: "날짜|이름" → 트랙 id 목록
+ * - 참여 구분이 겹치는 트랙만 (오전·오후로 나눈 배정은 중복 아님)
+ */
+export function doubleBookings(tracks: Track[]): Map<string, string[]> {
+  const seen = new Map<string, { id: string; slot: Slot | undefined }[]>();
+  for (const t of tracks) {
+    for (const e of t.entries) {
+      for (const n of e.names) {
+        const key = `${e.date}|${n}`;
+        seen.set(key, [
+          ...(seen.get(key) ?? []),
+          { id: t.id, slot: e.slots?.[n] },
+        ]);
+      }
+    }
+  }
+  const out = new Map<string, string[]>();
+  for (const [key, list] of seen) {
+    const ids = list
+      .filter((a) =>
+        list.some((b) => b.id !== a.id && slotsOverlap(a.slot, b.slot))
+      )
+      .map((a) => a.id);
+    if (ids.length > 1) out.set(key, Array.from(new Set(ids)));
+  }
+  return out;
+}
+
+/** 현재 트랙 기준 중복 배정 위반 (다른 트랙 이름을 함께 안내) */
+export function doubleBookingViolations(
+  tracks: Track[],
+  activeId: string
+): Violation[] {
+  const labels = new Map(tracks.map((t) => [t.id, trackLabel(t)]));
+  const out: Violation[] = [];
+  for (const [key, ids] of doubleBookings(tracks)) {
+    if (!ids.includes(activeId)) continue;
+    const [date, name] = key.split("|");
+    const others = ids
+      .filter((id) => id !== activeId)
+      .map((id) => labels.get(id));
+    out.push({
+      kind: "DOUBLE_BOOKED",
+      date,
+      name,
+      message: `${name} 다른 트랙에도 배정 (${others.join(", ")})`,
+    });
+  }
+  return out.sort((a, b) => a.date.localeCompare(b.date));
+}
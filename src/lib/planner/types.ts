@@ -0,0 +1,66 @@
+import { defaultDateFormat } from "./date-format";
+import { defaultHolidaySettings, type HolidaySettings } from "./holidays";
+import type { Person } from "./people";
+import { defaultRosterRules, type RosterRules } from "./rules";
+import type { Slot } from "./slots";
+import { defaultTrack, DEFAULT_TRACK_ID, type Track } from "./tracks";
+import { defaultWorkWeek, type WorkWeek } from "./work-week";
+
+/** ============ Planner Types ============ */
+export interface Entry {
+  date: string; // ISO 'YYYY-MM-DD'
+  names: string[];
+  slots?: Record<string, Slot>; // 이름 → 오전/오후/시간 지정 (없으면 종일)
+}
+
+/** 날짜 표기 프리셋 (CUSTOM = 사용자 패턴) */
+export type DatePreset =
+  | "YYYY.MM.DD"
+  | "MM/DD"
+  | "YYYY-MM-DD"
+  | "YY.MM.DD"
+  | "M.D."
+  | "KO"
+  | "CUSTOM";
+
+/** 기간 끝 날짜 축약: 없음 / 같은 연도 생략 / 같은 연·월 생략 */
+export type RangeCollapse = "NONE" | "YEAR" | "MONTH";
+
+export interface DateFormat {
+  preset: DatePreset;
+  pattern: string; // CUSTOM일 때 사용하는 토큰 패턴 (예: "YYYY년 M월 D일")
+  weekday: boolean; // 요일 표기 "(금)" 추가
+  rangeSeparator: string; // 기간 구분자 (기본 "~")
+  rangeCollapse: RangeCollapse;
+}
+export type MergeMode = "KEEP" | "RED" | "ALL"; // 공백일 적용 / 토·일·공휴일 제거 / 모든 공백일 제거
+
+/** 개인별 공백일 오버라이드: key=이름 → MergeMode (없으면 전역 설정) */
+export type PersonOverride = Record<string, MergeMode>;
+
+/** 저장/복원 대상이 되는 플래너 상태 */
+export interface PlannerState {
+  tracks: Track[]; // 트랙별 날짜 명단 (최소 1개)
+  activeTrackId: string;
+  selectedDates: string[];
+  personOverride: PersonOverride;
+  fmt: DateFormat;
+  mergeMode: MergeMode;
+  holidays: HolidaySettings;
+  workWeek: WorkWeek;
+  people: Person[]; // 인원 명부
+  rules: RosterRules; // 검증 규칙
+}
+
+export const emptyPlannerState = (): PlannerState => ({
+  tracks: [defaultTrack()],
+  activeTrackId: DEFAULT_TRACK_ID,
+  selectedDates: [],
+  personOverride: {},
+  fmt: defaultDateFormat(),
+  mergeMode: "KEEP",
+  holidays: defaultHolidaySettings(),
+  workWeek: defaultWorkWeek(),
+  people: [],
+  rules: defaultRosterRules(),
+});
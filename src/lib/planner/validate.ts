@@ -0,0 +1,96 @@
+import { isValidISO } from "./date";
+import { normalizeSlot } from "./slots";
+
+/** ============ Validation (공유 파일 / API 입력) ============ */
+/**
+ * 외부에서 들어온 명단·상태의 형태 검사
+ * - 오류는 "경로: 내용" 문자열 목록으로 돌려줌 (빈 배열 = 통과)
+ * - 나머지 설정은 normalize 단계에서 기본값으로 보정하므로 필수 항목만 검사
+ */
+export const MAX_NAME_LENGTH = 50;
+
+export const isObject = (x: unknown): x is Record<string, unknown> =>
+  typeof x === "object" && x !== null && !Array.isArray(x);
+
+function nameError(n: unknown): string | null {
+  if (typeof n !== "string") return "문자열이 아닙니다.";
+  if (!n.trim()) return "빈 이름입니다.";
+  if (n !== n.trim()) return "앞뒤 공백이 있습니다.";
+  if (n.length > MAX_NAME_LENGTH) return `${MAX_NAME_LENGTH}자를 넘습니다.`;
+  return null;
+}
+
+/** 날짜별 명단 목록 검사 (날짜 형식·실제 날짜, 이름, 같은 날짜 중복, 참여 구분) */
+export function entryErrors(list: unknown[], path: string): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  list.forEach((e, i) => {
+    const at = `${path}[${i}]`;
+    if (!isObject(e)) {
+      errors.push(`${at}: 객체가 아닙니다.`);
+      return;
+    }
+    if (typeof e.date !== "string" || !isValidISO(e.date))
+      errors.push(
+        `${at}.date: 날짜 형식(YYYY-MM-DD)이 아니거나 없는 날짜입니다.`
+      );
+    else if (seen.has(e.date))
+      errors.push(`${at}.date: ${e.date}이(가) 두 번 이상 나옵니다.`);
+    else seen.add(e.date);
+    if (!Array.isArray(e.names)) {
+      errors.push(`${at}.names: 이름 목록이 배열이 아닙니다.`);
+      return;
+    }
+    e.names.forEach((n, j) => {
+      const err = nameError(n);
+      if (err) errors.push(`${at}.names[${j}]: ${err}`);
+    });
+    if (e.slots === undefined) return;
+    if (!isObject(e.slots)) {
+      errors.push(`${at}.slots: 객체가 아닙니다.`);
+      return;
+    }
+    for (const [name, slot] of Object.entries(e.slots)) {
+      if (!e.names.includes(name))
+        errors.push(`${at}.slots.${name}: 명단에 없는 이름입니다.`);
+      else if (!normalizeSlot(slot))
+        errors.push(
+          `${at}.slots.${name}: 오전(AM)/오후(PM)/시간 지정(TIME) 형식이 아닙니다.`
+        );
+    }
+  });
+  return errors;
+}
+
+/**
+ * 플래너 상태 검사
+ * - v4부터 명단은 트랙별(tracks[].entries), 그 전에는 entries 하나
+ */
+export function stateErrors(
+  state: Record<string, unknown>,
+  version: number
+): string[] {
+  const errors: string[] = [];
+  if (version < 4) {
+    if (!Array.isArray(state.entries))
+      errors.push("entries: 날짜별 명단 목록이 없습니다.");
+    else errors.push(...entryErrors(state.entries, "entries"));
+  } else if (!Array.isArray(state.tracks) || state.tracks.length === 0) {
+    errors.push("tracks: 트랙 목록이 없습니다.");
+  } else {
+    state.tracks.forEach((t, i) => {
+      if (!isObject(t) || !Array.isArray(t.entries))
+        errors.push(`tracks[${i}].entries: 날짜별 명단 목록이 없습니다.`);
+      else errors.push(...entryErrors(t.entries, `tracks[${i}].entries`));
+    });
+  }
+  if (
+    state.selectedDates !== undefined &&
+    (!Array.isArray(state.selectedDates) ||
+      state.selectedDates.some((d) => typeof d !== "string" || !isValidISO(d)))
+  )
+    errors.push("selectedDates: 날짜 형식(YYYY-MM-DD) 목록이 아닙니다.");
+  if (state.personOverride !== undefined && !isObject(state.personOverride))
+    errors.push("personOverride: 객체가 아닙니다.");
+  return errors;
+}
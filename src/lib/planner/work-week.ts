@@ -0,0 +1,23 @@
+/** ============ Work Week ============ */
+/** 요일 번호는 Date.getDay() 기준 (0=일 … 6=토) */
+export const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+export interface WorkWeek {
+  weekdays: number[]; // 전체 근무 요일
+  weekStart: 0 | 1; // 달력 첫 요일 (0=일요일, 1=월요일)
+  perPerson: Record<string, number[]>; // 이름 → 개인 근무 요일 (없으면 전체 설정)
+}
+
+export const defaultWorkWeek = (): WorkWeek => ({
+  weekdays: [1, 2, 3, 4, 5],
+  weekStart: 0,
+  perPerson: {},
+});
+
+/** 해당 인원의 근무 요일 (개인 설정 우선) */
+export const workdaysOf = (ww: WorkWeek, name: string): number[] =>
+  ww.perPerson[name] ?? ww.weekdays;
+
+/** 달력 머리글 순서의 요일 번호 */
+export const orderedWeekdays = (weekStart: 0 | 1): number[] =>
+  Array.from({ length: 7 }, (_, i) => (i + weekStart) % 7);
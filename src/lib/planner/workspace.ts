@@ -0,0 +1,511 @@
+import { defaultDateFormat, PRESET_LABELS } from "./date-format";
+import { emptyHistory, type History, type RosterSnapshot } from "./history";
+import type { HolidaySettings } from "./holidays";
+import { newPerson, type Person } from "./people";
+import type { RosterRules } from "./rules";
+import { normalizeSlot, type Slot } from "./slots";
+import {
+  defaultTrack,
+  newTrack,
+  TRACK_COLORS,
+  type Track,
+  type TrackColor,
+} from "./tracks";
+import { isObject, stateErrors } from "./validate";
+import type { WorkWeek } from "./work-week";
+import {
+  emptyPlannerState,
+  type DateFormat,
+  type DatePreset,
+  type Entry,
+  type MergeMode,
+  type PlannerState,
+  type PersonOverride,
+} from "./types";
+
+/** ============ Workspace Storage (localStorage) ============ */
+/**
+ * - 작업공간 목록(index)과 각 작업공간 데이터를 별도 키로 저장
+ * - 저장 데이터에는 스키마 버전(version)을 기록하고, 불러올 때 migrations로 최신 형태로 변환
+ */
+export const SCHEMA_VERSION = 4;
+
+const INDEX_KEY = "attendmark:workspaces";
+const itemKey = (id: string) => `attendmark:workspace:${id}`;
+const historyKey = (id: string) => `attendmark:history:${id}`;
+
+export const DEFAULT_WORKSPACE_NAME = "기본 작업공간";
+
+export interface WorkspaceMeta {
+  id: string;
+  name: string;
+  updatedAt: number;
+  remote?: WorkspaceRemote; // 서버 명단과 연결된 경우
+}
+
+/** 연결된 서버 명단 id와 마지막으로 주고받은 revision */
+export interface WorkspaceRemote {
+  id: string;
+  revision: number;
+}
+
+export interface WorkspaceIndex {
+  activeId: string | null;
+  items: WorkspaceMeta[];
+}
+
+interface StoredWorkspace {
+  version: number;
+  id: string;
+  name: string;
+  updatedAt: number;
+  state: unknown;
+}
+
+type RawState = Record<string, unknown>;
+
+/**
+ * 버전별 마이그레이션: key=저장된 버전 → 다음 버전 형태로 변환
+ * (Entry 구조가 바뀌면 SCHEMA_VERSION을 올리고 여기에 변환 함수 추가)
+ */
+const MIGRATIONS: Record<number, (raw: RawState) => RawState> = {
+  // v0: 버전 필드 없이 저장된 초기 데이터 (구조 동일)
+  0: (raw) => ({ ...raw }),
+  // v1 → v2: fmt가 문자열("MM/DD" | "YYYY.MM.DD")에서 포맷 옵션 객체로 변경
+  1: (raw) => ({
+    ...raw,
+    fmt:
+      typeof raw.fmt === "string"
+        ? { ...defaultDateFormat(), preset: raw.fmt, pattern: raw.fmt }
+        : raw.fmt,
+  }),
+  // v2 → v3: 날짜세트(datesKey) 기준 rowOverride → 이름 기준 personOverride
+  2: (raw) => {
+    const rowOverride = isObject(raw.rowOverride) ? raw.rowOverride : {};
+    const datesByName = new Map<string, string[]>();
+    for (const e of Array.isArray(raw.entries) ? raw.entries : []) {
+      if (!isObject(e) || !Array.isArray(e.names)) continue;
+      for (const n of e.names) {
+        if (typeof n !== "string") continue;
+        datesByName.set(n, [...(datesByName.get(n) ?? []), e.date as string]);
+      }
+    }
+    const personOverride: Record<string, unknown> = {};
+    for (const [name, dates] of datesByName) {
+      const key = Array.from(new Set(dates)).sort().join(",");
+      const mode = rowOverride[key];
+      if (mode && mode !== "GLOBAL") personOverride[name] = mode;
+    }
+    const rest = Object.fromEntries(
+      Object.entries(raw).filter(([k]) => k !== "rowOverride")
+    );
+    return { ...rest, personOverride };
+  },
+  // v3 → v4: 단일 entries → 트랙별 entries (기존 명단은 기본 트랙으로)
+  3: (raw) => {
+    const { entries, ...rest } = raw;
+    const track = defaultTrack();
+    return {
+      ...rest,
+      tracks: [{ ...track, entries }],
+      activeTrackId: track.id,
+    };
+  },
+};
+
+export function migrateState(raw: unknown, fromVersion: number): PlannerState {
+  let cur: RawState = isObject(raw) ? raw : {};
+  for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (step) cur = step(cur);
+  }
+  return normalizeState(cur);
+}
+
+/** 저장 데이터가 일부 깨져 있어도 안전하게 기본값으로 채움 */
+function normalizeState(raw: RawState): PlannerState {
+  const base = emptyPlannerState();
+  const tracks = normalizeTracks(raw.tracks, base.tracks);
+  const activeTrackId = tracks.some((t) => t.id === raw.activeTrackId)
+    ? (raw.activeTrackId as string)
+    : tracks[0].id;
+  const selectedDates = Array.isArray(raw.selectedDates)
+    ? raw.selectedDates.filter((d): d is string => typeof d === "string")
+    : base.selectedDates;
+  const personOverride: PersonOverride = isObject(raw.personOverride)
+    ? (Object.fromEntries(
+        Object.entries(raw.personOverride).filter(([, v]) =>
+          ["KEEP", "RED", "ALL"].includes(v as string)
+        )
+      ) as PersonOverride)
+    : base.personOverride;
+  const fmt = normalizeDateFormat(raw.fmt, base.fmt);
+  const mergeMode: MergeMode =
+    raw.mergeMode === "KEEP" ||
+    raw.mergeMode === "RED" ||
+    raw.mergeMode === "ALL"
+      ? raw.mergeMode
+      : base.mergeMode;
+  const holidays = normalizeHolidays(raw.holidays, base.holidays);
+  const workWeek = normalizeWorkWeek(raw.workWeek, base.workWeek);
+  const people = normalizePeople(raw.people);
+  const rules = normalizeRules(raw.rules, base.rules);
+  return {
+    tracks,
+    activeTrackId,
+    selectedDates,
+    personOverride,
+    fmt,
+    mergeMode,
+    holidays,
+    workWeek,
+    people,
+    rules,
+  };
+}
+
+function normalizeEntries(raw: unknown): Entry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(isObject)
+    .filter((e) => typeof e.date === "string")
+    .map((e) => {
+      const names = Array.isArray(e.names)
+        ? e.names.filter((n): n is string => typeof n === "string")
+        : [];
+      const slots: Record<string, Slot> = {};
+      if (isObject(e.slots)) {
+        for (const [name, raw] of Object.entries(e.slots)) {
+          const slot = normalizeSlot(raw);
+          if (slot && names.includes(name)) slots[name] = slot;
+        }
+      }
+      return Object.keys(slots).length
+        ? { date: e.date as string, names, slots }
+        : { date: e.date as string, names };
+    });
+}
+
+/** 트랙은 최소 1개 (모두 깨져 있으면 기본 트랙) */
+function normalizeTracks(raw: unknown, base: Track[]): Track[] {
+  if (!Array.isArray(raw)) return base;
+  const tracks = raw
+    .filter(isObject)
+    .filter((t) => typeof t.id === "string")
+    .map((t) =>
+      newTrack({
+        id: t.id as string,
+        name: typeof t.name === "string" && t.name ? t.name : "이름 없음",
+        site: typeof t.site === "string" ? t.site : "",
+        color: TRACK_COLORS.includes(t.color as TrackColor)
+          ? (t.color as TrackColor)
+          : "blue",
+        entries: normalizeEntries(t.entries),
+      })
+    );
+  return tracks.length ? tracks : base;
+}
+
+function normalizeRules(raw: unknown, base: RosterRules): RosterRules {
+  if (!isObject(raw)) return base;
+  const limit = (x: unknown) =>
+    typeof x === "number" && Number.isInteger(x) && x >= 0 ? x : null;
+  const unavailable: Record<string, string[]> = {};
+  if (isObject(raw.unavailable)) {
+    for (const [name, dates] of Object.entries(raw.unavailable)) {
+      if (Array.isArray(dates))
+        unavailable[name] = dates.filter(
+          (d): d is string => typeof d === "string"
+        );
+    }
+  }
+  return {
+    minPerDay: limit(raw.minPerDay),
+    maxPerDay: limit(raw.maxPerDay),
+    requiredRole:
+      raw.requiredRole === "LEAD" || raw.requiredRole === "ASSIST"
+        ? raw.requiredRole
+        : "",
+    maxConsecutive: limit(raw.maxConsecutive),
+    noRedDays: raw.noRedDays === true,
+    unavailable,
+  };
+}
+
+function normalizePeople(raw: unknown): Person[] {
+  if (!Array.isArray(raw)) return [];
+  const str = (x: unknown) => (typeof x === "string" ? x : "");
+  return raw
+    .filter(isObject)
+    .filter((p) => typeof p.name === "string")
+    .map((p) =>
+      newPerson({
+        ...(typeof p.id === "string" && { id: p.id }),
+        name: p.name as string,
+        employeeId: str(p.employeeId),
+        department: str(p.department),
+        role: p.role === "LEAD" || p.role === "ASSIST" ? p.role : "",
+      })
+    );
+}
+
+const toWeekdays = (x: unknown): number[] | null =>
+  Array.isArray(x)
+    ? x.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6)
+    : null;
+
+function normalizeWorkWeek(raw: unknown, base: WorkWeek): WorkWeek {
+  if (!isObject(raw)) return base;
+  const perPerson: Record<string, number[]> = {};
+  if (isObject(raw.perPerson)) {
+    for (const [name, days] of Object.entries(raw.perPerson)) {
+      const wd = toWeekdays(days);
+      if (wd) perPerson[name] = wd;
+    }
+  }
+  return {
+    weekdays: toWeekdays(raw.weekdays) ?? base.weekdays,
+    weekStart: raw.weekStart === 1 ? 1 : 0,
+    perPerson,
+  };
+}
+
+function normalizeHolidays(
+  raw: unknown,
+  base: HolidaySettings
+): HolidaySettings {
+  if (!isObject(raw)) return base;
+  return {
+    country: typeof raw.country === "string" ? raw.country : base.country,
+    region: typeof raw.region === "string" ? raw.region : base.region,
+    substitute:
+      typeof raw.substitute === "boolean" ? raw.substitute : base.substitute,
+    closures: Array.isArray(raw.closures)
+      ? raw.closures
+          .filter(isObject)
+          .filter((c) => typeof c.date === "string")
+          .map((c) => ({
+            date: c.date as string,
+            name: typeof c.name === "string" ? c.name : "",
+          }))
+      : base.closures,
+    workingDays: Array.isArray(raw.workingDays)
+      ? raw.workingDays.filter((d): d is string => typeof d === "string")
+      : base.workingDays,
+  };
+}
+
+function normalizeDateFormat(raw: unknown, base: DateFormat): DateFormat {
+  if (!isObject(raw)) return base;
+  return {
+    preset:
+      typeof raw.preset === "string" && raw.preset in PRESET_LABELS
+        ? (raw.preset as DatePreset)
+        : base.preset,
+    pattern: typeof raw.pattern === "string" ? raw.pattern : base.pattern,
+    weekday: typeof raw.weekday === "boolean" ? raw.weekday : base.weekday,
+    rangeSeparator:
+      typeof raw.rangeSeparator === "string"
+        ? raw.rangeSeparator
+        : base.rangeSeparator,
+    rangeCollapse:
+      raw.rangeCollapse === "YEAR" || raw.rangeCollapse === "MONTH"
+        ? raw.rangeCollapse
+        : "NONE",
+  };
+}
+
+function readJSON(key: string): unknown {
+  if (typeof window === "undefined") return null;
+  try {
+    const s = window.localStorage.getItem(key);
+    return s ? JSON.parse(s) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJSON(key: string, value: unknown) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // 용량 초과 등 저장 실패는 무시 (다음 자동 저장 때 재시도)
+  }
+}
+
+const newId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/** ============ Index ============ */
+export function loadIndex(): WorkspaceIndex {
+  const raw = readJSON(INDEX_KEY);
+  if (!isObject(raw) || !Array.isArray(raw.items)) {
+    return { activeId: null, items: [] };
+  }
+  const items = raw.items
+    .filter(isObject)
+    .filter((x) => typeof x.id === "string")
+    .map((x) => {
+      const meta: WorkspaceMeta = {
+        id: x.id as string,
+        name: typeof x.name === "string" ? x.name : "이름 없음",
+        updatedAt: typeof x.updatedAt === "number" ? x.updatedAt : 0,
+      };
+      const r = x.remote;
+      if (
+        isObject(r) &&
+        typeof r.id === "string" &&
+        typeof r.revision === "number"
+      )
+        meta.remote = { id: r.id, revision: r.revision };
+      return meta;
+    });
+  const activeId =
+    typeof raw.activeId === "string" && items.some((x) => x.id === raw.activeId)
+      ? raw.activeId
+      : items[0]?.id ?? null;
+  return { activeId, items };
+}
+
+function saveIndex(index: WorkspaceIndex) {
+  writeJSON(INDEX_KEY, index);
+}
+
+export function setActiveWorkspace(id: string): WorkspaceIndex {
+  const index = loadIndex();
+  const next = { ...index, activeId: id };
+  saveIndex(next);
+  return next;
+}
+
+/** ============ Workspace CRUD ============ */
+export function loadWorkspace(id: string): PlannerState {
+  const raw = readJSON(itemKey(id));
+  if (!isObject(raw)) return emptyPlannerState();
+  const version = typeof raw.version === "number" ? raw.version : 0;
+  // 버전 필드가 없는 데이터는 상태 자체가 최상위에 저장된 형태
+  const state = "state" in raw ? raw.state : raw;
+  return migrateState(state, version);
+}
+
+export function saveWorkspace(id: string, state: PlannerState) {
+  const index = loadIndex();
+  const meta = index.items.find((x) => x.id === id);
+  if (!meta) return;
+  const updatedAt = Date.now();
+  const stored: StoredWorkspace = {
+    version: SCHEMA_VERSION,
+    id,
+    name: meta.name,
+    updatedAt,
+    state,
+  };
+  writeJSON(itemKey(id), stored);
+  saveIndex({
+    ...index,
+    items: index.items.map((x) => (x.id === id ? { ...x, updatedAt } : x)),
+  });
+}
+
+/**
+ * 되돌리기 기록: 작업공간과 함께 저장/복원
+ * (스키마 버전이 다르면 과거 스냅샷을 변환하지 않고 버림)
+ * - 스냅샷은 공유 파일과 같은 검사를 거치고, 깨진 것은 버린 뒤 작업공간처럼 보정
+ */
+export function loadHistory(id: string): History {
+  const raw = readJSON(historyKey(id));
+  if (!isObject(raw) || raw.version !== SCHEMA_VERSION) return emptyHistory();
+  const list = (x: unknown): RosterSnapshot[] =>
+    Array.isArray(x)
+      ? x
+          .filter(isObject)
+          .filter((s) => stateErrors(s, SCHEMA_VERSION).length === 0)
+          .map((s) => {
+            const { tracks, selectedDates, personOverride } = normalizeState(s);
+            return { tracks, selectedDates, personOverride };
+          })
+      : [];
+  return { past: list(raw.past), future: list(raw.future) };
+}
+
+export function saveHistory(id: string, history: History) {
+  writeJSON(historyKey(id), { version: SCHEMA_VERSION, ...history });
+}
+
+export function createWorkspace(
+  name: string,
+  state: PlannerState = emptyPlannerState()
+): WorkspaceIndex {
+  const index = loadIndex();
+  const id = newId();
+  const meta: WorkspaceMeta = { id, name, updatedAt: Date.now() };
+  const next = { activeId: id, items: [...index.items, meta] };
+  saveIndex(next);
+  saveWorkspace(id, state);
+  return loadIndex();
+}
+
+export function duplicateWorkspace(id: string): WorkspaceIndex {
+  const index = loadIndex();
+  const src = index.items.find((x) => x.id === id);
+  if (!src) return index;
+  return createWorkspace(`${src.name} (사본)`, loadWorkspace(id));
+}
+
+export function renameWorkspace(id: string, name: string): WorkspaceIndex {
+  const index = loadIndex();
+  const next = {
+    ...index,
+    items: index.items.map((x) => (x.id === id ? { ...x, name } : x)),
+  };
+  saveIndex(next);
+  return next;
+}
+
+/** 서버 명단과 연결/연결 해제 (null = 해제) */
+export function linkWorkspace(
+  id: string,
+  remote: WorkspaceRemote | null
+): WorkspaceIndex {
+  const index = loadIndex();
+  const next = {
+    ...index,
+    items: index.items.map((x) =>
+      x.id !== id
+        ? x
+        : remote
+        ? { ...x, remote }
+        : { id: x.id, name: x.name, updatedAt: x.updatedAt }
+    ),
+  };
+  saveIndex(next);
+  return next;
+}
+
+/** 삭제 후 남은 작업공간이 없으면 기본 작업공간을 새로 만듦 */
+export function deleteWorkspace(id: string): WorkspaceIndex {
+  const index = loadIndex();
+  if (typeof window !== "undefined") {
+    window.localStorage.removeItem(itemKey(id));
+    window.localStorage.removeItem(historyKey(id));
+  }
+  const items = index.items.filter((x) => x.id !== id);
+  if (items.length === 0) {
+    saveIndex({ activeId: null, items: [] });
+    return createWorkspace(DEFAULT_WORKSPACE_NAME);
+  }
+  const next = {
+    activeId: index.activeId === id ? items[0].id : index.activeId,
+    items,
+  };
+  saveIndex(next);
+  return next;
+}
+
+/** 최초 진입 시: 저장된 작업공간이 없으면 기본 작업공간 생성 */
+export function ensureWorkspaceIndex(): WorkspaceIndex {
+  const index = loadIndex();
+  if (index.items.length > 0 && index.activeId) return index;
+  return createWorkspace(DEFAULT_WORKSPACE_NAME);
+}
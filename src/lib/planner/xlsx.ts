@@ -0,0 +1,137 @@
+import type { Workbook, Worksheet } from "exceljs";
+import { pad } from "./date";
+
+/** ============ XLSX Export ============ */
+/** 자동 생성 표의 한 그룹 (동일 날짜세트 → 기간 셀 병합) */
+export interface TableGroup {
+  names: string[];
+  periodInline: string; // "기간.(N일)" — 화면 표와 동일한 문자열
+}
+
+/** 날짜별 인원 시트의 한 행 */
+export interface RawRow {
+  date: string; // 표시 형식으로 변환된 날짜
+  names: string[];
+}
+
+export interface XlsxExportInput {
+  groups: TableGroup[];
+  rawRows?: RawRow[]; // 있으면 두 번째 시트 추가
+}
+
+const THIN = { style: "thin" as const };
+const BORDER = { top: THIN, left: THIN, bottom: THIN, right: THIN };
+const HEADER_FILL = {
+  type: "pattern" as const,
+  pattern: "solid" as const,
+  fgColor: { argb: "FFF3F4F6" },
+};
+
+function styleHeader(ws: Worksheet) {
+  const row = ws.getRow(1);
+  row.font = { bold: true };
+  row.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+    cell.border = BORDER;
+    cell.alignment = { vertical: "middle", horizontal: "center" };
+  });
+}
+
+/** 성명 / 점검참여일(기간) 시트: 같은 그룹의 기간 셀을 실제 병합 셀로 생성 */
+function addGroupedSheet(wb: Workbook, groups: TableGroup[]) {
+  const ws = wb.addWorksheet("자동 생성 표");
+  ws.columns = [
+    { header: "성명", width: 14 },
+    { header: "점검참여일(기간)", width: 60 },
+  ];
+  styleHeader(ws);
+
+  let r = 2;
+  for (const g of groups) {
+    if (g.names.length === 0) continue;
+    const top = r;
+    for (const name of g.names) {
+      const row = ws.getRow(r);
+      row.getCell(1).value = name;
+      row.getCell(1).border = BORDER;
+      row.getCell(1).alignment = { vertical: "middle" };
+      row.getCell(2).border = BORDER;
+      r++;
+    }
+    const periodCell = ws.getCell(top, 2);
+    periodCell.value = g.periodInline;
+    periodCell.alignment = { vertical: "middle", wrapText: true };
+    if (r - 1 > top) ws.mergeCells(top, 2, r - 1, 2);
+  }
+}
+
+/** 날짜 / 이름 / 인원 시트 (원본 Entry 표) */
+function addRawSheet(wb: Workbook, rows: RawRow[]) {
+  const ws = wb.addWorksheet("날짜별 인원");
+  ws.columns = [
+    { header: "날짜", width: 14 },
+    { header: "이름", width: 60 },
+    { header: "인원", width: 8 },
+  ];
+  styleHeader(ws);
+  for (const row of rows) {
+    const added = ws.addRow([row.date, row.names.join(", "), row.names.length]);
+    added.eachCell((cell) => {
+      cell.border = BORDER;
+    });
+  }
+}
+
+/** exceljs는 용량이 커서 내보내기 시점에만 불러옴 */
+export async function buildXlsx(input: XlsxExportInput): Promise<Blob> {
+  const { default: ExcelJS } = await import("exceljs");
+  const wb = new ExcelJS.Workbook();
+  addGroupedSheet(wb, input.groups);
+  if (input.rawRows) addRawSheet(wb, input.rawRows);
+  const buf = await wb.xlsx.writeBuffer();
+  return new Blob([buf], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
+
+/** ============ XLSX Import ============ */
+/** 셀 값 → 문자열 (날짜 셀은 ISO, 수식은 결과값, 서식 텍스트는 이어붙임) */
+function cellText(v: unknown): string {
+  if (v == null) return "";
+  if (v instanceof Date) {
+    // exceljs는 날짜 셀을 UTC 자정 기준 Date로 돌려줌
+    return `${v.getUTCFullYear()}-${pad(v.getUTCMonth() + 1)}-${pad(
+      v.getUTCDate()
+    )}`;
+  }
+  if (typeof v === "object") {
+    const o = v as {
+      richText?: { text: string }[];
+      result?: unknown;
+      text?: unknown;
+    };
+    if (o.richText) return o.richText.map((t) => t.text).join("");
+    if ("result" in o) return cellText(o.result);
+    if ("text" in o) return cellText(o.text);
+    return "";
+  }
+  return String(v);
+}
+
+/** 첫 번째 시트를 2차원 문자열 배열로 읽음 */
+export async function readXlsxRows(data: ArrayBuffer): Promise<string[][]> {
+  const { default: ExcelJS } = await import("exceljs");
+  const wb = new ExcelJS.Workbook();
+  await wb.xlsx.load(data);
+  const ws = wb.worksheets[0];
+  if (!ws) return [];
+  const rows: string[][] = [];
+  ws.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let c = 1; c <= ws.columnCount; c++) {
+      cells.push(cellText(row.getCell(c).value));
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
@@ -0,0 +1,153 @@
+import { combinedEntries } from "@/lib/planner/tracks";
+import type { Entry, PlannerState } from "@/lib/planner/types";
+import { isObject, stateErrors } from "@/lib/planner/validate";
+import { migrateState, SCHEMA_VERSION } from "@/lib/planner/workspace";
+import { isStoreCorrupt, type Roster, type UpdateResult } from "./roster-store";
+
+/** ============ Route Handler Helpers ============ */
+/** 오류 응답: { error, details? } (details = 항목별 검사 결과) */
+export const jsonError = (status: number, error: string, details?: string[]) =>
+  Response.json(details ? { error, details } : { error }, { status });
+
+export const notFound = () => jsonError(404, "명단을 찾을 수 없습니다.");
+
+/** 명단 응답 (state와 함께 스키마 버전을 보냄) */
+export const rosterResponse = (roster: Roster, status = 200) =>
+  Response.json({ ...roster, version: SCHEMA_VERSION }, { status });
+
+/**
+ * 저장 결과 → 응답 (409에는 서버의 현재 revision을 함께 보냄)
+ * - rejectStatus: update가 거절했을 때의 상태 코드 (대상 트랙 없음 = 404 등)
+ */
+export function updateResponse(result: UpdateResult, rejectStatus = 400) {
+  if (result.ok) return rosterResponse(result.roster);
+  if (result.reason === "NOT_FOUND") return notFound();
+  if (result.reason === "REJECTED")
+    return jsonError(rejectStatus, result.error);
+  return Response.json(
+    {
+      error:
+        "다른 곳에서 먼저 저장했습니다. 서버의 최신 명단을 불러온 뒤 다시 시도하세요.",
+      revision: result.current.revision,
+    },
+    { status: 409 }
+  );
+}
+
+/** 저장 파일이 손상되어 읽을 수 없으면 500 (그 밖의 오류는 그대로 던짐) */
+export function withStore<A extends unknown[]>(
+  handler: (...args: A) => Promise<Response>
+) {
+  return async (...args: A): Promise<Response> => {
+    try {
+      return await handler(...args);
+    } catch (e) {
+      if (!isStoreCorrupt(e)) throw e;
+      console.error(e);
+      return jsonError(
+        500,
+        "서버의 명단 저장 파일이 손상되어 읽을 수 없습니다. 관리자에게 문의하세요."
+      );
+    }
+  };
+}
+
+type Parsed<T> = { ok: true; value: T } | { ok: false; response: Response };
+
+export async function readBody(
+  req: Request
+): Promise<Parsed<Record<string, unknown>>> {
+  try {
+    const body: unknown = await req.json();
+    if (isObject(body)) return { ok: true, value: body };
+  } catch {
+    // 아래 오류 응답으로
+  }
+  return {
+    ok: false,
+    response: jsonError(400, "요청 본문이 JSON 객체가 아닙니다."),
+  };
+}
+
+export const MAX_ROSTER_NAME = 100;
+
+/** 명단 이름 (required=false면 없어도 됨) */
+export function parseName(
+  raw: unknown,
+  required: boolean
+): Parsed<string | undefined> {
+  if (raw === undefined && !required) return { ok: true, value: undefined };
+  if (typeof raw !== "string" || !raw.trim())
+    return { ok: false, response: jsonError(400, "name: 이름이 없습니다.") };
+  if (raw.trim().length > MAX_ROSTER_NAME)
+    return {
+      ok: false,
+      response: jsonError(400, `name: ${MAX_ROSTER_NAME}자를 넘습니다.`),
+    };
+  return { ok: true, value: raw.trim() };
+}
+
+/** baseRevision (없으면 덮어쓰기) */
+export function parseRevision(raw: unknown): Parsed<number | undefined> {
+  if (raw === undefined) return { ok: true, value: undefined };
+  if (typeof raw === "number" && Number.isInteger(raw) && raw > 0)
+    return { ok: true, value: raw };
+  return {
+    ok: false,
+    response: jsonError(400, "baseRevision: 1 이상의 정수가 아닙니다."),
+  };
+}
+
+/** { version, state } → 최신 스키마의 플래너 상태 (version이 없으면 현재 버전) */
+export function parseState(
+  body: Record<string, unknown>
+): Parsed<PlannerState> {
+  const version = body.version ?? SCHEMA_VERSION;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0)
+    return {
+      ok: false,
+      response: jsonError(400, "version: 0 이상의 정수가 아닙니다."),
+    };
+  if (version > SCHEMA_VERSION)
+    return {
+      ok: false,
+      response: jsonError(
+        400,
+        `version: 서버가 지원하는 버전(v${SCHEMA_VERSION})보다 새롭습니다.`
+      ),
+    };
+  const state = body.state;
+  if (!isObject(state))
+    return { ok: false, response: jsonError(400, "state: 객체가 아닙니다.") };
+  const errors = stateErrors(state, version);
+  if (errors.length > 0)
+    return {
+      ok: false,
+      response: jsonError(400, "state: 내용이 올바르지 않습니다.", errors),
+    };
+  return { ok: true, value: migrateState(state, version) };
+}
+
+/**
+ * ?track= 해석: 트랙 id, "all"(모든 트랙 합산), 없으면 fallback
+ * - 없는 트랙 id면 404
+ */
+export function selectTrack(
+  state: PlannerState,
+  param: string | null,
+  fallback: "active" | "all"
+): Parsed<{ track: string; entries: Entry[] }> {
+  const id = param ?? (fallback === "all" ? "all" : state.activeTrackId);
+  if (id === "all")
+    return {
+      ok: true,
+      value: { track: "all", entries: combinedEntries(state.tracks) },
+    };
+  const found = state.tracks.find((t) => t.id === id);
+  if (!found)
+    return {
+      ok: false,
+      response: jsonError(404, `track: '${id}' 트랙이 없습니다.`),
+    };
+  return { ok: true, value: { track: found.id, entries: found.entries } };
+}
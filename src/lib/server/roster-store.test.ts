@@ -0,0 +1,213 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { defaultTrack, newTrack } from "@/lib/planner/tracks";
+import { emptyPlannerState, type PlannerState } from "@/lib/planner/types";
+
+// 저장 파일 경로는 모듈을 불러올 때 정해지므로 환경 변수를 먼저 지정
+let dir: string;
+let file: string;
+let store: typeof import("./roster-store");
+let entriesRoute: typeof import("@/app/api/rosters/[id]/entries/route");
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "attendmark-store-"));
+  file = path.join(dir, "rosters.json");
+  process.env.ATTENDMARK_DATA_FILE = file;
+  store = await import("./roster-store");
+  entriesRoute = await import("@/app/api/rosters/[id]/entries/route");
+});
+
+afterAll(async () => {
+  delete process.env.ATTENDMARK_DATA_FILE;
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await fs.rm(file, { force: true });
+});
+
+describe("roster store", () => {
+  it("파일이 없으면 빈 목록, 만들면 revision 1부터", async () => {
+    expect(await store.listRosters()).toEqual([]);
+    const r = await store.createRoster("10월 점검");
+    expect(r).toMatchObject({ name: "10월 점검", revision: 1 });
+    expect(r.state).toEqual(emptyPlannerState());
+    expect(await store.getRoster(r.id)).toEqual(r);
+    expect(await store.getRoster("missing")).toBeNull();
+  });
+
+  it("저장할 때마다 revision이 1씩 오름", async () => {
+    const { id } = await store.createRoster("가");
+    const first = await store.updateRoster(id, () => ({ name: "나" }), 1);
+    expect(first).toMatchObject({
+      ok: true,
+      roster: { name: "나", revision: 2 },
+    });
+    const second = await store.updateRoster(id, () => ({}));
+    expect(second.ok && second.roster.revision).toBe(3);
+  });
+
+  it("baseRevision이 서버 revision과 다르면 CONFLICT (저장하지 않음)", async () => {
+    const { id } = await store.createRoster("가");
+    await store.updateRoster(id, () => ({ name: "먼저 저장" }), 1);
+    let called = false;
+    const r = await store.updateRoster(
+      id,
+      () => {
+        called = true;
+        return { name: "늦게 저장" };
+      },
+      1
+    );
+    expect(r).toMatchObject({
+      ok: false,
+      reason: "CONFLICT",
+      current: { name: "먼저 저장", revision: 2 },
+    });
+    expect(called).toBe(false);
+    expect((await store.getRoster(id))?.name).toBe("먼저 저장");
+  });
+
+  it("동시에 같은 revision으로 저장하면 하나만 성공", async () => {
+    const { id } = await store.createRoster("가");
+    const results = await Promise.all(
+      ["나", "다", "라"].map((name) =>
+        store.updateRoster(id, () => ({ name }), 1)
+      )
+    );
+    expect(results.map((r) => (r.ok ? "OK" : r.reason))).toEqual([
+      "OK",
+      "CONFLICT",
+      "CONFLICT",
+    ]);
+    expect(await store.getRoster(id)).toMatchObject({
+      name: "나",
+      revision: 2,
+    });
+  });
+
+  it("update가 거절하면 REJECTED, 없는 명단이면 NOT_FOUND", async () => {
+    const { id } = await store.createRoster("가");
+    expect(
+      await store.updateRoster(id, () => ({ reject: "트랙이 없습니다." }))
+    ).toEqual({ ok: false, reason: "REJECTED", error: "트랙이 없습니다." });
+    expect((await store.getRoster(id))?.revision).toBe(1);
+    expect(await store.updateRoster("missing", () => ({}))).toEqual({
+      ok: false,
+      reason: "NOT_FOUND",
+    });
+  });
+
+  it("삭제", async () => {
+    const { id } = await store.createRoster("가");
+    expect(await store.deleteRoster(id)).toBe(true);
+    expect(await store.deleteRoster(id)).toBe(false);
+    expect(await store.listRosters()).toEqual([]);
+  });
+
+  it("손상된 파일은 빈 목록으로 보지 않고 오류, 덮어쓰지도 않음", async () => {
+    for (const text of ["{", "[]", '{"items":[]}']) {
+      await fs.writeFile(file, text, "utf8");
+      const error = await store.listRosters().catch((e: unknown) => e);
+      expect(store.isStoreCorrupt(error)).toBe(true);
+      await expect(store.createRoster("가")).rejects.toSatisfy(
+        store.isStoreCorrupt
+      );
+      expect(await fs.readFile(file, "utf8")).toBe(text);
+    }
+  });
+});
+
+describe("PUT /api/rosters/[id]/entries", () => {
+  // 기본 트랙: 10-19, 10-20 / 소방 트랙: 10-20, 10-21 / 선택만 한 날: 10-30
+  const twoTracks = (): PlannerState => ({
+    ...emptyPlannerState(),
+    tracks: [
+      defaultTrack([
+        { date: "2026-10-19", names: ["가"] },
+        { date: "2026-10-20", names: ["가"] },
+      ]),
+      newTrack({
+        id: "fire",
+        name: "소방",
+        entries: [
+          { date: "2026-10-20", names: ["나"] },
+          { date: "2026-10-21", names: ["나"] },
+        ],
+      }),
+    ],
+    selectedDates: ["2026-10-19", "2026-10-20", "2026-10-21", "2026-10-30"],
+  });
+
+  const put = (id: string, body: unknown) =>
+    entriesRoute.PUT(
+      new Request(`http://localhost/api/rosters/${id}/entries`, {
+        method: "PUT",
+        body: JSON.stringify(body),
+      }),
+      { params: Promise.resolve({ id }) }
+    );
+
+  it("선택 날짜도 같이 맞춤: 새 날짜 추가, 이 트랙에만 있던 날짜 제거", async () => {
+    const { id } = await store.createRoster("가", twoTracks());
+    const res = await put(id, {
+      entries: [
+        { date: "2026-10-22", names: ["다"] },
+        { date: "2026-10-20", names: ["다", "다"] },
+      ],
+      baseRevision: 1,
+    });
+    expect(res.status).toBe(200);
+    const { state, revision } = await res.json();
+    expect(revision).toBe(2);
+    expect(state.tracks[0].entries).toEqual([
+      { date: "2026-10-20", names: ["다"] },
+      { date: "2026-10-22", names: ["다"] },
+    ]);
+    // 10-19는 기본 트랙에만 있었으므로 제거, 10-21은 소방 트랙에 남아 있음,
+    // 명단 없이 선택만 한 10-30은 그대로
+    expect(state.selectedDates).toEqual([
+      "2026-10-20",
+      "2026-10-21",
+      "2026-10-22",
+      "2026-10-30",
+    ]);
+  });
+
+  it("다른 트랙을 지정하면 그 트랙만 교체", async () => {
+    const { id } = await store.createRoster("가", twoTracks());
+    const res = await put(id, { entries: [], track: "fire" });
+    const { state } = await res.json();
+    expect(state.tracks[0].entries).toHaveLength(2);
+    expect(state.tracks[1].entries).toEqual([]);
+    expect(state.selectedDates).toEqual([
+      "2026-10-19",
+      "2026-10-20",
+      "2026-10-30",
+    ]);
+  });
+
+  it("오래된 baseRevision이면 409와 서버의 현재 revision", async () => {
+    const { id } = await store.createRoster("가", twoTracks());
+    expect((await put(id, { entries: [], baseRevision: 1 })).status).toBe(200);
+    const res = await put(id, {
+      entries: [{ date: "2026-10-23", names: ["라"] }],
+      baseRevision: 1,
+    });
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ revision: 2 });
+    expect((await store.getRoster(id))?.state.tracks[0].entries).toEqual([]);
+  });
+
+  it("잘못된 요청은 400, 없는 명단·트랙은 404", async () => {
+    const { id } = await store.createRoster("가", twoTracks());
+    for (const body of [[], null, "entries", { entries: "x" }])
+      expect((await put(id, body)).status).toBe(400);
+    expect((await put(id, { entries: [], track: "all" })).status).toBe(400);
+    expect((await put(id, { entries: [], track: "none" })).status).toBe(404);
+    expect((await put("missing", { entries: [] })).status).toBe(404);
+    expect((await store.getRoster(id))?.revision).toBe(1);
+  });
+});
@@ -0,0 +1,184 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { RosterInfo } from "@/lib/planner/roster-api";
+import { emptyPlannerState, type PlannerState } from "@/lib/planner/types";
+import { isObject } from "@/lib/planner/validate";
+import { migrateState, SCHEMA_VERSION } from "@/lib/planner/workspace";
+
+/** ============ Roster Store (서버 JSON 파일) ============ */
+/**
+ * - 모든 명단을 JSON 파일 하나에 저장 (ATTENDMARK_DATA_FILE, 기본 ./data/rosters.json)
+ * - 쓰기는 한 번에 하나씩 (임시 파일에 쓴 뒤 rename으로 교체)
+ * - revision은 저장할 때마다 1씩 올라감: baseRevision이 다르면 CONFLICT (다른 곳에서 먼저 저장)
+ * - 상태는 작업공간과 같은 스키마 버전을 기록하고, 읽을 때 migrations로 최신 형태로 변환
+ */
+const DATA_FILE =
+  process.env.ATTENDMARK_DATA_FILE ??
+  path.join(process.cwd(), "data", "rosters.json");
+
+interface StoredRoster extends RosterInfo {
+  version: number;
+  createdAt: string;
+  state: unknown;
+}
+
+interface StoreFile {
+  rosters: StoredRoster[];
+}
+
+export interface Roster extends RosterInfo {
+  state: PlannerState;
+}
+
+export type UpdateResult =
+  | { ok: true; roster: Roster }
+  | { ok: false; reason: "NOT_FOUND" }
+  | { ok: false; reason: "CONFLICT"; current: Roster }
+  | { ok: false; reason: "REJECTED"; error: string };
+
+/** update가 돌려주는 값: 바뀐 이름/상태, 또는 현재 값으로는 저장할 수 없는 이유 */
+export type RosterPatch =
+  | { name?: string; state?: PlannerState }
+  | { reject: string };
+
+/**
+ * 저장 파일을 읽을 수 없음 (JSON이 깨졌거나 형식이 다름)
+ * - 빈 명단으로 보고 덮어쓰지 않도록 오류로 던짐 (라우트는 withStore가 500으로 응답)
+ */
+export const STORE_CORRUPT = "STORE_CORRUPT";
+
+export const isStoreCorrupt = (e: unknown) =>
+  e instanceof Error && (e as NodeJS.ErrnoException).code === STORE_CORRUPT;
+
+const corrupt = (detail: string) =>
+  Object.assign(new Error(`${DATA_FILE}: ${detail}`), { code: STORE_CORRUPT });
+
+// 읽기-수정-쓰기가 겹치지 않도록 순서대로 실행
+let queue: Promise<unknown> = Promise.resolve();
+function exclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+async function readStore(): Promise<StoreFile> {
+  let text: string;
+  try {
+    text = await fs.readFile(DATA_FILE, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return { rosters: [] };
+    throw e;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw corrupt("JSON 형식이 아닙니다.");
+  }
+  if (!isObject(raw) || !Array.isArray(raw.rosters))
+    throw corrupt("명단 목록(rosters)이 없습니다.");
+  return { rosters: raw.rosters as StoredRoster[] };
+}
+
+async function writeStore(store: StoreFile) {
+  await fs.mkdir(path.dirname(DATA_FILE), { recursive: true });
+  const tmp = `${DATA_FILE}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(store, null, 2), "utf8");
+  await fs.rename(tmp, DATA_FILE);
+}
+
+const newId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const info = (r: StoredRoster): RosterInfo => ({
+  id: r.id,
+  name: r.name,
+  revision: r.revision,
+  updatedAt: r.updatedAt,
+});
+
+const toRoster = (r: StoredRoster): Roster => ({
+  ...info(r),
+  state: migrateState(r.state, r.version),
+});
+
+/** ============ CRUD ============ */
+export async function listRosters(): Promise<RosterInfo[]> {
+  const { rosters } = await readStore();
+  return rosters
+    .map(info)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getRoster(id: string): Promise<Roster | null> {
+  const { rosters } = await readStore();
+  const found = rosters.find((r) => r.id === id);
+  return found ? toRoster(found) : null;
+}
+
+export function createRoster(
+  name: string,
+  state: PlannerState = emptyPlannerState()
+): Promise<Roster> {
+  return exclusive(async () => {
+    const store = await readStore();
+    const now = new Date().toISOString();
+    const stored: StoredRoster = {
+      id: newId(),
+      name,
+      revision: 1,
+      updatedAt: now,
+      createdAt: now,
+      version: SCHEMA_VERSION,
+      state,
+    };
+    await writeStore({ rosters: [...store.rosters, stored] });
+    return toRoster(stored);
+  });
+}
+
+/**
+ * 명단 수정: update가 현재 값을 받아 바뀐 이름/상태를 돌려줌
+ * - baseRevision을 주면 그 사이 다른 저장이 있었는지 확인 (없으면 덮어쓰기)
+ * - 현재 값에 따른 검사(대상 트랙이 있는지 등)는 update 안에서 하고 { reject }로 거절
+ *   (쓰기 순서 안에서 확인하므로 그 사이 다른 저장이 끼어들지 않음)
+ */
+export function updateRoster(
+  id: string,
+  update: (current: Roster) => RosterPatch,
+  baseRevision?: number
+): Promise<UpdateResult> {
+  return exclusive(async () => {
+    const store = await readStore();
+    const idx = store.rosters.findIndex((r) => r.id === id);
+    if (idx === -1) return { ok: false, reason: "NOT_FOUND" };
+    const current = toRoster(store.rosters[idx]);
+    if (baseRevision !== undefined && baseRevision !== current.revision)
+      return { ok: false, reason: "CONFLICT", current };
+    const patch = update(current);
+    if ("reject" in patch)
+      return { ok: false, reason: "REJECTED", error: patch.reject };
+    const stored: StoredRoster = {
+      ...store.rosters[idx],
+      name: patch.name ?? current.name,
+      revision: current.revision + 1,
+      updatedAt: new Date().toISOString(),
+      version: SCHEMA_VERSION,
+      state: patch.state ?? current.state,
+    };
+    const rosters = [...store.rosters];
+    rosters[idx] = stored;
+    await writeStore({ rosters });
+    return { ok: true, roster: toRoster(stored) };
+  });
+}
+
+export function deleteRoster(id: string): Promise<boolean> {
+  return exclusive(async () => {
+    const store = await readStore();
+    const rosters = store.rosters.filter((r) => r.id !== id);
+    if (rosters.length === store.rosters.length) return false;
+    await writeStore({ rosters });
+    return true;
+  });
+}
@@ -0,0 +1,13 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    // 자정에 일광 절약 시간이 시작되는 시간대: 현지 시간 기준 날짜 계산이 섞이면 바로 드러남
+    env: { TZ: "America/Santiago" },
+  },
+});